@@ -0,0 +1,44 @@
+import { PrismaClient } from '@prisma/client';
+import { PrismaService } from '../src/database/prisma.service';
+import { TrackingAnalyticsService } from '../src/modules/tracking/tracking-analytics.service';
+
+// Rebuilds the analytics daily rollups from tracking history. Run once after
+// deploying analytics; running it again recomputes the same totals.
+const prisma = new PrismaClient();
+const analyticsService = new TrackingAnalyticsService(prisma as PrismaService);
+
+const BATCH_SIZE = 100;
+
+async function main() {
+  let cursor: string | undefined;
+  let users = 0;
+
+  do {
+    const batch = await prisma.user.findMany({
+      where: { trackingSessions: { some: {} } },
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: BATCH_SIZE,
+      ...(cursor && { skip: 1, cursor: { id: cursor } }),
+    });
+
+    for (const user of batch) {
+      const { sessions, rollups } = await analyticsService.rebuildRollups(user.id);
+      console.log(`Rebuilt ${rollups} rollup(s) from ${sessions} session(s) for user ${user.id}`);
+    }
+
+    users += batch.length;
+    cursor = batch.length === BATCH_SIZE ? batch[batch.length - 1].id : undefined;
+  } while (cursor);
+
+  console.log(`Backfilled tracking rollups of ${users} user(s)`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
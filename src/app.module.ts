@@ -10,6 +10,9 @@ import { AuthModule } from './modules/auth/auth.module';
 import { UsersModule } from './modules/users/users.module';
 import { HealthModule } from './modules/health/health.module';
 import { TasksModule } from './modules/tasks/tasks.module';
+import { CalendarModule } from './modules/calendar/calendar.module';
+import { LabelsModule } from './modules/labels/labels.module';
+import { ProjectsModule } from './modules/projects/projects.module';
 import { RoomsModule } from './modules/rooms/rooms.module';
 import { MatchmakingModule } from './modules/matchmaking/matchmaking.module';
 import { LiveKitModule } from './modules/livekit/livekit.module';
@@ -23,6 +26,8 @@ import { SearchModule } from './modules/search/search.module';
 import { MonitoringModule } from './modules/monitoring/monitoring.module';
 import { MicroservicesModule } from './modules/microservices/microservices.module';
 import { TrackingModule } from './modules/tracking/tracking.module';
+import { LevelsModule } from './modules/levels/levels.module';
+import { StreaksModule } from './modules/streaks/streaks.module';
 import { PrismaService } from './database/prisma.service';
 import { DatabaseService } from './database/database.service';
 import { CacheService } from './common/services/cache.service';
@@ -33,6 +38,16 @@ import jwtConfig from './config/jwt.config';
 import redisConfig from './config/redis.config';
 import firebaseConfig from './config/firebase.config';
 import livekitConfig from './config/livekit.config';
+import levelConfig from './config/level.config';
+import streakConfig from './config/streak.config';
+import recurrenceConfig from './config/recurrence.config';
+import reminderConfig from './config/reminder.config';
+import trackingConfig from './config/tracking.config';
+import taskImportConfig from './config/task-import.config';
+import taskArchiveConfig from './config/task-archive.config';
+import calendarConfig from './config/calendar.config';
+import roomChatConfig from './config/room-chat.config';
+import roomInviteConfig from './config/room-invite.config';
 import { validate } from './config/config.schema';
 import { LoggerMiddleware } from './common/middleware/logger.middleware';
 import { LoggingInterceptor } from './common/interceptors/logging.interceptor';
@@ -45,7 +60,24 @@ import { ValidationPipe } from './common/pipes/validation.pipe';
   imports: [
     ConfigModule.forRoot({
       isGlobal: true,
-      load: [appConfig, databaseConfig, jwtConfig, redisConfig, firebaseConfig, livekitConfig],
+      load: [
+        appConfig,
+        databaseConfig,
+        jwtConfig,
+        redisConfig,
+        firebaseConfig,
+        livekitConfig,
+        levelConfig,
+        streakConfig,
+        recurrenceConfig,
+        reminderConfig,
+        trackingConfig,
+        taskImportConfig,
+        taskArchiveConfig,
+        calendarConfig,
+        roomChatConfig,
+        roomInviteConfig,
+      ],
       validate,
       envFilePath: ['.env.local', '.env'],
     }),
@@ -149,6 +181,9 @@ import { ValidationPipe } from './common/pipes/validation.pipe';
     UsersModule,
     HealthModule,
     TasksModule,
+    CalendarModule,
+    LabelsModule,
+    ProjectsModule,
     RoomsModule,
     MatchmakingModule,
     LiveKitModule,
@@ -162,6 +197,8 @@ import { ValidationPipe } from './common/pipes/validation.pipe';
     MonitoringModule,
     MicroservicesModule,
     TrackingModule,
+    LevelsModule,
+    StreaksModule,
   ],
   providers: [
     PrismaService,
@@ -4,6 +4,14 @@ import { Cache } from 'cache-manager';
 
 @Injectable()
 export class CacheService {
+  private readonly INCREMENT_LUA = `
+    local count = redis.call("INCR", KEYS[1])
+    if count == 1 then
+      redis.call("PEXPIRE", KEYS[1], ARGV[1])
+    end
+    return count
+  `;
+
   constructor(@Inject(CACHE_MANAGER) private cacheManager: Cache) {}
 
   async get<T>(key: string): Promise<T | undefined> {
@@ -18,6 +26,21 @@ export class CacheService {
     await this.cacheManager.del(key);
   }
 
+  /**
+   * Atomically increments a counter, starting its TTL on the first increment
+   */
+  async increment(key: string, ttl: number): Promise<number> {
+    const client = (this.cacheManager.store as any).client;
+    if (!client) {
+      // Stores without a Redis client (e.g. in-memory) get a best-effort read and write
+      const count = ((await this.get<number>(key)) ?? 0) + 1;
+      await this.set(key, count, ttl);
+      return count;
+    }
+
+    return client.eval(this.INCREMENT_LUA, { keys: [key], arguments: [String(ttl)] });
+  }
+
   async reset(): Promise<void> {
     await this.cacheManager.reset();
   }
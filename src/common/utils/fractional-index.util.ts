@@ -0,0 +1,55 @@
+/**
+ * Fractional indexing: order keys that always have room between them, so moving an
+ * item only rewrites that item. A key is read as the fraction 0.<digits> in base 36
+ * and never ends with '0'. Only [0-9a-z] is used, which sorts the same way in
+ * byte order and in the usual database collations.
+ */
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+const KEY_PATTERN = /^[0-9a-z]*[1-9a-z]$/;
+
+/**
+ * A key sorting strictly between `before` and `after` (null = open end)
+ */
+export function generateKeyBetween(before: string | null, after: string | null): string {
+  for (const key of [before, after]) {
+    if (key !== null && !KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid order key: ${key}`);
+    }
+  }
+
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Order keys are not ascending: ${before} >= ${after}`);
+  }
+
+  return midpoint(before ?? '', after);
+}
+
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Keep the shared prefix and split the remainder
+    let n = 0;
+    while ((a[n] || '0') === b[n]) {
+      n++;
+    }
+
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    // Appending is the common case: step by one digit so keys grow slowly at the end
+    return DIGITS[b === null && a ? digitA + 1 : Math.round((digitA + digitB) / 2)];
+  }
+
+  // Adjacent first digits: b's first digit alone still sorts after a when b is longer
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
@@ -0,0 +1,94 @@
+/**
+ * Minimal RFC 5545 (iCalendar) writer helpers. Lines are joined with CRLF.
+ */
+
+const MAX_LINE_OCTETS = 75;
+
+export interface IcsEvent {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  stamp?: Date;
+  // Recurrence rule value, e.g. FREQ=WEEKLY;BYDAY=MO (an "RRULE:" prefix is accepted)
+  rrule?: string;
+}
+
+/**
+ * UTC date-time in the basic format, e.g. 20251225T093000Z
+ */
+export function formatIcsDate(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/\.\d{3}Z$/, 'Z')
+    .replace(/[-:]/g, '');
+}
+
+export function escapeIcsText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line into 75-octet chunks; continuation lines start with a space
+ */
+export function foldIcsLine(line: string): string {
+  if (Buffer.byteLength(line) <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  let limit = MAX_LINE_OCTETS;
+
+  // Iterate by code point so multi-byte characters are never split
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = '';
+      // The leading space of a continuation line counts towards its length
+      limit = MAX_LINE_OCTETS - 1;
+    }
+    current += char;
+  }
+  chunks.push(current);
+
+  return chunks.join('\r\n ');
+}
+
+export function buildIcsCalendarHeader(productId: string, name?: string): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:-//${escapeIcsText(productId)}//EN`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(name ? [foldIcsLine(`X-WR-CALNAME:${escapeIcsText(name)}`)] : []),
+  ]
+    .map((line) => `${line}\r\n`)
+    .join('');
+}
+
+export function buildIcsCalendarFooter(): string {
+  return 'END:VCALENDAR\r\n';
+}
+
+export function buildIcsEvent(event: IcsEvent): string {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatIcsDate(event.stamp || new Date())}`,
+    `DTSTART:${formatIcsDate(event.start)}`,
+    `DTEND:${formatIcsDate(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+    ...(event.rrule ? [`RRULE:${event.rrule.replace(/^RRULE:/, '')}`] : []),
+    'END:VEVENT',
+  ]
+    .map((line) => `${foldIcsLine(line)}\r\n`)
+    .join('');
+}
@@ -0,0 +1,116 @@
+/**
+ * Timezone helpers built on Intl (IANA names, e.g. 'Asia/Ho_Chi_Minh').
+ * Calendar days are represented as 'YYYY-MM-DD' date keys.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface LocalParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function getLocalParts(date: Date, timeZone: string): LocalParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((part) => part.type === type)?.value;
+
+  return {
+    year: Number(get('year')),
+    month: Number(get('month')),
+    day: Number(get('day')),
+    hour: Number(get('hour')),
+    minute: Number(get('minute')),
+    second: Number(get('second')),
+  };
+}
+
+/**
+ * Offset of the timezone from UTC at the given instant, in milliseconds
+ */
+export function getTimeZoneOffsetMs(date: Date, timeZone: string): number {
+  const p = getLocalParts(date, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+export function toLocalDateKey(date: Date, timeZone: string): string {
+  const p = getLocalParts(date, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+export function getLocalHour(date: Date, timeZone: string): number {
+  return getLocalParts(date, timeZone).hour;
+}
+
+/**
+ * UTC instant at which the given local calendar day starts
+ */
+export function getLocalDayStart(dateKey: string, timeZone: string): Date {
+  const utcMidnight = dateKeyToDate(dateKey).getTime();
+  // Resolve twice so days starting right after a DST change get the right offset
+  const firstGuess = utcMidnight - getTimeZoneOffsetMs(new Date(utcMidnight), timeZone);
+  return new Date(utcMidnight - getTimeZoneOffsetMs(new Date(firstGuess), timeZone));
+}
+
+/**
+ * [start, end) UTC range covering the given local calendar day
+ */
+export function getLocalDayRange(dateKey: string, timeZone: string): { start: Date; end: Date } {
+  return {
+    start: getLocalDayStart(dateKey, timeZone),
+    end: getLocalDayStart(addDaysToDateKey(dateKey, 1), timeZone),
+  };
+}
+
+export function addDaysToDateKey(dateKey: string, days: number): string {
+  return dateToDateKey(new Date(dateKeyToDate(dateKey).getTime() + days * DAY_MS));
+}
+
+/**
+ * Whole days from `from` to `to` (positive when `to` is later)
+ */
+export function diffDateKeys(to: string, from: string): number {
+  return Math.round((dateKeyToDate(to).getTime() - dateKeyToDate(from).getTime()) / DAY_MS);
+}
+
+/**
+ * Date key -> Date at UTC midnight (the value Prisma uses for @db.Date columns)
+ */
+export function dateKeyToDate(dateKey: string): Date {
+  return new Date(`${dateKey}T00:00:00.000Z`);
+}
+
+export function dateToDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Period a date key falls in: the day itself, the Monday starting its ISO week,
+ * or its month as 'YYYY-MM'
+ */
+export function getPeriodKey(dateKey: string, period: 'day' | 'week' | 'month'): string {
+  switch (period) {
+    case 'week': {
+      const weekday = dateKeyToDate(dateKey).getUTCDay();
+      return addDaysToDateKey(dateKey, -((weekday + 6) % 7));
+    }
+    case 'month':
+      return dateKey.slice(0, 7);
+    default:
+      return dateKey;
+  }
+}
@@ -0,0 +1,9 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('calendar', () => ({
+  // Public base URL of the API, used to build subscription links
+  feedBaseUrl:
+    process.env.CALENDAR_FEED_BASE_URL || `http://localhost:${process.env.PORT || '3000'}/api`,
+  // Rendered feeds are served from cache for this long
+  feedCacheSeconds: parseInt(process.env.CALENDAR_FEED_CACHE_SECONDS || '300', 10),
+}));
@@ -0,0 +1,16 @@
+import { registerAs } from '@nestjs/config';
+
+// Cumulative EXP (1 EXP = 1 focused second) required to reach level 2, 3, 4, ...
+const DEFAULT_LEVEL_THRESHOLDS = [
+  3600, 10800, 25200, 50400, 90000, 144000, 216000, 324000, 468000, 720000,
+];
+
+export default registerAs('level', () => ({
+  thresholds: process.env.LEVEL_THRESHOLDS
+    ? process.env.LEVEL_THRESHOLDS.split(',')
+        .map((value) => parseInt(value.trim(), 10))
+        .filter((value) => !Number.isNaN(value))
+        .sort((a, b) => a - b)
+    : DEFAULT_LEVEL_THRESHOLDS,
+  taskCompletionExp: parseInt(process.env.TASK_COMPLETION_EXP || '600', 10),
+}));
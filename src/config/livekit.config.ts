@@ -4,4 +4,9 @@ export default registerAs('livekit', () => ({
   url: process.env.LIVEKIT_URL || 'ws://localhost:7880',
   apiKey: process.env.LIVEKIT_API_KEY,
   apiSecret: process.env.LIVEKIT_API_SECRET,
+  // Processed webhook ids are kept this long to drop retried deliveries, then purged
+  webhookEventRetentionHours: parseInt(
+    process.env.LIVEKIT_WEBHOOK_EVENT_RETENTION_HOURS || '24',
+    10,
+  ),
 }));
@@ -0,0 +1,6 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('recurrence', () => ({
+  // Occurrences of recurring tasks are created this many days ahead of their deadline
+  horizonDays: parseInt(process.env.RECURRENCE_HORIZON_DAYS || '7', 10),
+}));
@@ -0,0 +1,9 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('reminder', () => ({
+  // Minutes before a task's deadline at which reminders are sent (comma-separated)
+  deadlineOffsetsMinutes: (process.env.DEADLINE_REMINDER_OFFSETS_MINUTES || '1440,60')
+    .split(',')
+    .map((value) => parseInt(value.trim(), 10))
+    .filter((minutes) => minutes > 0),
+}));
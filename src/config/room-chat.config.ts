@@ -0,0 +1,7 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('roomChat', () => ({
+  // Each user may send this many messages per window, across all rooms
+  rateLimitMessages: parseInt(process.env.ROOM_CHAT_RATE_LIMIT_MESSAGES || '10', 10),
+  rateLimitWindowSeconds: parseInt(process.env.ROOM_CHAT_RATE_LIMIT_WINDOW_SECONDS || '10', 10),
+}));
@@ -0,0 +1,6 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('roomInvite', () => ({
+  // Frontend page that joins a room with the code appended to it
+  linkBaseUrl: process.env.ROOM_INVITE_LINK_BASE_URL || 'http://localhost:5173/rooms/join',
+}));
@@ -0,0 +1,9 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('streak', () => ({
+  // Local hour (0-23) after which users with an unfinished day get a reminder
+  reminderHour: parseInt(process.env.STREAK_REMINDER_HOUR || '20', 10),
+  // A freeze token is granted every N consecutive days
+  freezeEveryDays: parseInt(process.env.STREAK_FREEZE_EVERY_DAYS || '7', 10),
+  maxFreezeTokens: parseInt(process.env.STREAK_MAX_FREEZE_TOKENS || '2', 10),
+}));
@@ -0,0 +1,6 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('taskArchive', () => ({
+  // Archived tasks are permanently deleted (with their sessions) after this many days
+  retentionDays: parseInt(process.env.TASK_ARCHIVE_RETENTION_DAYS || '30', 10),
+}));
@@ -0,0 +1,6 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('taskImport', () => ({
+  // Imports with more rows than this run as a background job that can be polled
+  maxSyncRows: parseInt(process.env.TASK_IMPORT_MAX_SYNC_ROWS || '200', 10),
+}));
@@ -0,0 +1,8 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('tracking', () => ({
+  // An active session without a client heartbeat for this long is considered idle
+  heartbeatTimeoutSeconds: parseInt(process.env.TRACKING_HEARTBEAT_TIMEOUT_SECONDS || '120', 10),
+  // What happens to idle sessions: 'pause' or 'stop' (both trim time back to the last heartbeat)
+  idleAction: process.env.TRACKING_IDLE_ACTION === 'stop' ? 'stop' : 'pause',
+}));
@@ -2,18 +2,23 @@ import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { SwaggerModule, DocumentBuilder } from '@nestjs/swagger';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import helmet from 'helmet';
 import { AppModule } from './app.module';
 import { SocketIoAdapter } from './common/adapters/socket-io.adapter';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // Raw bodies are kept for webhook signature verification
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, { rawBody: true });
 
   const configService = app.get(ConfigService);
 
   // Security
   app.use(helmet());
 
+  // LiveKit posts webhooks as application/webhook+json
+  app.useBodyParser('json', { type: 'application/webhook+json' });
+
   // CORS configuration
   const corsOrigin =
     configService.get<string>('app.nodeEnv') === 'production'
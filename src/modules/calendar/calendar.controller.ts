@@ -0,0 +1,98 @@
+import {
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  StreamableFile,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiProduces, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { CalendarService } from './calendar.service';
+import { CalendarFeedQueryDto } from './dto/calendar-feed-query.dto';
+import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { Public } from '@/common/decorators/public.decorator';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+
+const FEED_LINKS_EXAMPLE = {
+  url: 'https://api.example.com/api/calendar/Qm9ndXNUb2tlbkV4YW1wbGUxMjM0.ics',
+  webcalUrl: 'webcal://api.example.com/api/calendar/Qm9ndXNUb2tlbkV4YW1wbGUxMjM0.ics',
+  studyBlocksUrl:
+    'https://api.example.com/api/calendar/Qm9ndXNUb2tlbkV4YW1wbGUxMjM0.ics?studyBlocks=true',
+};
+
+@ApiTags('calendar')
+@UseGuards(JwtAuthGuard)
+@Controller('calendar')
+export class CalendarController {
+  constructor(private readonly calendarService: CalendarService) {}
+
+  @Get('feed')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get the calendar subscription links',
+    description:
+      'Links to an iCalendar feed of open task deadlines, for Google Calendar or Apple Calendar. Anyone with the link can read the feed.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Feed links retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: FEED_LINKS_EXAMPLE,
+      },
+    },
+  })
+  getFeed(@CurrentUser() user: any) {
+    return this.calendarService.getFeed(user.id);
+  }
+
+  @Post('feed/rotate')
+  @ApiBearerAuth()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Rotate the calendar feed token',
+    description: 'Old links stop working; calendars have to subscribe again with the new link.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Token rotated successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: FEED_LINKS_EXAMPLE,
+      },
+    },
+  })
+  rotateToken(@CurrentUser() user: any) {
+    return this.calendarService.rotateToken(user.id);
+  }
+
+  @Public()
+  @Get(':token.ics')
+  @Header('Cache-Control', 'private, max-age=300')
+  @ApiProduces('text/calendar')
+  @ApiOperation({
+    summary: 'iCalendar feed of open task deadlines',
+    description: 'Authenticated by the secret token in the URL, not a JWT.',
+  })
+  @ApiResponse({ status: 200, description: 'iCalendar feed' })
+  @ApiResponse({ status: 404, description: 'Calendar feed not found' })
+  async getIcsFeed(@Param('token') token: string, @Query() query: CalendarFeedQueryDto) {
+    const ics = await this.calendarService.renderFeed(token, query.studyBlocks);
+
+    return new StreamableFile(Buffer.from(ics), {
+      type: 'text/calendar; charset=utf-8',
+      disposition: 'inline; filename="deadlines.ics"',
+    });
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { CalendarService } from './calendar.service';
+import { CalendarController } from './calendar.controller';
+import { PrismaService } from '@/database/prisma.service';
+import { CacheService } from '@/common/services/cache.service';
+
+@Module({
+  controllers: [CalendarController],
+  providers: [CalendarService, PrismaService, CacheService],
+})
+export class CalendarModule {}
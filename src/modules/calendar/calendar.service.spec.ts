@@ -0,0 +1,180 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { CalendarService } from './calendar.service';
+import { PrismaService } from '@/database/prisma.service';
+import { CacheService } from '@/common/services/cache.service';
+
+describe('CalendarService', () => {
+  let service: CalendarService;
+  let mockPrismaService: any;
+  let mockCacheService: any;
+
+  const config: Record<string, any> = {
+    'app.name': 'studyhub',
+    'calendar.feedBaseUrl': 'https://api.example.com/api',
+    'calendar.feedCacheSeconds': 300,
+  };
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ calendarToken: null }),
+        findFirst: jest.fn().mockResolvedValue({ id: 'user-id' }),
+        update: jest.fn().mockResolvedValue({ calendarToken: 'new-token' }),
+      },
+      task: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+    };
+    mockCacheService = {
+      getOrSet: jest.fn((_key: string, factory: () => Promise<string>) => factory()),
+      del: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CalendarService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: CacheService, useValue: mockCacheService },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => config[key]) } },
+      ],
+    }).compile();
+
+    service = module.get<CalendarService>(CalendarService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getFeed', () => {
+    it('should create a token on first use', async () => {
+      const result = await service.getFeed('user-id');
+
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: { calendarToken: expect.any(String) },
+        select: { calendarToken: true },
+      });
+      expect(result).toEqual({
+        url: 'https://api.example.com/api/calendar/new-token.ics',
+        webcalUrl: 'webcal://api.example.com/api/calendar/new-token.ics',
+        studyBlocksUrl: 'https://api.example.com/api/calendar/new-token.ics?studyBlocks=true',
+      });
+    });
+
+    it('should keep an existing token', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({ calendarToken: 'token' });
+
+      const result = await service.getFeed('user-id');
+
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+      expect(result.url).toBe('https://api.example.com/api/calendar/token.ics');
+    });
+  });
+
+  describe('rotateToken', () => {
+    it('should replace the token and drop the cached feeds of the old one', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({ calendarToken: 'old-token' });
+
+      const result = await service.rotateToken('user-id');
+
+      expect(result.url).toBe('https://api.example.com/api/calendar/new-token.ics');
+      expect(mockCacheService.del).toHaveBeenCalledWith('calendar-feed:old-token:deadlines');
+      expect(mockCacheService.del).toHaveBeenCalledWith('calendar-feed:old-token:blocks');
+    });
+  });
+
+  describe('renderFeed', () => {
+    const now = new Date('2025-12-20T00:00:00.000Z');
+
+    it('should list open task deadlines', async () => {
+      mockPrismaService.task.findMany.mockResolvedValueOnce([
+        {
+          id: 'task-1',
+          name: 'Essay, draft 2',
+          deadline: new Date('2025-12-24T17:00:00.000Z'),
+          estimateHours: 3,
+          progress: 40,
+          isRecurringTemplate: false,
+          recurrenceRule: null,
+        },
+      ]);
+
+      const ics = await service.renderFeed('token', false, now);
+
+      expect(mockCacheService.getOrSet).toHaveBeenCalledWith(
+        'calendar-feed:token:deadlines',
+        expect.any(Function),
+        300000,
+      );
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 'user-id',
+            status: { not: 'DONE' },
+            archivedAt: null,
+            isRecurringTemplate: false,
+            deadline: { gte: now },
+          },
+          orderBy: { deadline: 'asc' },
+        }),
+      );
+      expect(ics).toContain('UID:task-task-1@studyhub\r\n');
+      expect(ics).toContain('DTSTART:20251224T163000Z\r\n');
+      expect(ics).toContain('DTEND:20251224T170000Z\r\n');
+      expect(ics).toContain('SUMMARY:Due: Essay\\, draft 2\r\n');
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    });
+
+    it('should add recurring series as repeating study blocks when requested', async () => {
+      mockPrismaService.task.findMany.mockResolvedValueOnce([
+        {
+          id: 'series-1',
+          name: 'Practice English',
+          deadline: new Date('2025-12-22T08:00:00.000Z'),
+          estimateHours: 0.5,
+          progress: 0,
+          isRecurringTemplate: true,
+          recurrenceRule: 'RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR',
+        },
+      ]);
+
+      const ics = await service.renderFeed('token', true, now);
+
+      expect(ics).toContain('SUMMARY:Study: Practice English\r\n');
+      expect(ics).toContain('DTSTART:20251222T073000Z\r\n');
+      expect(ics).toContain('RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR\r\n');
+      // Occurrences of listed series are left out
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            OR: [
+              { recurrenceParentId: null },
+              { recurrenceParent: { OR: [{ status: 'DONE' }, { archivedAt: { not: null } }] } },
+            ],
+          }),
+        }),
+      );
+    });
+
+    it('should fill the feed with the most recent overdue tasks after upcoming ones', async () => {
+      await service.renderFeed('token', false, now);
+
+      expect(mockPrismaService.task.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ deadline: { lt: now } }),
+          orderBy: { deadline: 'desc' },
+          take: 1000,
+        }),
+      );
+    });
+
+    it('should reject unknown tokens', async () => {
+      mockPrismaService.user.findFirst.mockResolvedValue(null);
+
+      await expect(service.renderFeed('unknown')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, TaskStatus } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '@/database/prisma.service';
+import { CacheService } from '@/common/services/cache.service';
+import {
+  buildIcsCalendarFooter,
+  buildIcsCalendarHeader,
+  buildIcsEvent,
+} from '@/common/utils/ical.util';
+
+const MINUTE_MS = 60 * 1000;
+// Deadlines are shown as a short block ending at the deadline
+const DEADLINE_EVENT_MINUTES = 30;
+const MAX_FEED_TASKS = 1000;
+
+@Injectable()
+export class CalendarService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private cacheService: CacheService,
+  ) {}
+
+  /**
+   * Subscription links of the user's feed. The token is created on first use.
+   */
+  async getFeed(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { calendarToken: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const token =
+      user.calendarToken ??
+      (
+        await this.prisma.user.update({
+          where: { id: userId },
+          data: { calendarToken: this.generateToken() },
+          select: { calendarToken: true },
+        })
+      ).calendarToken;
+
+    return this.toFeedLinks(token);
+  }
+
+  /**
+   * Replace the feed token. Calendars subscribed with the old link stop receiving updates.
+   */
+  async rotateToken(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { calendarToken: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const { calendarToken } = await this.prisma.user.update({
+      where: { id: userId },
+      data: { calendarToken: this.generateToken() },
+      select: { calendarToken: true },
+    });
+
+    if (user.calendarToken) {
+      await this.cacheService.del(this.getCacheKey(user.calendarToken, false));
+      await this.cacheService.del(this.getCacheKey(user.calendarToken, true));
+    }
+
+    return this.toFeedLinks(calendarToken);
+  }
+
+  /**
+   * iCalendar feed of the open task deadlines of the token's owner, optionally with
+   * recurring series as repeating study blocks. Served from cache for a few minutes.
+   */
+  async renderFeed(token: string, includeStudyBlocks = false, now: Date = new Date()) {
+    return this.cacheService.getOrSet(
+      this.getCacheKey(token, includeStudyBlocks),
+      () => this.buildFeed(token, includeStudyBlocks, now),
+      this.configService.get<number>('calendar.feedCacheSeconds') * 1000,
+    );
+  }
+
+  private async buildFeed(token: string, includeStudyBlocks: boolean, now: Date) {
+    const user = await this.prisma.user.findFirst({
+      where: { calendarToken: token, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const appName = this.configService.get<string>('app.name');
+
+    const where: Prisma.TaskWhereInput = {
+      userId: user.id,
+      status: { not: TaskStatus.DONE },
+      archivedAt: null,
+      ...(includeStudyBlocks
+        ? {
+            // Occurrences of a series in the feed are covered by its repeating block
+            OR: [
+              { recurrenceParentId: null },
+              {
+                recurrenceParent: {
+                  OR: [{ status: TaskStatus.DONE }, { archivedAt: { not: null } }],
+                },
+              },
+            ],
+          }
+        : { isRecurringTemplate: false }),
+    };
+    const select = {
+      id: true,
+      name: true,
+      deadline: true,
+      estimateHours: true,
+      progress: true,
+      isRecurringTemplate: true,
+      recurrenceRule: true,
+      updatedAt: true,
+    } as const;
+
+    // Nearest upcoming deadlines first; overdue tasks fill what is left, most recent first
+    const upcoming = await this.prisma.task.findMany({
+      where: { ...where, deadline: { gte: now } },
+      select,
+      orderBy: { deadline: 'asc' },
+      take: MAX_FEED_TASKS,
+    });
+    const overdue =
+      upcoming.length < MAX_FEED_TASKS
+        ? await this.prisma.task.findMany({
+            where: { ...where, deadline: { lt: now } },
+            select,
+            orderBy: { deadline: 'desc' },
+            take: MAX_FEED_TASKS - upcoming.length,
+          })
+        : [];
+    const tasks = [...upcoming, ...overdue];
+
+    let ics = buildIcsCalendarHeader(appName, 'Task deadlines');
+
+    for (const task of tasks) {
+      if (task.isRecurringTemplate) {
+        // A series repeats a block of its estimate, ending at each occurrence's deadline
+        const minutes = Math.max(Number(task.estimateHours) * 60, DEADLINE_EVENT_MINUTES);
+
+        ics += buildIcsEvent({
+          uid: `series-${task.id}@${appName}`,
+          start: new Date(task.deadline.getTime() - minutes * MINUTE_MS),
+          end: task.deadline,
+          summary: `Study: ${task.name}`,
+          description: `Scheduled study block (${Number(task.estimateHours)}h)`,
+          rrule: task.recurrenceRule,
+          stamp: now,
+        });
+        continue;
+      }
+
+      ics += buildIcsEvent({
+        uid: `task-${task.id}@${appName}`,
+        start: new Date(task.deadline.getTime() - DEADLINE_EVENT_MINUTES * MINUTE_MS),
+        end: task.deadline,
+        summary: `Due: ${task.name}`,
+        description: `${Math.round(task.progress)}% done of a ${Number(task.estimateHours)}h estimate`,
+        stamp: now,
+      });
+    }
+
+    return ics + buildIcsCalendarFooter();
+  }
+
+  private toFeedLinks(token: string) {
+    const url = `${this.configService.get<string>('calendar.feedBaseUrl')}/calendar/${token}.ics`;
+
+    return {
+      url,
+      // Opens the subscribe dialog of Apple Calendar and most desktop clients
+      webcalUrl: url.replace(/^https?:\/\//, 'webcal://'),
+      studyBlocksUrl: `${url}?studyBlocks=true`,
+    };
+  }
+
+  private generateToken() {
+    return randomBytes(24).toString('base64url');
+  }
+
+  private getCacheKey(token: string, includeStudyBlocks: boolean) {
+    return `calendar-feed:${token}:${includeStudyBlocks ? 'blocks' : 'deadlines'}`;
+  }
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+
+export class CalendarFeedQueryDto {
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Also include recurring task series as repeating study blocks',
+  })
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  studyBlocks?: boolean;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsOptional, Matches, MaxLength } from 'class-validator';
+
+export class CreateLabelDto {
+  @ApiProperty({ example: 'Exam prep' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  @ApiProperty({ example: '#4CAF50', required: false, description: 'Hex colour' })
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: 'color must be a hex colour like #4CAF50' })
+  color?: string;
+}
@@ -0,0 +1,101 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { LabelsService } from './labels.service';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+
+@ApiTags('labels')
+@ApiBearerAuth()
+@Controller('labels')
+@UseGuards(JwtAuthGuard)
+export class LabelsController {
+  constructor(private readonly labelsService: LabelsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a label' })
+  @ApiResponse({
+    status: 201,
+    description: 'Label created successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          id: 'label-id',
+          name: 'Exam prep',
+          color: '#4CAF50',
+          userId: 'user-id',
+          createdAt: '2025-12-20T03:00:00.000Z',
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 409, description: 'A label with this name already exists' })
+  create(@Body() createLabelDto: CreateLabelDto, @CurrentUser() user: any) {
+    return this.labelsService.create(createLabelDto, user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all labels of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Labels retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: [
+          {
+            id: 'label-id',
+            name: 'Exam prep',
+            color: '#4CAF50',
+            _count: { tasks: 4 },
+          },
+        ],
+      },
+    },
+  })
+  findAll(@CurrentUser() user: any) {
+    return this.labelsService.findAll(user.id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Rename or recolour a label' })
+  @ApiResponse({ status: 200, description: 'Label updated successfully' })
+  @ApiResponse({ status: 404, description: 'Label not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 409, description: 'A label with this name already exists' })
+  update(
+    @Param('id') id: string,
+    @Body() updateLabelDto: UpdateLabelDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.labelsService.update(id, updateLabelDto, user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a label (tasks are kept)' })
+  @ApiResponse({ status: 200, description: 'Label deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Label not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  remove(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.labelsService.remove(id, user.id);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { LabelsService } from './labels.service';
+import { LabelsController } from './labels.controller';
+import { PrismaService } from '@/database/prisma.service';
+
+@Module({
+  controllers: [LabelsController],
+  providers: [LabelsService, PrismaService],
+  exports: [LabelsService],
+})
+export class LabelsModule {}
@@ -0,0 +1,101 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { LabelsService } from './labels.service';
+import { PrismaService } from '@/database/prisma.service';
+
+describe('LabelsService', () => {
+  let service: LabelsService;
+  let mockPrismaService: any;
+
+  const label = {
+    id: 'label-id',
+    name: 'exam',
+    color: '#4CAF50',
+    userId: 'user-id',
+  };
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      label: {
+        create: jest.fn(),
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn(),
+        delete: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [LabelsService, { provide: PrismaService, useValue: mockPrismaService }],
+    }).compile();
+
+    service = module.get<LabelsService>(LabelsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a label', async () => {
+      mockPrismaService.label.findUnique.mockResolvedValue(null);
+      mockPrismaService.label.create.mockResolvedValue(label);
+
+      const result = await service.create({ name: 'exam', color: '#4CAF50' }, 'user-id');
+
+      expect(result).toEqual(label);
+      expect(mockPrismaService.label.create).toHaveBeenCalledWith({
+        data: { name: 'exam', color: '#4CAF50', userId: 'user-id' },
+        select: expect.any(Object),
+      });
+    });
+
+    it('should reject a duplicate name', async () => {
+      mockPrismaService.label.findUnique.mockResolvedValue({ id: 'other-label' });
+
+      await expect(service.create({ name: 'exam' }, 'user-id')).rejects.toThrow(ConflictException);
+      expect(mockPrismaService.label.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findOne', () => {
+    it('should throw NotFoundException if label not found', async () => {
+      mockPrismaService.label.findUnique.mockResolvedValue(null);
+
+      await expect(service.findOne('label-id', 'user-id')).rejects.toThrow(NotFoundException);
+    });
+
+    it('should throw ForbiddenException if user does not own label', async () => {
+      mockPrismaService.label.findUnique.mockResolvedValue(label);
+
+      await expect(service.findOne('label-id', 'other-user')).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('update', () => {
+    it('should not check the name when it is unchanged', async () => {
+      mockPrismaService.label.findUnique.mockResolvedValue(label);
+      mockPrismaService.label.update.mockResolvedValue({ ...label, color: '#F44336' });
+
+      await service.update('label-id', { name: 'exam', color: '#F44336' }, 'user-id');
+
+      expect(mockPrismaService.label.findUnique).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.label.update).toHaveBeenCalledWith({
+        where: { id: 'label-id' },
+        data: { name: 'exam', color: '#F44336' },
+        select: expect.any(Object),
+      });
+    });
+  });
+
+  describe('remove', () => {
+    it('should delete a label', async () => {
+      mockPrismaService.label.findUnique.mockResolvedValue(label);
+
+      const result = await service.remove('label-id', 'user-id');
+
+      expect(result).toEqual({ message: 'Label deleted successfully' });
+      expect(mockPrismaService.label.delete).toHaveBeenCalledWith({ where: { id: 'label-id' } });
+    });
+  });
+});
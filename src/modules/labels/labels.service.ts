@@ -0,0 +1,108 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { PrismaService } from '@/database/prisma.service';
+import { CreateLabelDto } from './dto/create-label.dto';
+import { UpdateLabelDto } from './dto/update-label.dto';
+
+const LABEL_SELECT = {
+  id: true,
+  name: true,
+  color: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+@Injectable()
+export class LabelsService {
+  constructor(private prisma: PrismaService) {}
+
+  async create(createLabelDto: CreateLabelDto, userId: string) {
+    await this.assertNameAvailable(createLabelDto.name, userId);
+
+    return this.prisma.label.create({
+      data: {
+        name: createLabelDto.name,
+        color: createLabelDto.color,
+        userId,
+      },
+      select: LABEL_SELECT,
+    });
+  }
+
+  /**
+   * All labels of the user with the number of tasks using each
+   */
+  async findAll(userId: string) {
+    return this.prisma.label.findMany({
+      where: { userId },
+      select: {
+        ...LABEL_SELECT,
+        _count: { select: { tasks: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async findOne(id: string, userId: string) {
+    const label = await this.prisma.label.findUnique({
+      where: { id },
+      select: LABEL_SELECT,
+    });
+
+    if (!label) {
+      throw new NotFoundException('Label not found');
+    }
+
+    if (label.userId !== userId) {
+      throw new ForbiddenException('You do not have permission to access this label');
+    }
+
+    return label;
+  }
+
+  async update(id: string, updateLabelDto: UpdateLabelDto, userId: string) {
+    const label = await this.findOne(id, userId);
+
+    if (updateLabelDto.name !== undefined && updateLabelDto.name !== label.name) {
+      await this.assertNameAvailable(updateLabelDto.name, userId);
+    }
+
+    return this.prisma.label.update({
+      where: { id },
+      data: {
+        name: updateLabelDto.name,
+        color: updateLabelDto.color,
+      },
+      select: LABEL_SELECT,
+    });
+  }
+
+  /**
+   * Delete a label. Tasks keep existing, only the label is removed from them.
+   */
+  async remove(id: string, userId: string) {
+    await this.findOne(id, userId);
+
+    await this.prisma.label.delete({
+      where: { id },
+    });
+
+    return { message: 'Label deleted successfully' };
+  }
+
+  private async assertNameAvailable(name: string, userId: string) {
+    const existing = await this.prisma.label.findUnique({
+      where: { userId_name: { userId, name } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictException('A label with this name already exists');
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { LevelsService } from './levels.service';
+import { PrismaService } from '@/database/prisma.service';
+import { NotificationsModule } from '../notifications/notifications.module';
+
+@Module({
+  imports: [NotificationsModule],
+  providers: [LevelsService, PrismaService],
+  exports: [LevelsService],
+})
+export class LevelsModule {}
@@ -0,0 +1,170 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { ExpSource } from '@prisma/client';
+import { LevelsService } from './levels.service';
+import { PrismaService } from '@/database/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('LevelsService', () => {
+  let service: LevelsService;
+  let mockPrismaService: any;
+  let mockNotificationsService: any;
+
+  const config: Record<string, any> = {
+    'level.thresholds': [100, 300, 600],
+    'level.taskCompletionExp': 50,
+  };
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      user: {
+        findUnique: jest.fn(),
+        update: jest.fn(),
+      },
+      expTransaction: {
+        create: jest.fn(),
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+    };
+
+    mockNotificationsService = {
+      sendNotification: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LevelsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+      ],
+    }).compile();
+
+    service = module.get<LevelsService>(LevelsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getLevelForExp', () => {
+    it('should map cumulative EXP to levels', () => {
+      expect(service.getLevelForExp(0)).toBe(1);
+      expect(service.getLevelForExp(99)).toBe(1);
+      expect(service.getLevelForExp(100)).toBe(2);
+      expect(service.getLevelForExp(450)).toBe(3);
+      expect(service.getLevelForExp(10000)).toBe(4);
+    });
+  });
+
+  describe('awardExp', () => {
+    it('should record the transaction and increment totalExp', async () => {
+      await service.awardExp({
+        userId: 'user-id',
+        amount: 120,
+        source: ExpSource.SESSION_STOP,
+        sessionId: 'session-id',
+      });
+
+      expect(mockPrismaService.expTransaction.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          userId: 'user-id',
+          amount: 120,
+          source: ExpSource.SESSION_STOP,
+          sessionId: 'session-id',
+        }),
+      });
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: { totalExp: { increment: 120 } },
+      });
+    });
+
+    it('should skip zero amounts', async () => {
+      const result = await service.awardExp({
+        userId: 'user-id',
+        amount: 0,
+        source: ExpSource.SESSION_STOP,
+      });
+
+      expect(result).toBeNull();
+      expect(mockPrismaService.expTransaction.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('awardTaskCompletion', () => {
+    it('should award the bonus only once when a task is completed, reopened and completed again', async () => {
+      mockPrismaService.expTransaction.findFirst
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ id: 'transaction-id' });
+
+      await service.awardTaskCompletion('user-id', 'task-id');
+      const second = await service.awardTaskCompletion('user-id', 'task-id');
+
+      expect(second).toBeNull();
+      expect(mockPrismaService.expTransaction.findFirst).toHaveBeenCalledWith({
+        where: { userId: 'user-id', taskId: 'task-id', source: ExpSource.TASK_COMPLETION },
+        select: { id: true },
+      });
+      expect(mockPrismaService.expTransaction.create).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.user.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('refreshLevel', () => {
+    it('should update the cached level and notify on level-up', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        level: 1,
+        totalExp: 320,
+      });
+
+      const result = await service.refreshLevel('user-id');
+
+      expect(result).toEqual({ level: 3, leveledUp: true });
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: { level: 3 },
+      });
+      expect(mockNotificationsService.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'user-id', data: expect.objectContaining({ level: 3 }) }),
+      );
+    });
+
+    it('should do nothing when the level is unchanged', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        level: 2,
+        totalExp: 150,
+      });
+
+      const result = await service.refreshLevel('user-id');
+
+      expect(result).toEqual({ level: 2, leveledUp: false });
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+      expect(mockNotificationsService.sendNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getLevelInfo', () => {
+    it('should return progress towards the next level', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        level: 2,
+        totalExp: 200,
+      });
+
+      const result = await service.getLevelInfo('user-id');
+
+      expect(result).toMatchObject({
+        level: 2,
+        currentLevelExp: 100,
+        nextLevelExp: 300,
+        expToNextLevel: 100,
+        progress: 50,
+        isMaxLevel: false,
+      });
+    });
+  });
+});
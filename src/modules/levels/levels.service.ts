@@ -0,0 +1,182 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ExpSource } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+export interface AwardExpOptions {
+  userId: string;
+  amount: number;
+  source: ExpSource;
+  description?: string;
+  sessionId?: string;
+  taskId?: string;
+}
+
+@Injectable()
+export class LevelsService {
+  private readonly logger = new Logger(LevelsService.name);
+  private readonly thresholds: number[];
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private notificationsService: NotificationsService,
+  ) {
+    this.thresholds = this.configService.get<number[]>('level.thresholds') || [];
+  }
+
+  /**
+   * Record an EXP transaction and add it to the user's cached total.
+   * Level is not touched here - call refreshLevel() once the surrounding transaction commits.
+   */
+  async awardExp(options: AwardExpOptions, tx?: any) {
+    const prisma = tx || this.prisma;
+
+    if (!options.amount) {
+      return null;
+    }
+
+    const transaction = await prisma.expTransaction.create({
+      data: {
+        userId: options.userId,
+        amount: options.amount,
+        source: options.source,
+        description: options.description,
+        sessionId: options.sessionId,
+        taskId: options.taskId,
+      },
+    });
+
+    await prisma.user.update({
+      where: { id: options.userId },
+      data: { totalExp: { increment: options.amount } },
+    });
+
+    return transaction;
+  }
+
+  /**
+   * Award the configured bonus for completing a task. A task only ever earns it once,
+   * so reopening and completing it again does not pay out twice.
+   */
+  async awardTaskCompletion(userId: string, taskId: string, tx?: any) {
+    const prisma = tx || this.prisma;
+
+    const existing = await prisma.expTransaction.findFirst({
+      where: { userId, taskId, source: ExpSource.TASK_COMPLETION },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return null;
+    }
+
+    return this.awardExp(
+      {
+        userId,
+        amount: this.configService.get<number>('level.taskCompletionExp') || 0,
+        source: ExpSource.TASK_COMPLETION,
+        description: 'Task completed',
+        taskId,
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Sync the cached level with totalExp and notify the user on level-up
+   */
+  async refreshLevel(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, level: true, totalExp: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const level = this.getLevelForExp(user.totalExp);
+
+    if (level === user.level) {
+      return { level, leveledUp: false };
+    }
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { level },
+    });
+
+    const leveledUp = level > user.level;
+
+    if (leveledUp) {
+      try {
+        await this.notificationsService.sendNotification({
+          userId,
+          type: 'websocket',
+          title: 'Level up!',
+          message: `You reached level ${level}`,
+          data: { previousLevel: user.level, level, totalExp: user.totalExp },
+        });
+      } catch (error) {
+        this.logger.error(`Failed to send level-up notification to ${userId}: ${error.message}`);
+      }
+    }
+
+    return { level, leveledUp };
+  }
+
+  /**
+   * Current level, progress to the next level and recent transactions
+   */
+  async getLevelInfo(userId: string, limit: number = 10) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, level: true, totalExp: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const level = this.getLevelForExp(user.totalExp);
+    const currentLevelExp = level > 1 ? this.thresholds[level - 2] : 0;
+    const nextLevelExp = level - 1 < this.thresholds.length ? this.thresholds[level - 1] : null;
+
+    const recentTransactions = await this.prisma.expTransaction.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+      select: {
+        id: true,
+        amount: true,
+        source: true,
+        description: true,
+        sessionId: true,
+        taskId: true,
+        createdAt: true,
+      },
+    });
+
+    const progress =
+      nextLevelExp === null
+        ? 100
+        : ((user.totalExp - currentLevelExp) / (nextLevelExp - currentLevelExp)) * 100;
+
+    return {
+      level,
+      totalExp: user.totalExp,
+      currentLevelExp,
+      nextLevelExp,
+      expToNextLevel: nextLevelExp === null ? 0 : Math.max(nextLevelExp - user.totalExp, 0),
+      progress: Math.round(progress * 100) / 100,
+      isMaxLevel: nextLevelExp === null,
+      recentTransactions,
+    };
+  }
+
+  getLevelForExp(totalExp: number): number {
+    return 1 + this.thresholds.filter((threshold) => totalExp >= threshold).length;
+  }
+}
@@ -0,0 +1,23 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bull';
+import { Logger } from '@nestjs/common';
+import { LiveKitWebhookService } from './livekit-webhook.service';
+
+@Processor('livekit-webhook')
+export class LiveKitWebhookProcessor {
+  private readonly logger = new Logger(LiveKitWebhookProcessor.name);
+
+  constructor(private livekitWebhookService: LiveKitWebhookService) {}
+
+  @Process('purge')
+  async handlePurge(job: Job) {
+    this.logger.log(`Processing LiveKit webhook event purge job ${job.id}`);
+
+    try {
+      return await this.livekitWebhookService.purgeProcessedEvents();
+    } catch (error) {
+      this.logger.error(`LiveKit webhook event purge failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,339 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Room, RoomMember, RoomMemberStatus, RoomStatus, RoomType } from '@prisma/client';
+import { createHash } from 'crypto';
+import { AccessToken } from 'livekit-server-sdk';
+import { LiveKitWebhookService } from './livekit-webhook.service';
+import { LiveKitService } from '@/common/services/livekit.service';
+import { PrismaService } from '@/database/prisma.service';
+import { PresenceService } from '../presence/presence.service';
+import { MatchmakingGateway } from '../matchmaking/matchmaking.gateway';
+
+describe('LiveKitWebhookService', () => {
+  let service: LiveKitWebhookService;
+  let mockPrismaService: any;
+  let mockLiveKitService: any;
+  let mockPresenceService: any;
+  let mockGateway: any;
+
+  const apiKey = 'api-key';
+  const apiSecret = 'api-secret-that-is-long-enough-for-hs256';
+  // 2025-12-22T10:00:00.000Z
+  const eventTime = 1766397600;
+
+  const config: Record<string, any> = {
+    'livekit.apiKey': apiKey,
+    'livekit.apiSecret': apiSecret,
+    'livekit.webhookEventRetentionHours': 24,
+  };
+
+  const participantLeft = (overrides: Record<string, unknown> = {}) =>
+    JSON.stringify({
+      event: 'participant_left',
+      id: 'EV_left',
+      createdAt: String(eventTime),
+      room: { name: 'match-room', numParticipants: 0 },
+      participant: { identity: 'user-1' },
+      ...overrides,
+    });
+
+  const sign = async (body: string, secret = apiSecret) => {
+    const token = new AccessToken(apiKey, secret);
+    token.sha256 = createHash('sha256').update(body).digest('base64');
+    return token.toJwt();
+  };
+
+  const matchRoom = (
+    overrides: Partial<Room> & { members?: Pick<RoomMember, 'userId' | 'joinedAt'>[] } = {},
+  ) => ({
+    id: 'room-id',
+    type: RoomType.MATCH,
+    status: RoomStatus.ACTIVE,
+    members: [{ userId: 'user-1', joinedAt: new Date('2025-12-22T09:00:00.000Z') }],
+    ...overrides,
+  });
+
+  const member = (overrides: Partial<RoomMember> = {}) => ({
+    id: 'member-id',
+    cameraOn: false,
+    cameraOnSince: null,
+    cameraUpdatedAt: null,
+    micUpdatedAt: null,
+    screenShareUpdatedAt: null,
+    ...overrides,
+  });
+
+  const trackEvent = (event: string, source: string, createdAt = eventTime) =>
+    JSON.stringify({
+      event,
+      id: `EV_${event}_${source}_${createdAt}`,
+      createdAt: String(createdAt),
+      room: { name: 'match-room' },
+      participant: { identity: 'user-1' },
+      track: { sid: 'TR_1', source },
+    });
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      liveKitWebhookEvent: {
+        create: jest.fn().mockResolvedValue({}),
+        delete: jest.fn().mockResolvedValue({}),
+        deleteMany: jest.fn().mockResolvedValue({ count: 3 }),
+      },
+      room: {
+        findUnique: jest.fn().mockResolvedValue(matchRoom()),
+        update: jest.fn(),
+      },
+      roomMember: {
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        findUnique: jest.fn().mockResolvedValue(member()),
+        update: jest.fn(),
+      },
+    };
+    mockLiveKitService = { deleteRoom: jest.fn() };
+    mockPresenceService = { recordLeave: jest.fn(), closeRoom: jest.fn() };
+    mockGateway = { removeUserFromRoom: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LiveKitWebhookService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: LiveKitService, useValue: mockLiveKitService },
+        { provide: PresenceService, useValue: mockPresenceService },
+        { provide: MatchmakingGateway, useValue: mockGateway },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => config[key]) } },
+      ],
+    }).compile();
+
+    service = module.get<LiveKitWebhookService>(LiveKitWebhookService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('signature verification', () => {
+    it('should reject deliveries without an authorization header', async () => {
+      await expect(service.receive(Buffer.from(participantLeft()), undefined)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject deliveries signed with another secret', async () => {
+      const body = participantLeft();
+      const authHeader = await sign(body, 'a-different-secret-that-is-long-enough');
+
+      await expect(service.receive(Buffer.from(body), authHeader)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockPrismaService.room.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a body that differs from the signed one', async () => {
+      const authHeader = await sign(participantLeft());
+      const forged = participantLeft({ room: { name: 'other-room', numParticipants: 0 } });
+
+      await expect(service.receive(Buffer.from(forged), authHeader)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockPrismaService.liveKitWebhookEvent.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('participant_left', () => {
+    it('should mark the member as left and close an empty MATCH room', async () => {
+      const body = participantLeft();
+
+      await expect(service.receive(Buffer.from(body), await sign(body))).resolves.toEqual({
+        success: true,
+      });
+
+      expect(mockPrismaService.liveKitWebhookEvent.create).toHaveBeenCalledWith({
+        data: { id: 'EV_left', event: 'participant_left' },
+      });
+      expect(mockPrismaService.roomMember.updateMany).toHaveBeenCalledWith({
+        where: {
+          roomId: 'room-id',
+          userId: 'user-1',
+          status: { not: RoomMemberStatus.LEFT },
+          joinedAt: { lte: new Date((eventTime + 1) * 1000) },
+        },
+        data: { status: RoomMemberStatus.LEFT, leftAt: expect.any(Date) },
+      });
+      expect(mockPrismaService.room.update).toHaveBeenCalledWith({
+        where: { id: 'room-id' },
+        data: { status: RoomStatus.CLOSED, endedAt: expect.any(Date) },
+      });
+      expect(mockLiveKitService.deleteRoom).toHaveBeenCalledWith('match-room');
+      expect(mockPresenceService.recordLeave).toHaveBeenCalledWith(
+        'room-id',
+        'user-1',
+        new Date(eventTime * 1000),
+        new Date((eventTime + 1) * 1000),
+      );
+      expect(mockPresenceService.closeRoom).toHaveBeenCalledWith('room-id');
+      expect(mockGateway.removeUserFromRoom).toHaveBeenCalledWith('room-id', 'user-1');
+    });
+
+    it('should ignore a replayed delivery of the same event', async () => {
+      const body = participantLeft();
+      mockPrismaService.liveKitWebhookEvent.create.mockRejectedValue({ code: 'P2002' });
+
+      await expect(service.receive(Buffer.from(body), await sign(body))).resolves.toEqual({
+        success: true,
+      });
+
+      expect(mockPrismaService.room.findUnique).not.toHaveBeenCalled();
+      expect(mockPrismaService.roomMember.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should not close the room for a delayed event older than a later join', async () => {
+      const body = participantLeft();
+      mockPrismaService.room.findUnique.mockResolvedValue(
+        matchRoom({
+          members: [{ userId: 'user-2', joinedAt: new Date('2025-12-22T10:05:00.000Z') }],
+        }),
+      );
+
+      await service.receive(Buffer.from(body), await sign(body));
+
+      expect(mockPrismaService.room.update).not.toHaveBeenCalled();
+      expect(mockLiveKitService.deleteRoom).not.toHaveBeenCalled();
+    });
+
+    it('should forget the event when handling fails so the retry is processed', async () => {
+      const body = participantLeft();
+      mockPrismaService.roomMember.updateMany.mockRejectedValue(new Error('Database down'));
+
+      await expect(service.receive(Buffer.from(body), await sign(body))).rejects.toThrow(
+        'Database down',
+      );
+      expect(mockPrismaService.liveKitWebhookEvent.delete).toHaveBeenCalledWith({
+        where: { id: 'EV_left' },
+      });
+    });
+  });
+
+  describe('track events', () => {
+    it('should turn the camera on from the time it was published', async () => {
+      const body = trackEvent('track_published', 'CAMERA');
+
+      await service.receive(Buffer.from(body), await sign(body));
+
+      expect(mockPrismaService.roomMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-id' },
+        data: {
+          cameraOn: true,
+          cameraUpdatedAt: new Date(eventTime * 1000),
+          cameraOnSince: new Date(eventTime * 1000),
+        },
+      });
+    });
+
+    it('should add the camera time when the camera track is unpublished', async () => {
+      const body = trackEvent('track_unpublished', 'CAMERA', eventTime + 600);
+      mockPrismaService.roomMember.findUnique.mockResolvedValue(
+        member({ cameraOn: true, cameraOnSince: new Date(eventTime * 1000) }),
+      );
+
+      await service.receive(Buffer.from(body), await sign(body));
+
+      expect(mockPrismaService.roomMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-id' },
+        data: {
+          cameraOn: false,
+          cameraUpdatedAt: new Date((eventTime + 600) * 1000),
+          cameraOnSince: null,
+          cameraOnSeconds: { increment: 600 },
+        },
+      });
+    });
+
+    it('should track the microphone and screen share', async () => {
+      const body = trackEvent('track_published', 'SCREEN_SHARE');
+
+      await service.receive(Buffer.from(body), await sign(body));
+
+      expect(mockPrismaService.roomMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-id' },
+        data: { screenShareOn: true, screenShareUpdatedAt: new Date(eventTime * 1000) },
+      });
+    });
+
+    it('should ignore a delayed event older than the stored state', async () => {
+      const body = trackEvent('track_published', 'CAMERA');
+      mockPrismaService.roomMember.findUnique.mockResolvedValue(
+        member({ cameraUpdatedAt: new Date((eventTime + 60) * 1000) }),
+      );
+
+      await service.receive(Buffer.from(body), await sign(body));
+
+      expect(mockPrismaService.roomMember.update).not.toHaveBeenCalled();
+    });
+
+    it('should apply a delayed event when only another source changed since', async () => {
+      const body = trackEvent('track_published', 'MICROPHONE');
+      mockPrismaService.roomMember.findUnique.mockResolvedValue(
+        member({ cameraUpdatedAt: new Date((eventTime + 60) * 1000) }),
+      );
+
+      await service.receive(Buffer.from(body), await sign(body));
+
+      expect(mockPrismaService.roomMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-id' },
+        data: { micOn: true, micUpdatedAt: new Date(eventTime * 1000) },
+      });
+    });
+
+    it('should turn all media off when the participant leaves', async () => {
+      const body = participantLeft();
+      mockPrismaService.roomMember.findUnique.mockResolvedValue(
+        member({ cameraOn: true, cameraOnSince: new Date((eventTime - 300) * 1000) }),
+      );
+
+      await service.receive(Buffer.from(body), await sign(body));
+
+      expect(mockPrismaService.roomMember.update).toHaveBeenCalledWith({
+        where: { id: 'member-id' },
+        data: {
+          cameraOn: false,
+          cameraUpdatedAt: new Date(eventTime * 1000),
+          micOn: false,
+          micUpdatedAt: new Date(eventTime * 1000),
+          screenShareOn: false,
+          screenShareUpdatedAt: new Date(eventTime * 1000),
+          cameraOnSince: null,
+          cameraOnSeconds: { increment: 300 },
+        },
+      });
+    });
+  });
+
+  describe('room_finished', () => {
+    it('should leave an already closed room untouched', async () => {
+      const body = JSON.stringify({
+        event: 'room_finished',
+        id: 'EV_finished',
+        createdAt: String(eventTime),
+        room: { name: 'match-room' },
+      });
+      mockPrismaService.room.findUnique.mockResolvedValue(matchRoom({ status: RoomStatus.CLOSED }));
+
+      await service.receive(Buffer.from(body), await sign(body));
+
+      expect(mockPrismaService.room.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeProcessedEvents', () => {
+    it('should delete event ids older than the retention window', async () => {
+      const result = await service.purgeProcessedEvents(new Date('2025-12-23T10:00:00.000Z'));
+
+      expect(mockPrismaService.liveKitWebhookEvent.deleteMany).toHaveBeenCalledWith({
+        where: { createdAt: { lt: new Date('2025-12-22T10:00:00.000Z') } },
+      });
+      expect(result).toEqual({ purged: 3 });
+    });
+  });
+});
@@ -0,0 +1,402 @@
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, RoomMemberStatus, RoomStatus, RoomType } from '@prisma/client';
+import { TrackSource, WebhookEvent, WebhookReceiver } from 'livekit-server-sdk';
+import { LiveKitService } from '@/common/services/livekit.service';
+import { PrismaService } from '@/database/prisma.service';
+import { PresenceService } from '../presence/presence.service';
+import { MatchmakingGateway } from '../matchmaking/matchmaking.gateway';
+import { LiveKitWebhookEvent } from './dto/livekit-webhook.dto';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type MediaField = 'cameraOn' | 'micOn' | 'screenShareOn';
+type MediaState = Partial<Record<MediaField, boolean>>;
+
+const TRACK_SOURCE_FIELDS: Partial<Record<TrackSource, MediaField>> = {
+  [TrackSource.CAMERA]: 'cameraOn',
+  [TrackSource.MICROPHONE]: 'micOn',
+  [TrackSource.SCREEN_SHARE]: 'screenShareOn',
+};
+
+const MEDIA_UPDATED_AT_FIELDS = {
+  cameraOn: 'cameraUpdatedAt',
+  micOn: 'micUpdatedAt',
+  screenShareOn: 'screenShareUpdatedAt',
+} as const;
+
+@Injectable()
+export class LiveKitWebhookService {
+  private readonly logger = new Logger(LiveKitWebhookService.name);
+  private receiver: WebhookReceiver;
+
+  constructor(
+    private prisma: PrismaService,
+    private livekitService: LiveKitService,
+    private configService: ConfigService,
+    private presenceService: PresenceService,
+    private matchmakingGateway: MatchmakingGateway,
+  ) {
+    this.receiver = new WebhookReceiver(
+      this.configService.get<string>('livekit.apiKey'),
+      this.configService.get<string>('livekit.apiSecret'),
+    );
+  }
+
+  /**
+   * Verify a webhook delivery against the raw body it was signed over, then handle it.
+   * Each event id is handled once; LiveKit retries deliveries that did not succeed.
+   */
+  async receive(rawBody: Buffer | undefined, authHeader: string | undefined) {
+    const event = await this.verify(rawBody, authHeader);
+
+    this.logger.log(`Received webhook: ${event.event} for room ${event.room?.name}`);
+
+    if (event.id && !(await this.markProcessed(event))) {
+      this.logger.log(`Ignoring already processed webhook ${event.id}`);
+      return { success: true };
+    }
+
+    try {
+      await this.handleEvent(event);
+    } catch (error) {
+      this.logger.error(`Error processing webhook: ${error.message}`, error.stack);
+
+      // Let the retried delivery be handled again
+      if (event.id) {
+        await this.prisma.liveKitWebhookEvent.delete({ where: { id: event.id } }).catch(() => {});
+      }
+      throw error;
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Delete processed event ids older than the retention window. LiveKit stops retrying
+   * a delivery long before, so they can no longer catch a duplicate. Run daily by the scheduler.
+   */
+  async purgeProcessedEvents(now: Date = new Date()) {
+    const retentionHours = this.configService.get<number>('livekit.webhookEventRetentionHours');
+    const cutoff = new Date(now.getTime() - retentionHours * HOUR_MS);
+
+    const { count } = await this.prisma.liveKitWebhookEvent.deleteMany({
+      where: { createdAt: { lt: cutoff } },
+    });
+
+    this.logger.log(
+      `LiveKit webhook events: ${count} purged (processed before ${cutoff.toISOString()})`,
+    );
+
+    return { purged: count };
+  }
+
+  private async verify(rawBody: Buffer | undefined, authHeader: string | undefined) {
+    if (!rawBody || !authHeader) {
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+
+    try {
+      return await this.receiver.receive(rawBody.toString('utf8'), authHeader);
+    } catch (error) {
+      this.logger.warn(`Rejected webhook: ${error.message}`);
+      throw new UnauthorizedException('Invalid webhook signature');
+    }
+  }
+
+  /**
+   * Record the event id. Returns false when it was recorded before.
+   */
+  private async markProcessed(event: WebhookEvent) {
+    try {
+      await this.prisma.liveKitWebhookEvent.create({
+        data: { id: event.id, event: event.event },
+      });
+      return true;
+    } catch (error) {
+      if (error.code === 'P2002') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  private async handleEvent(event: WebhookEvent) {
+    switch (event.event) {
+      case LiveKitWebhookEvent.PARTICIPANT_LEFT:
+        await this.handleParticipantLeft(event);
+        break;
+
+      case LiveKitWebhookEvent.ROOM_FINISHED:
+        await this.handleRoomFinished(event);
+        break;
+
+      case LiveKitWebhookEvent.PARTICIPANT_JOINED:
+        this.handleParticipantJoined(event);
+        break;
+
+      case LiveKitWebhookEvent.TRACK_PUBLISHED:
+        await this.handleTrackChanged(event, true);
+        break;
+
+      case LiveKitWebhookEvent.TRACK_UNPUBLISHED:
+        await this.handleTrackChanged(event, false);
+        break;
+
+      default:
+        this.logger.log(`Unhandled webhook event: ${event.event}`);
+    }
+  }
+
+  /**
+   * Handle participant left event
+   * Check if room is empty and close MATCH rooms
+   */
+  private async handleParticipantLeft(event: WebhookEvent) {
+    if (!event.room || !event.participant) return;
+
+    const livekitRoomName = event.room.name;
+    const participantIdentity = event.participant.identity;
+    const remainingParticipants = event.room.numParticipants || 0;
+    const occurredAt = this.getEventTime(event);
+    // Event times are whole seconds; a join earlier in the same second is not newer than the event
+    const joinedBy = new Date(occurredAt.getTime() + 1000);
+
+    this.logger.log(
+      `Participant ${participantIdentity} left room ${livekitRoomName}. Remaining: ${remainingParticipants}`,
+    );
+
+    const room = await this.prisma.room.findUnique({
+      where: { livekitRoomName },
+      include: {
+        members: {
+          where: {
+            status: { not: RoomMemberStatus.LEFT },
+          },
+        },
+      },
+    });
+
+    if (!room) {
+      this.logger.warn(`Room not found in database: ${livekitRoomName}`);
+      return;
+    }
+
+    // A delayed event must not remove a member who (re)joined after it happened
+    const { count: leftCount } = await this.prisma.roomMember.updateMany({
+      where: {
+        roomId: room.id,
+        userId: participantIdentity,
+        status: { not: RoomMemberStatus.LEFT },
+        joinedAt: { lte: joinedBy },
+      },
+      data: {
+        status: RoomMemberStatus.LEFT,
+        leftAt: new Date(),
+      },
+    });
+    await this.presenceService.recordLeave(room.id, participantIdentity, occurredAt, joinedBy);
+    if (leftCount > 0) {
+      this.matchmakingGateway.removeUserFromRoom(room.id, participantIdentity);
+    }
+
+    // Also when the member already left through the API, so camera time is not left running
+    await this.updateMediaState(room.id, participantIdentity, occurredAt, {
+      cameraOn: false,
+      micOn: false,
+      screenShareOn: false,
+    });
+
+    const joinedSince = room.members.some((member) => member.joinedAt > joinedBy);
+
+    // If room is empty and it's a MATCH room, close it
+    if (
+      remainingParticipants === 0 &&
+      room.type === RoomType.MATCH &&
+      room.status !== RoomStatus.CLOSED &&
+      !joinedSince
+    ) {
+      this.logger.log(`Closing empty MATCH room: ${livekitRoomName}`);
+
+      await this.prisma.room.update({
+        where: { id: room.id },
+        data: {
+          status: RoomStatus.CLOSED,
+          endedAt: new Date(),
+        },
+      });
+      await this.presenceService.closeRoom(room.id);
+
+      // Delete LiveKit room
+      try {
+        await this.livekitService.deleteRoom(livekitRoomName);
+        this.logger.log(`Deleted LiveKit room: ${livekitRoomName}`);
+      } catch (error) {
+        this.logger.error(`Failed to delete LiveKit room: ${error.message}`);
+      }
+    }
+
+    // PUBLIC rooms remain open even if empty
+  }
+
+  /**
+   * Handle room finished event
+   * Mark room as closed in database
+   */
+  private async handleRoomFinished(event: WebhookEvent) {
+    if (!event.room) return;
+
+    const livekitRoomName = event.room.name;
+    this.logger.log(`Room finished: ${livekitRoomName}`);
+
+    const room = await this.prisma.room.findUnique({
+      where: { livekitRoomName },
+    });
+
+    if (!room) {
+      this.logger.warn(`Room not found in database: ${livekitRoomName}`);
+      return;
+    }
+
+    if (room.status === RoomStatus.CLOSED) {
+      return;
+    }
+
+    await this.prisma.room.update({
+      where: { id: room.id },
+      data: {
+        status: RoomStatus.CLOSED,
+        endedAt: new Date(),
+      },
+    });
+    await this.presenceService.closeRoom(room.id);
+
+    this.logger.log(`Room ${livekitRoomName} marked as CLOSED`);
+  }
+
+  /**
+   * Handle participant joined event
+   * Can be used for analytics or future features like auto-converting MATCH to PUBLIC
+   */
+  private handleParticipantJoined(event: WebhookEvent) {
+    if (!event.room || !event.participant) return;
+
+    this.logger.log(
+      `Participant ${event.participant.identity} joined room ${event.room.name}. Total: ${event.room.numParticipants}`,
+    );
+
+    // Optional: Convert MATCH room to PUBLIC when threshold reached
+    // Uncomment below to enable this feature (and make this method async)
+    /*
+    const room = await this.prisma.room.findUnique({
+      where: { livekitRoomName: event.room.name },
+    });
+
+    if (room && room.type === RoomType.MATCH && room.visibility === 'PRIVATE') {
+      const participantCount = event.room.numParticipants;
+      const THRESHOLD = 4; // Convert to public when 4+ participants
+
+      if (participantCount >= THRESHOLD) {
+        await this.prisma.room.update({
+          where: { id: room.id },
+          data: { visibility: 'PUBLIC' },
+        });
+        this.logger.log(`Converted MATCH room ${event.room.name} to PUBLIC`);
+      }
+    }
+    */
+  }
+
+  /**
+   * Handle track published / unpublished events
+   * Keep the member's camera, microphone and screen share state
+   */
+  private async handleTrackChanged(event: WebhookEvent, published: boolean) {
+    if (!event.room || !event.participant || !event.track) return;
+
+    const field = TRACK_SOURCE_FIELDS[event.track.source];
+    if (!field) return;
+
+    const room = await this.prisma.room.findUnique({
+      where: { livekitRoomName: event.room.name },
+      select: { id: true },
+    });
+
+    if (!room) {
+      this.logger.warn(`Room not found in database: ${event.room.name}`);
+      return;
+    }
+
+    await this.updateMediaState(room.id, event.participant.identity, this.getEventTime(event), {
+      [field]: published,
+    });
+  }
+
+  private async updateMediaState(
+    roomId: string,
+    userId: string,
+    occurredAt: Date,
+    state: MediaState,
+  ) {
+    const member = await this.prisma.roomMember.findUnique({
+      where: { roomId_userId: { roomId, userId } },
+      select: {
+        id: true,
+        cameraOn: true,
+        cameraOnSince: true,
+        cameraUpdatedAt: true,
+        micUpdatedAt: true,
+        screenShareUpdatedAt: true,
+      },
+    });
+
+    if (!member) {
+      this.logger.warn(`Member ${userId} not found in room ${roomId}`);
+      return;
+    }
+
+    const data: Prisma.RoomMemberUpdateInput = {};
+
+    // A delayed event must not undo a newer state of the same source
+    for (const [field, on] of Object.entries(state) as [MediaField, boolean][]) {
+      const updatedAtField = MEDIA_UPDATED_AT_FIELDS[field];
+      const updatedAt = member[updatedAtField];
+
+      if (updatedAt && updatedAt > occurredAt) {
+        this.logger.log(`Ignoring stale ${field} event for member ${member.id}`);
+        continue;
+      }
+
+      data[field] = on;
+      data[updatedAtField] = occurredAt;
+    }
+
+    if (Object.keys(data).length === 0) {
+      return;
+    }
+
+    if (data.cameraOn === true && !member.cameraOn) {
+      data.cameraOnSince = occurredAt;
+    }
+
+    if (data.cameraOn === false && member.cameraOn) {
+      data.cameraOnSince = null;
+      data.cameraOnSeconds = {
+        increment: this.secondsBetween(member.cameraOnSince, occurredAt),
+      };
+    }
+
+    await this.prisma.roomMember.update({ where: { id: member.id }, data });
+  }
+
+  /**
+   * When LiveKit emitted the event, in whole seconds
+   */
+  private getEventTime(event: WebhookEvent) {
+    return event.createdAt ? new Date(Number(event.createdAt) * 1000) : new Date();
+  }
+
+  private secondsBetween(from: Date | null, to: Date) {
+    return from ? Math.max(Math.round((to.getTime() - from.getTime()) / 1000), 0) : 0;
+  }
+}
@@ -1,10 +1,33 @@
-import { Module } from '@nestjs/common';
+import { Logger, Module, OnModuleInit } from '@nestjs/common';
+import { BullModule, InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
 import { LiveKitController } from './livekit.controller';
+import { LiveKitWebhookService } from './livekit-webhook.service';
+import { LiveKitWebhookProcessor } from './livekit-webhook.processor';
 import { LiveKitService } from '@/common/services/livekit.service';
 import { PrismaService } from '@/database/prisma.service';
+import { PresenceModule } from '../presence/presence.module';
+import { MatchmakingModule } from '../matchmaking/matchmaking.module';
 
 @Module({
+  imports: [
+    BullModule.registerQueue({ name: 'livekit-webhook' }),
+    PresenceModule,
+    MatchmakingModule,
+  ],
   controllers: [LiveKitController],
-  providers: [LiveKitService, PrismaService],
+  providers: [LiveKitWebhookService, LiveKitWebhookProcessor, LiveKitService, PrismaService],
 })
-export class LiveKitModule {}
+export class LiveKitModule implements OnModuleInit {
+  private readonly logger = new Logger(LiveKitModule.name);
+
+  constructor(@InjectQueue('livekit-webhook') private livekitWebhookQueue: Queue) {}
+
+  onModuleInit() {
+    this.livekitWebhookQueue
+      .add('purge', {}, { repeat: { cron: '45 3 * * *' }, jobId: 'livekit-webhook-event-purge' })
+      .catch((error) => {
+        this.logger.error(`Failed to schedule LiveKit webhook event purge: ${error.message}`);
+      });
+  }
+}
@@ -12,6 +12,7 @@ import { Logger, Inject, forwardRef } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
 import { MatchmakingService } from './matchmaking.service';
+import { RoomMessagesService } from '../rooms/room-messages.service';
 
 @WebSocketGateway({
   namespace: '/matchmaking',
@@ -27,6 +28,8 @@ export class MatchmakingGateway implements OnGatewayConnection, OnGatewayDisconn
     private configService: ConfigService,
     @Inject(forwardRef(() => MatchmakingService))
     private matchmakingService: MatchmakingService,
+    @Inject(forwardRef(() => RoomMessagesService))
+    private roomMessagesService: RoomMessagesService,
   ) {}
 
   async handleConnection(client: Socket) {
@@ -90,7 +93,11 @@ export class MatchmakingGateway implements OnGatewayConnection, OnGatewayDisconn
 
     const { roomId } = data;
 
-    // TODO: Query database to verify user is member of this room
+    // The room channel carries chat and task updates, so only current members may listen
+    if (!roomId || !(await this.roomMessagesService.isCurrentMember(roomId, userId))) {
+      client.emit('error', { message: 'You are not a member of this room' });
+      return { success: false, message: 'You are not a member of this room' };
+    }
 
     await client.join(`room:${roomId}`);
 
@@ -127,10 +134,43 @@ export class MatchmakingGateway implements OnGatewayConnection, OnGatewayDisconn
     return { success: false, message: 'Use REST API endpoint' };
   }
 
+  @SubscribeMessage('room_message')
+  async handleRoomMessage(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { roomId: string; content: string },
+  ) {
+    const userId = client.data.userId;
+
+    if (!userId) {
+      client.emit('error', { message: 'Not authenticated' });
+      return;
+    }
+
+    if (!data?.roomId) {
+      return { success: false, message: 'roomId is required' };
+    }
+
+    try {
+      // The service broadcasts it to the room, the sender included
+      const message = await this.roomMessagesService.send(data.roomId, userId, data.content);
+      return { success: true, data: message };
+    } catch (error) {
+      client.emit('error', { message: error.message });
+      return { success: false, message: error.message };
+    }
+  }
+
   broadcastToRoom(roomId: string, event: string, data: any) {
     this.server.to(`room:${roomId}`).emit(event, data);
   }
 
+  /**
+   * Stop a member who left from receiving the room's chat and updates, on every instance
+   */
+  removeUserFromRoom(roomId: string, userId: string) {
+    this.server.in(`user:${userId}`).socketsLeave(`room:${roomId}`);
+  }
+
   sendToUser(userId: string, event: string, data: any) {
     this.server.to(`user:${userId}`).emit(event, data);
     this.logger.debug(`Sent '${event}' event to user ${userId}`);
@@ -8,6 +8,7 @@ import { MatchmakingGateway } from './matchmaking.gateway';
 import { PrismaService } from '@/database/prisma.service';
 import { LiveKitService } from '@/common/services/livekit.service';
 import { RoomsModule } from '../rooms/rooms.module';
+import { PresenceModule } from '../presence/presence.module';
 
 /**
  * Matchmaking Module
@@ -16,6 +17,7 @@ import { RoomsModule } from '../rooms/rooms.module';
 @Module({
   imports: [
     forwardRef(() => RoomsModule),
+    PresenceModule,
     JwtModule.registerAsync({
       imports: [ConfigModule],
       useFactory: async (configService: ConfigService) => ({
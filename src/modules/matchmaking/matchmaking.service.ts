@@ -5,6 +5,7 @@ import { RoomsService } from '../rooms/rooms.service';
 import { MatchmakingRedisService } from './matchmaking-redis.service';
 import { MatchmakingGateway } from './matchmaking.gateway';
 import { LiveKitService } from '@/common/services/livekit.service';
+import { PresenceService } from '../presence/presence.service';
 
 @Injectable()
 export class MatchmakingService {
@@ -43,6 +44,7 @@ export class MatchmakingService {
     private redisService: MatchmakingRedisService,
     private livekitService: LiveKitService,
     private configService: ConfigService,
+    private presenceService: PresenceService,
     @Inject(forwardRef(() => MatchmakingGateway))
     private gateway: MatchmakingGateway,
   ) {
@@ -162,6 +164,7 @@ export class MatchmakingService {
           status: 'JOINED',
         },
       });
+      await this.presenceService.recordJoin(availableRoom.id, userId);
 
       await this.prisma.user.update({
         where: { id: userId },
@@ -260,6 +263,10 @@ export class MatchmakingService {
         },
       });
 
+      for (const userId of userIds) {
+        await this.presenceService.recordJoin(room.id, userId);
+      }
+
       await this.prisma.user.updateMany({
         where: { id: { in: userIds } },
         data: { status: 'IN_ROOM' },
@@ -6,9 +6,13 @@ import { SmsChannel } from './channels/sms.channel';
 import { PushChannel } from './channels/push.channel';
 import { WebsocketChannel } from './channels/websocket.channel';
 
+export type NotificationChannelType = 'email' | 'sms' | 'push' | 'websocket';
+
+const CHANNEL_TYPES: NotificationChannelType[] = ['email', 'sms', 'push', 'websocket'];
+
 export interface SendNotificationOptions {
   userId: string;
-  type: 'email' | 'sms' | 'push' | 'websocket' | 'all';
+  type: NotificationChannelType | 'all';
   title: string;
   message: string;
   data?: Record<string, any>;
@@ -48,35 +52,66 @@ export class NotificationsService {
         this.websocketChannel.send(options.userId, options.title, options.message, options.data),
       ]);
     } else {
-      switch (options.type) {
-        case 'email':
-          await this.emailChannel.send(
-            options.userId,
-            options.title,
-            options.message,
-            options.data,
-          );
-          break;
-        case 'sms':
-          await this.smsChannel.send(options.userId, options.title, options.message, options.data);
-          break;
-        case 'push':
-          await this.pushChannel.send(options.userId, options.title, options.message, options.data);
-          break;
-        case 'websocket':
-          await this.websocketChannel.send(
-            options.userId,
-            options.title,
-            options.message,
-            options.data,
-          );
-          break;
-      }
+      await this.sendViaChannel(
+        options.type,
+        options.userId,
+        options.title,
+        options.message,
+        options.data,
+      );
     }
 
     this.logger.log(`Notification sent to user ${options.userId}`);
   }
 
+  /**
+   * Send on every channel the user has chosen in their settings.
+   * The notification is stored once, whatever the number of channels.
+   */
+  async sendToPreferredChannels(
+    options: Omit<SendNotificationOptions, 'type'>,
+  ): Promise<NotificationChannelType[]> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: options.userId },
+      select: { notificationChannels: true },
+    });
+
+    const channels = (user?.notificationChannels || []).filter(
+      (channel): channel is NotificationChannelType => CHANNEL_TYPES.includes(channel as any),
+    );
+
+    if (channels.length === 0) {
+      return channels;
+    }
+
+    await this.prisma.notification.create({
+      data: {
+        userId: options.userId,
+        type: channels[0],
+        title: options.title,
+        message: options.message,
+        data: options.data || {},
+        read: false,
+      },
+    });
+
+    const results = await Promise.allSettled(
+      channels.map((channel) =>
+        this.sendViaChannel(channel, options.userId, options.title, options.message, options.data),
+      ),
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        this.logger.error(
+          `Failed to send ${channels[index]} notification to user ${options.userId}: ${result.reason?.message}`,
+        );
+      }
+    });
+
+    return channels;
+  }
+
   async sendNotificationAsync(options: SendNotificationOptions): Promise<void> {
     await this.notificationQueue.sendNotification({
       userId: options.userId,
@@ -120,4 +155,27 @@ export class NotificationsService {
       },
     });
   }
+
+  private async sendViaChannel(
+    type: NotificationChannelType,
+    userId: string,
+    title: string,
+    message: string,
+    data?: Record<string, any>,
+  ): Promise<void> {
+    switch (type) {
+      case 'email':
+        await this.emailChannel.send(userId, title, message, data);
+        break;
+      case 'sms':
+        await this.smsChannel.send(userId, title, message, data);
+        break;
+      case 'push':
+        await this.pushChannel.send(userId, title, message, data);
+        break;
+      case 'websocket':
+        await this.websocketChannel.send(userId, title, message, data);
+        break;
+    }
+  }
 }
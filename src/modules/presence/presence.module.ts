@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { PresenceService } from './presence.service';
+import { PrismaService } from '@/database/prisma.service';
+
+@Module({
+  providers: [PresenceService, PrismaService],
+  exports: [PresenceService],
+})
+export class PresenceModule {}
@@ -0,0 +1,125 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { PresenceService } from './presence.service';
+import { PrismaService } from '@/database/prisma.service';
+
+describe('PresenceService', () => {
+  let service: PresenceService;
+  let mockPrismaService: any;
+
+  const at = (time: string) => new Date(`2025-12-22T${time}:00.000Z`);
+  const now = at('12:00');
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      roomVisit: {
+        findMany: jest.fn().mockResolvedValue([]),
+        createMany: jest.fn(),
+        updateMany: jest.fn(),
+      },
+      $queryRaw: jest.fn().mockResolvedValue([]),
+      user: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [PresenceService, { provide: PrismaService, useValue: mockPrismaService }],
+    }).compile();
+
+    service = module.get<PresenceService>(PresenceService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordJoin', () => {
+    it('should open a visit unless one is already open', async () => {
+      await service.recordJoin('room-1', 'user-1', now);
+
+      expect(mockPrismaService.roomVisit.createMany).toHaveBeenCalledWith({
+        data: [{ roomId: 'room-1', userId: 'user-1', joinedAt: now, openKey: 'room-1:user-1' }],
+        skipDuplicates: true,
+      });
+    });
+  });
+
+  describe('recordLeave', () => {
+    it('should close the open visit started before the leave', async () => {
+      await service.recordLeave('room-1', 'user-1', now);
+
+      expect(mockPrismaService.roomVisit.updateMany).toHaveBeenCalledWith({
+        where: { roomId: 'room-1', userId: 'user-1', leftAt: null, joinedAt: { lte: now } },
+        data: { leftAt: now, openKey: null },
+      });
+    });
+
+    it('should close the visit at the leave time while matching joins up to joinedBy', async () => {
+      await service.recordLeave('room-1', 'user-1', now, at('12:01'));
+
+      expect(mockPrismaService.roomVisit.updateMany).toHaveBeenCalledWith({
+        where: { roomId: 'room-1', userId: 'user-1', leftAt: null, joinedAt: { lte: at('12:01') } },
+        data: { leftAt: now, openKey: null },
+      });
+    });
+  });
+
+  describe('getStudyBuddies', () => {
+    it('should return the buddies ranked by the database with their profile', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValue([
+        { userId: 'user-2', totalSeconds: 75 * 60, sharedRooms: 2, lastStudiedAt: now },
+        { userId: 'user-3', totalSeconds: 5 * 60, sharedRooms: 1, lastStudiedAt: at('11:50') },
+      ]);
+      mockPrismaService.user.findMany.mockResolvedValue([
+        { id: 'user-3', firstName: 'Chi' },
+        { id: 'user-2', firstName: 'Binh' },
+      ]);
+
+      const result = await service.getStudyBuddies('user-1', 10, now);
+
+      expect(mockPrismaService.user.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: { in: ['user-2', 'user-3'] }, deletedAt: null } }),
+      );
+      expect(result).toEqual([
+        {
+          user: { id: 'user-2', firstName: 'Binh' },
+          totalSeconds: 75 * 60,
+          sharedRooms: 2,
+          lastStudiedAt: now,
+        },
+        {
+          user: { id: 'user-3', firstName: 'Chi' },
+          totalSeconds: 5 * 60,
+          sharedRooms: 1,
+          lastStudiedAt: at('11:50'),
+        },
+      ]);
+    });
+
+    it('should return nothing for users without buddies', async () => {
+      await expect(service.getStudyBuddies('user-1')).resolves.toEqual([]);
+      expect(mockPrismaService.user.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getRoomStudyTime', () => {
+    it('should sum every visit per member', async () => {
+      mockPrismaService.roomVisit.findMany.mockResolvedValue([
+        { userId: 'user-1', joinedAt: at('08:00'), leftAt: at('09:00') },
+        { userId: 'user-2', joinedAt: at('08:30'), leftAt: at('09:00') },
+        { userId: 'user-1', joinedAt: at('11:00'), leftAt: null },
+      ]);
+
+      const result = await service.getRoomStudyTime('room-1', now);
+
+      expect(result).toEqual({
+        roomId: 'room-1',
+        totalSeconds: 150 * 60,
+        members: [
+          { userId: 'user-1', totalSeconds: 120 * 60 },
+          { userId: 'user-2', totalSeconds: 30 * 60 },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+
+const DEFAULT_BUDDY_LIMIT = 10;
+
+interface StudyBuddyRow {
+  userId: string;
+  totalSeconds: number;
+  sharedRooms: number;
+  lastStudiedAt: Date;
+}
+
+interface VisitSpan {
+  joinedAt: Date;
+  leftAt: Date | null;
+}
+
+@Injectable()
+export class PresenceService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Open a visit when a user enters a room. Nothing happens if one is already open.
+   */
+  async recordJoin(roomId: string, userId: string, at: Date = new Date(), tx?: any) {
+    const prisma = tx || this.prisma;
+
+    // The unique open key skips the insert when a concurrent join already opened the visit
+    await prisma.roomVisit.createMany({
+      data: [{ roomId, userId, joinedAt: at, openKey: this.openKey(roomId, userId) }],
+      skipDuplicates: true,
+    });
+  }
+
+  /**
+   * Close the user's open visit at `at`. A visit opened after `joinedBy` is kept open.
+   */
+  async recordLeave(
+    roomId: string,
+    userId: string,
+    at: Date = new Date(),
+    joinedBy: Date = at,
+    tx?: any,
+  ) {
+    const prisma = tx || this.prisma;
+
+    await prisma.roomVisit.updateMany({
+      where: { roomId, userId, leftAt: null, joinedAt: { lte: joinedBy } },
+      data: { leftAt: at, openKey: null },
+    });
+  }
+
+  /**
+   * Close every open visit of a room that ended
+   */
+  async closeRoom(roomId: string, at: Date = new Date(), tx?: any) {
+    const prisma = tx || this.prisma;
+
+    await prisma.roomVisit.updateMany({
+      where: { roomId, leftAt: null },
+      data: { leftAt: at, openKey: null },
+    });
+  }
+
+  /**
+   * Users the given user was in rooms with, by the time they spent there at the same time
+   */
+  async getStudyBuddies(userId: string, limit = DEFAULT_BUDDY_LIMIT, now: Date = new Date()) {
+    // Visit times are stored as UTC timestamps without a zone
+    const until = Prisma.sql`(${now}::timestamptz AT TIME ZONE 'UTC')`;
+    const overlapEnd = Prisma.sql`LEAST(COALESCE(own."leftAt", ${until}), COALESCE(other."leftAt", ${until}))`;
+
+    const buddies = await this.prisma.$queryRaw<StudyBuddyRow[]>`
+      SELECT other."userId",
+             FLOOR(SUM(EXTRACT(EPOCH FROM ${overlapEnd} - GREATEST(own."joinedAt", other."joinedAt"))))::int AS "totalSeconds",
+             COUNT(DISTINCT other."roomId")::int AS "sharedRooms",
+             MAX(${overlapEnd}) AS "lastStudiedAt"
+      FROM room_visits own
+      JOIN room_visits other
+        ON other."roomId" = own."roomId"
+       AND other."userId" <> own."userId"
+       AND other."joinedAt" < COALESCE(own."leftAt", ${until})
+       AND own."joinedAt" < COALESCE(other."leftAt", ${until})
+      JOIN users buddy ON buddy.id = other."userId" AND buddy."deletedAt" IS NULL
+      WHERE own."userId" = ${userId}
+      GROUP BY other."userId"
+      ORDER BY "totalSeconds" DESC
+      LIMIT ${limit}
+    `;
+
+    if (buddies.length === 0) {
+      return [];
+    }
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: buddies.map((buddy) => buddy.userId) }, deletedAt: null },
+      select: { id: true, firstName: true, lastName: true, avatar: true },
+    });
+    const usersById = new Map(users.map((user) => [user.id, user]));
+
+    return buddies
+      .filter((buddy) => usersById.has(buddy.userId))
+      .map((buddy) => ({
+        user: usersById.get(buddy.userId),
+        totalSeconds: buddy.totalSeconds,
+        sharedRooms: buddy.sharedRooms,
+        lastStudiedAt: buddy.lastStudiedAt,
+      }));
+  }
+
+  /**
+   * Time spent in a room by each member over all their visits, and in total
+   */
+  async getRoomStudyTime(roomId: string, now: Date = new Date()) {
+    const visits = await this.prisma.roomVisit.findMany({
+      where: { roomId },
+      select: { userId: true, joinedAt: true, leftAt: true },
+    });
+
+    const msByUser = new Map<string, number>();
+    for (const visit of visits) {
+      const ms = Math.max(this.endOf(visit, now) - visit.joinedAt.getTime(), 0);
+      msByUser.set(visit.userId, (msByUser.get(visit.userId) ?? 0) + ms);
+    }
+
+    const members = [...msByUser.entries()]
+      .map(([userId, ms]) => ({ userId, totalSeconds: Math.floor(ms / 1000) }))
+      .sort((a, b) => b.totalSeconds - a.totalSeconds);
+
+    return {
+      roomId,
+      totalSeconds: members.reduce((sum, member) => sum + member.totalSeconds, 0),
+      members,
+    };
+  }
+
+  private openKey(roomId: string, userId: string) {
+    return `${roomId}:${userId}`;
+  }
+
+  private endOf(visit: VisitSpan, now: Date) {
+    return (visit.leftAt ?? now).getTime();
+  }
+}
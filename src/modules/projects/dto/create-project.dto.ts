@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsOptional, Matches, MaxLength } from 'class-validator';
+
+export class CreateProjectDto {
+  @ApiProperty({ example: 'IELTS preparation' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 'Everything for the June exam', required: false })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  description?: string;
+
+  @ApiProperty({ example: '#2196F3', required: false, description: 'Hex colour' })
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: 'color must be a hex colour like #2196F3' })
+  color?: string;
+}
@@ -0,0 +1,114 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ProjectsService } from './projects.service';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+
+@ApiTags('projects')
+@ApiBearerAuth()
+@Controller('projects')
+@UseGuards(JwtAuthGuard)
+export class ProjectsController {
+  constructor(private readonly projectsService: ProjectsService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Create a project' })
+  @ApiResponse({ status: 201, description: 'Project created successfully' })
+  @ApiResponse({ status: 409, description: 'A project with this name already exists' })
+  create(@Body() createProjectDto: CreateProjectDto, @CurrentUser() user: any) {
+    return this.projectsService.create(createProjectDto, user.id);
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'Get all projects of the current user' })
+  @ApiResponse({
+    status: 200,
+    description: 'Projects retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: [
+          {
+            id: 'project-id',
+            name: 'IELTS preparation',
+            description: 'Everything for the June exam',
+            color: '#2196F3',
+            _count: { tasks: 12 },
+          },
+        ],
+      },
+    },
+  })
+  findAll(@CurrentUser() user: any) {
+    return this.projectsService.findAll(user.id);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get a project with task statistics' })
+  @ApiResponse({
+    status: 200,
+    description: 'Project retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          id: 'project-id',
+          name: 'IELTS preparation',
+          stats: {
+            totalTasks: 12,
+            completedTasks: 5,
+            completionRate: 41.67,
+            totalTimeSpent: 54000,
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  findOne(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.projectsService.findOne(id, user.id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update a project' })
+  @ApiResponse({ status: 200, description: 'Project updated successfully' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 409, description: 'A project with this name already exists' })
+  update(
+    @Param('id') id: string,
+    @Body() updateProjectDto: UpdateProjectDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.projectsService.update(id, updateProjectDto, user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a project (tasks are kept)' })
+  @ApiResponse({ status: 200, description: 'Project deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Project not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  remove(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.projectsService.remove(id, user.id);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { ProjectsService } from './projects.service';
+import { ProjectsController } from './projects.controller';
+import { PrismaService } from '@/database/prisma.service';
+
+@Module({
+  controllers: [ProjectsController],
+  providers: [ProjectsService, PrismaService],
+  exports: [ProjectsService],
+})
+export class ProjectsModule {}
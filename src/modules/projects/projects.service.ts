@@ -0,0 +1,141 @@
+import {
+  Injectable,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+} from '@nestjs/common';
+import { TaskStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+
+const PROJECT_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  color: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+@Injectable()
+export class ProjectsService {
+  constructor(private prisma: PrismaService) {}
+
+  async create(createProjectDto: CreateProjectDto, userId: string) {
+    await this.assertNameAvailable(createProjectDto.name, userId);
+
+    return this.prisma.project.create({
+      data: {
+        name: createProjectDto.name,
+        description: createProjectDto.description,
+        color: createProjectDto.color,
+        userId,
+      },
+      select: PROJECT_SELECT,
+    });
+  }
+
+  async findAll(userId: string) {
+    return this.prisma.project.findMany({
+      where: { userId },
+      select: {
+        ...PROJECT_SELECT,
+        _count: { select: { tasks: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Project with a summary of its tasks
+   */
+  async findOne(id: string, userId: string) {
+    const project = await this.findOwned(id, userId);
+
+    const [byStatus, time] = await Promise.all([
+      this.prisma.task.groupBy({
+        by: ['status'],
+        where: { projectId: id, isRecurringTemplate: false },
+        _count: { _all: true },
+      }),
+      this.prisma.task.aggregate({
+        where: { projectId: id, isRecurringTemplate: false },
+        _sum: { totalTimeSpent: true },
+      }),
+    ]);
+
+    const total = byStatus.reduce((sum, group) => sum + group._count._all, 0);
+    const done = byStatus.find((group) => group.status === TaskStatus.DONE)?._count._all || 0;
+
+    return {
+      ...project,
+      stats: {
+        totalTasks: total,
+        completedTasks: done,
+        completionRate: total > 0 ? Math.round((done / total) * 10000) / 100 : 0,
+        totalTimeSpent: time._sum.totalTimeSpent || 0,
+      },
+    };
+  }
+
+  async update(id: string, updateProjectDto: UpdateProjectDto, userId: string) {
+    const project = await this.findOwned(id, userId);
+
+    if (updateProjectDto.name !== undefined && updateProjectDto.name !== project.name) {
+      await this.assertNameAvailable(updateProjectDto.name, userId);
+    }
+
+    return this.prisma.project.update({
+      where: { id },
+      data: {
+        name: updateProjectDto.name,
+        description: updateProjectDto.description,
+        color: updateProjectDto.color,
+      },
+      select: PROJECT_SELECT,
+    });
+  }
+
+  /**
+   * Delete a project. Its tasks are kept without a project.
+   */
+  async remove(id: string, userId: string) {
+    await this.findOwned(id, userId);
+
+    await this.prisma.project.delete({
+      where: { id },
+    });
+
+    return { message: 'Project deleted successfully' };
+  }
+
+  private async findOwned(id: string, userId: string) {
+    const project = await this.prisma.project.findUnique({
+      where: { id },
+      select: PROJECT_SELECT,
+    });
+
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    if (project.userId !== userId) {
+      throw new ForbiddenException('You do not have permission to access this project');
+    }
+
+    return project;
+  }
+
+  private async assertNameAvailable(name: string, userId: string) {
+    const existing = await this.prisma.project.findUnique({
+      where: { userId_name: { userId, name } },
+      select: { id: true },
+    });
+
+    if (existing) {
+      throw new ConflictException('A project with this name already exists');
+    }
+  }
+}
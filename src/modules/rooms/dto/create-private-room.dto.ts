@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+
+export class CreatePrivateRoomDto {
+  @ApiProperty({ example: 4, minimum: 2, maximum: 20, description: 'Members the room can hold' })
+  @IsInt()
+  @Min(2)
+  @Max(20)
+  maxMembers: number;
+
+  @ApiProperty({ example: 'Final exam prep', required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  topic?: string;
+}
@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class CreateRoomInviteDto {
+  @ApiProperty({
+    example: '2025-12-31T23:59:59.000Z',
+    required: false,
+    description: 'The code stops working after this time. Never expires when omitted.',
+  })
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string;
+
+  @ApiProperty({
+    example: 5,
+    required: false,
+    minimum: 1,
+    maximum: 1000,
+    description: 'Number of members who can join with the code. Unlimited when omitted.',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  maxUses?: number;
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsNotEmpty, IsNumber, IsString, MaxLength, Min } from 'class-validator';
+
+export class CreateRoomTaskDto {
+  @ApiProperty({ example: 'Solve chapter 3 exercises' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ example: 2, description: 'Estimated hours to complete the task' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  estimateHours: number;
+
+  @ApiProperty({ example: '2025-12-30', description: 'Task deadline date' })
+  @IsDateString()
+  @IsNotEmpty()
+  deadline: string;
+}
@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsInt, IsNotEmpty, IsOptional, IsString, Max, MaxLength, Min } from 'class-validator';
+
+export const ROOM_MESSAGE_MAX_LENGTH = 2000;
+
+export class UpdateRoomMessageDto {
+  @ApiProperty({ example: 'Anyone up for a 25 minute sprint?' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(ROOM_MESSAGE_MAX_LENGTH)
+  content: string;
+}
+
+export class QueryRoomMessagesDto {
+  @ApiProperty({ required: false, default: 1, minimum: 1 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiProperty({ required: false, default: 50, minimum: 1, maximum: 100 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number = 50;
+}
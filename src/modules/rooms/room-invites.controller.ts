@@ -0,0 +1,117 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { RoomInvitesService } from './room-invites.service';
+import { CreateRoomInviteDto } from './dto/create-room-invite.dto';
+import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+
+const ROOM_INVITE_EXAMPLE = {
+  id: 'invite-uuid',
+  code: 'K7QX2MPA',
+  link: 'https://app.example.com/rooms/join/K7QX2MPA',
+  expiresAt: '2025-12-31T23:59:59.000Z',
+  maxUses: 5,
+  uses: 2,
+  revokedAt: null,
+  active: true,
+  createdAt: '2025-12-22T10:00:00.000Z',
+};
+
+@ApiTags('rooms')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('rooms/:roomId/invites')
+export class RoomInvitesController {
+  constructor(private readonly roomInvitesService: RoomInvitesService) {}
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Get the invites of a private room (owner only)' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invites retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: [ROOM_INVITE_EXAMPLE],
+        traceId: 'abc123',
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Room not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not the room owner' })
+  findAll(@Param('roomId') roomId: string, @CurrentUser() user: any) {
+    return this.roomInvitesService.findAll(roomId, user.id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create an invite code (owner only)',
+    description: 'Optionally limited by an expiry time and a number of uses.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Invite created successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: { ...ROOM_INVITE_EXAMPLE, uses: 0 },
+        traceId: 'create123',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Validation error or room closed' })
+  @ApiResponse({ status: 404, description: 'Room not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not the room owner' })
+  create(
+    @Param('roomId') roomId: string,
+    @Body() createRoomInviteDto: CreateRoomInviteDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.roomInvitesService.create(roomId, createRoomInviteDto, user.id);
+  }
+
+  @Delete(':inviteId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revoke an invite code (owner only)',
+    description: 'Members who already joined with it stay in the room.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Invite revoked successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: { ...ROOM_INVITE_EXAMPLE, revokedAt: '2025-12-23T08:00:00.000Z', active: false },
+        traceId: 'revoke123',
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Room or invite not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not the room owner' })
+  revoke(
+    @Param('roomId') roomId: string,
+    @Param('inviteId') inviteId: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.roomInvitesService.revoke(roomId, inviteId, user.id);
+  }
+}
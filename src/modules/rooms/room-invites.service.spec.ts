@@ -0,0 +1,192 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RoomInvite, RoomStatus } from '@prisma/client';
+import { RoomInvitesService } from './room-invites.service';
+import { PrismaService } from '@/database/prisma.service';
+
+describe('RoomInvitesService', () => {
+  let service: RoomInvitesService;
+  let mockPrismaService: any;
+
+  const config: Record<string, any> = {
+    'roomInvite.linkBaseUrl': 'https://app.example.com/rooms/join',
+  };
+
+  const now = new Date('2025-12-22T10:00:00.000Z');
+
+  const invite = (overrides: Partial<RoomInvite> = {}) => ({
+    id: 'invite-id',
+    roomId: 'room-id',
+    code: 'K7QX2MPA',
+    createdById: 'owner-id',
+    expiresAt: null,
+    maxUses: null,
+    uses: 0,
+    revokedAt: null,
+    createdAt: now,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      room: {
+        findUnique: jest.fn().mockResolvedValue({ ownerId: 'owner-id', status: RoomStatus.ACTIVE }),
+      },
+      roomInvite: {
+        fields: { maxUses: 'maxUses-field' },
+        create: jest.fn().mockImplementation(({ data }) => Promise.resolve(invite(data))),
+        findMany: jest.fn().mockResolvedValue([invite()]),
+        findFirst: jest.fn().mockResolvedValue(invite()),
+        findUnique: jest.fn().mockResolvedValue(invite()),
+        update: jest.fn().mockImplementation(({ data }) => Promise.resolve(invite(data))),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomInvitesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => config[key]) } },
+      ],
+    }).compile();
+
+    service = module.get<RoomInvitesService>(RoomInvitesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('create', () => {
+    it('should create a short readable code with the given limits', async () => {
+      const result = await service.create(
+        'room-id',
+        { expiresAt: '2099-01-01T00:00:00.000Z', maxUses: 5 },
+        'owner-id',
+      );
+
+      const { data } = mockPrismaService.roomInvite.create.mock.calls[0][0];
+      expect(data.code).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+      expect(data).toEqual(
+        expect.objectContaining({
+          roomId: 'room-id',
+          createdById: 'owner-id',
+          expiresAt: new Date('2099-01-01T00:00:00.000Z'),
+          maxUses: 5,
+        }),
+      );
+      expect(result.link).toBe(`https://app.example.com/rooms/join/${data.code}`);
+      expect(result.active).toBe(true);
+    });
+
+    it('should retry with another code when the code is taken', async () => {
+      mockPrismaService.roomInvite.create.mockRejectedValueOnce({ code: 'P2002' });
+
+      await service.create('room-id', {}, 'owner-id');
+
+      expect(mockPrismaService.roomInvite.create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should only let the owner create invites', async () => {
+      await expect(service.create('room-id', {}, 'member-id')).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject an expiry in the past', async () => {
+      await expect(
+        service.create('room-id', { expiresAt: '2020-01-01T00:00:00.000Z' }, 'owner-id'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('withFreshCode', () => {
+    it('should run the creation again while the code is taken', async () => {
+      const create = jest
+        .fn()
+        .mockRejectedValueOnce({ code: 'P2002' })
+        .mockResolvedValueOnce({ id: 'invite-id' });
+
+      await expect(service.withFreshCode(create)).resolves.toEqual({ id: 'invite-id' });
+      expect(create).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up after a few taken codes', async () => {
+      const create = jest.fn().mockRejectedValue({ code: 'P2002' });
+
+      await expect(service.withFreshCode(create)).rejects.toEqual({ code: 'P2002' });
+      expect(create).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry other errors', async () => {
+      const create = jest.fn().mockRejectedValue(new Error('boom'));
+
+      await expect(service.withFreshCode(create)).rejects.toThrow('boom');
+      expect(create).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('revoke', () => {
+    it('should mark the invite as revoked', async () => {
+      const result = await service.revoke('room-id', 'invite-id', 'owner-id');
+
+      expect(mockPrismaService.roomInvite.update).toHaveBeenCalledWith({
+        where: { id: 'invite-id' },
+        data: { revokedAt: expect.any(Date) },
+      });
+      expect(result.active).toBe(false);
+    });
+
+    it('should reject invites of another room', async () => {
+      mockPrismaService.roomInvite.findFirst.mockResolvedValue(null);
+
+      await expect(service.revoke('room-id', 'invite-id', 'owner-id')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('findUsable', () => {
+    it('should accept codes in any case', async () => {
+      await service.findUsable(' k7qx2mpa ', now);
+
+      expect(mockPrismaService.roomInvite.findUnique).toHaveBeenCalledWith({
+        where: { code: 'K7QX2MPA' },
+      });
+    });
+
+    it.each([
+      ['revoked', { revokedAt: now }],
+      ['expired', { expiresAt: new Date('2025-12-22T09:59:59.000Z') }],
+      ['used up', { maxUses: 3, uses: 3 }],
+    ])('should reject %s codes', async (_label, overrides) => {
+      mockPrismaService.roomInvite.findUnique.mockResolvedValue(invite(overrides));
+
+      await expect(service.findUsable('K7QX2MPA', now)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('consume', () => {
+    it('should count a use only while the invite is still usable', async () => {
+      await expect(service.consume('invite-id', now)).resolves.toBe(true);
+
+      expect(mockPrismaService.roomInvite.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: 'invite-id',
+          revokedAt: null,
+          AND: [
+            { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+            { OR: [{ maxUses: null }, { uses: { lt: 'maxUses-field' } }] },
+          ],
+        },
+        data: { uses: { increment: 1 } },
+      });
+    });
+
+    it('should report an invite that ran out meanwhile', async () => {
+      mockPrismaService.roomInvite.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(service.consume('invite-id', now)).resolves.toBe(false);
+    });
+  });
+});
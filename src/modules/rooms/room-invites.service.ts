@@ -0,0 +1,200 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RoomInvite, RoomStatus } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '@/database/prisma.service';
+import { CreateRoomInviteDto } from './dto/create-room-invite.dto';
+
+// No 0/O or 1/I, so codes can be read out and typed
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const INVITE_CODE_LENGTH = 8;
+const MAX_CODE_ATTEMPTS = 3;
+
+@Injectable()
+export class RoomInvitesService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
+
+  async create(roomId: string, createRoomInviteDto: CreateRoomInviteDto, userId: string) {
+    await this.assertOwner(roomId, userId);
+
+    if (
+      createRoomInviteDto.expiresAt &&
+      new Date(createRoomInviteDto.expiresAt).getTime() <= Date.now()
+    ) {
+      throw new BadRequestException('Expiry must be in the future');
+    }
+
+    return this.withFreshCode(() => this.createInvite(roomId, userId, createRoomInviteDto));
+  }
+
+  async findAll(roomId: string, userId: string) {
+    await this.assertOwner(roomId, userId);
+
+    const invites = await this.prisma.roomInvite.findMany({
+      where: { roomId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return invites.map((invite) => this.toView(invite));
+  }
+
+  /**
+   * Stop a code from being used. Members who already joined with it stay.
+   */
+  async revoke(roomId: string, inviteId: string, userId: string) {
+    await this.assertOwner(roomId, userId);
+
+    const invite = await this.prisma.roomInvite.findFirst({
+      where: { id: inviteId, roomId },
+    });
+
+    if (!invite) {
+      throw new NotFoundException('Invite not found');
+    }
+
+    if (invite.revokedAt) {
+      return this.toView(invite);
+    }
+
+    const revoked = await this.prisma.roomInvite.update({
+      where: { id: inviteId },
+      data: { revokedAt: new Date() },
+    });
+
+    return this.toView(revoked);
+  }
+
+  /**
+   * Create an invite with a new code. Also used for the first invite of a new room.
+   * A taken code fails the insert, so callers run this in `withFreshCode`.
+   */
+  async createInvite(roomId: string, userId: string, options: CreateRoomInviteDto = {}, tx?: any) {
+    const prisma = tx || this.prisma;
+
+    const invite: RoomInvite = await prisma.roomInvite.create({
+      data: {
+        roomId,
+        code: this.generateCode(),
+        createdById: userId,
+        expiresAt: options.expiresAt ? new Date(options.expiresAt) : null,
+        maxUses: options.maxUses ?? null,
+      },
+    });
+
+    return this.toView(invite);
+  }
+
+  /**
+   * Run `create` again when the generated code was already taken. Given a transaction,
+   * retry the whole transaction, as the failed insert aborts it.
+   */
+  async withFreshCode<T>(create: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await create();
+      } catch (error) {
+        // Code already taken
+        if (error.code !== 'P2002' || attempt >= MAX_CODE_ATTEMPTS) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Invite of a code that can still be used to join
+   */
+  async findUsable(code: string, now: Date = new Date()) {
+    const invite = await this.prisma.roomInvite.findUnique({
+      where: { code: this.normalizeCode(code) },
+    });
+
+    if (!invite || !this.isUsable(invite, now)) {
+      throw new NotFoundException('Invite code is invalid or has expired');
+    }
+
+    return invite;
+  }
+
+  /**
+   * Count a use of the invite. Returns false when it ran out or was revoked meanwhile.
+   */
+  async consume(inviteId: string, now: Date = new Date(), tx?: any) {
+    const prisma = tx || this.prisma;
+
+    const { count } = await prisma.roomInvite.updateMany({
+      where: {
+        id: inviteId,
+        revokedAt: null,
+        AND: [
+          { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+          { OR: [{ maxUses: null }, { uses: { lt: this.prisma.roomInvite.fields.maxUses } }] },
+        ],
+      },
+      data: { uses: { increment: 1 } },
+    });
+
+    return count > 0;
+  }
+
+  private async assertOwner(roomId: string, userId: string) {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: { ownerId: true, status: true },
+    });
+
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    if (room.ownerId !== userId) {
+      throw new ForbiddenException('Only the room owner can manage invites');
+    }
+
+    if (room.status === RoomStatus.CLOSED) {
+      throw new BadRequestException('Room is closed');
+    }
+  }
+
+  private isUsable(invite: RoomInvite, now: Date) {
+    return (
+      !invite.revokedAt &&
+      (!invite.expiresAt || invite.expiresAt > now) &&
+      (invite.maxUses === null || invite.uses < invite.maxUses)
+    );
+  }
+
+  private toView(invite: RoomInvite, now: Date = new Date()) {
+    return {
+      id: invite.id,
+      code: invite.code,
+      link: `${this.configService.get<string>('roomInvite.linkBaseUrl')}/${invite.code}`,
+      expiresAt: invite.expiresAt,
+      maxUses: invite.maxUses,
+      uses: invite.uses,
+      revokedAt: invite.revokedAt,
+      active: this.isUsable(invite, now),
+      createdAt: invite.createdAt,
+    };
+  }
+
+  private normalizeCode(code: string) {
+    return code.trim().toUpperCase();
+  }
+
+  private generateCode() {
+    // 256 is a multiple of the alphabet size, so every character is equally likely
+    return Array.from(
+      randomBytes(INVITE_CODE_LENGTH),
+      (byte) => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length],
+    ).join('');
+  }
+}
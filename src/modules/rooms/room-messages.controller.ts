@@ -0,0 +1,128 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { RoomMessagesService } from './room-messages.service';
+import { QueryRoomMessagesDto, UpdateRoomMessageDto } from './dto/room-message.dto';
+import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+
+const ROOM_MESSAGE_EXAMPLE = {
+  id: 'message-uuid',
+  roomId: 'room-uuid',
+  userId: 'user-1',
+  content: 'Anyone up for a 25 minute sprint?',
+  editedAt: null,
+  createdAt: '2025-12-22T10:00:00.000Z',
+  user: { id: 'user-1', firstName: 'An', lastName: 'Nguyen', avatar: null },
+};
+
+@ApiTags('rooms')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('rooms/:roomId/messages')
+export class RoomMessagesController {
+  constructor(private readonly roomMessagesService: RoomMessagesService) {}
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get the chat history of a room',
+    description:
+      'Newest first. New messages are sent with the room_message event on the /matchmaking socket.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Room messages retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          items: [ROOM_MESSAGE_EXAMPLE],
+          meta: {
+            itemCount: 1,
+            totalItems: 1,
+            itemsPerPage: 50,
+            totalPages: 1,
+            currentPage: 1,
+          },
+        },
+        traceId: 'abc123',
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Room not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not a member of this room' })
+  findAll(
+    @Param('roomId') roomId: string,
+    @Query() query: QueryRoomMessagesDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.roomMessagesService.findAll(roomId, user.id, query);
+  }
+
+  @Patch(':messageId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Edit your own message' })
+  @ApiResponse({
+    status: 200,
+    description: 'Message updated and broadcast as room_message_updated',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: { ...ROOM_MESSAGE_EXAMPLE, editedAt: '2025-12-22T10:01:00.000Z' },
+        traceId: 'update123',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Validation error' })
+  @ApiResponse({ status: 404, description: 'Room or message not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not a member or not the author' })
+  update(
+    @Param('roomId') roomId: string,
+    @Param('messageId') messageId: string,
+    @Body() updateRoomMessageDto: UpdateRoomMessageDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.roomMessagesService.update(roomId, messageId, updateRoomMessageDto, user.id);
+  }
+
+  @Delete(':messageId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete your own message' })
+  @ApiResponse({
+    status: 200,
+    description: 'Message deleted and broadcast as room_message_deleted',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: { message: 'Message deleted successfully' },
+        traceId: 'delete123',
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Message not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not the author' })
+  remove(
+    @Param('roomId') roomId: string,
+    @Param('messageId') messageId: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.roomMessagesService.remove(roomId, messageId, user.id);
+  }
+}
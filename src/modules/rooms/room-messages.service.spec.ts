@@ -0,0 +1,196 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RoomMemberStatus, RoomMessage, RoomStatus } from '@prisma/client';
+import { RoomMessagesService } from './room-messages.service';
+import { PrismaService } from '@/database/prisma.service';
+import { CacheService } from '@/common/services/cache.service';
+import { MatchmakingGateway } from '../matchmaking/matchmaking.gateway';
+
+describe('RoomMessagesService', () => {
+  let service: RoomMessagesService;
+  let mockPrismaService: any;
+  let mockCacheService: any;
+  let mockGateway: any;
+
+  const config: Record<string, any> = {
+    'roomChat.rateLimitMessages': 2,
+    'roomChat.rateLimitWindowSeconds': 10,
+  };
+
+  const now = new Date('2025-12-22T10:00:00.000Z');
+
+  const message = (overrides: Partial<RoomMessage> = {}) => ({
+    id: 'message-id',
+    roomId: 'room-id',
+    userId: 'user-1',
+    content: 'Hello',
+    editedAt: null,
+    createdAt: now,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      room: {
+        findUnique: jest.fn().mockResolvedValue({ status: RoomStatus.ACTIVE }),
+      },
+      roomMember: {
+        findUnique: jest.fn().mockResolvedValue({ status: RoomMemberStatus.JOINED }),
+      },
+      roomMessage: {
+        create: jest.fn().mockResolvedValue(message()),
+        findMany: jest.fn().mockResolvedValue([message()]),
+        count: jest.fn().mockResolvedValue(1),
+        findFirst: jest.fn().mockResolvedValue({ userId: 'user-1' }),
+        update: jest.fn().mockResolvedValue(message({ content: 'Edited', editedAt: now })),
+      },
+    };
+    mockCacheService = {
+      increment: jest.fn().mockResolvedValue(1),
+    };
+    mockGateway = { broadcastToRoom: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomMessagesService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: CacheService, useValue: mockCacheService },
+        { provide: ConfigService, useValue: { get: jest.fn((key: string) => config[key]) } },
+        { provide: MatchmakingGateway, useValue: mockGateway },
+      ],
+    }).compile();
+
+    service = module.get<RoomMessagesService>(RoomMessagesService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('send', () => {
+    it('should store the trimmed message and broadcast it to the room', async () => {
+      const result = await service.send('room-id', 'user-1', '  Hello  ', now);
+
+      expect(mockPrismaService.roomMessage.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { roomId: 'room-id', userId: 'user-1', content: 'Hello', createdAt: now },
+        }),
+      );
+      expect(mockGateway.broadcastToRoom).toHaveBeenCalledWith('room-id', 'room_message', result);
+      expect(mockCacheService.increment).toHaveBeenCalledWith(
+        `room-chat-rate:user-1:${Math.floor(now.getTime() / 10000)}`,
+        10000,
+      );
+    });
+
+    it('should reject members who left the room', async () => {
+      mockPrismaService.roomMember.findUnique.mockResolvedValue({
+        status: RoomMemberStatus.LEFT,
+      });
+
+      await expect(service.send('room-id', 'user-1', 'Hello', now)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockPrismaService.roomMessage.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject empty messages', async () => {
+      await expect(service.send('room-id', 'user-1', '   ', now)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should rate limit users who send too fast', async () => {
+      mockCacheService.increment.mockResolvedValue(3);
+
+      await expect(service.send('room-id', 'user-1', 'Hello', now)).rejects.toThrow(HttpException);
+      expect(mockPrismaService.roomMessage.create).not.toHaveBeenCalled();
+    });
+
+    it('should allow sends up to the limit within a window', async () => {
+      mockCacheService.increment.mockResolvedValue(2);
+
+      await service.send('room-id', 'user-1', 'Hello', now);
+
+      expect(mockPrismaService.roomMessage.create).toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should return paginated history without deleted messages', async () => {
+      const result = await service.findAll('room-id', 'user-1', { page: 1, limit: 50 });
+
+      expect(mockPrismaService.roomMessage.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { roomId: 'room-id', deletedAt: null },
+          skip: 0,
+          take: 50,
+        }),
+      );
+      expect(result.items).toHaveLength(1);
+      expect(result.meta.totalItems).toBe(1);
+    });
+
+    it('should reject unknown rooms', async () => {
+      mockPrismaService.room.findUnique.mockResolvedValue(null);
+
+      await expect(service.findAll('room-id', 'user-1', {})).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('update', () => {
+    it('should edit the author message and broadcast the change', async () => {
+      await service.update('room-id', 'message-id', { content: 'Edited' }, 'user-1');
+
+      expect(mockPrismaService.roomMessage.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'message-id' },
+          data: { content: 'Edited', editedAt: expect.any(Date) },
+        }),
+      );
+      expect(mockGateway.broadcastToRoom).toHaveBeenCalledWith(
+        'room-id',
+        'room_message_updated',
+        expect.objectContaining({ content: 'Edited' }),
+      );
+    });
+
+    it('should not let members edit messages of others', async () => {
+      mockPrismaService.roomMessage.findFirst.mockResolvedValue({ userId: 'user-2' });
+
+      await expect(
+        service.update('room-id', 'message-id', { content: 'Edited' }, 'user-1'),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should soft delete the message and broadcast its id', async () => {
+      const result = await service.remove('room-id', 'message-id', 'user-1');
+
+      expect(mockPrismaService.roomMessage.update).toHaveBeenCalledWith({
+        where: { id: 'message-id' },
+        data: { deletedAt: expect.any(Date) },
+      });
+      expect(mockGateway.broadcastToRoom).toHaveBeenCalledWith('room-id', 'room_message_deleted', {
+        id: 'message-id',
+        roomId: 'room-id',
+      });
+      expect(result).toEqual({ message: 'Message deleted successfully' });
+    });
+
+    it('should reject messages that are already deleted', async () => {
+      mockPrismaService.roomMessage.findFirst.mockResolvedValue(null);
+
+      await expect(service.remove('room-id', 'message-id', 'user-1')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
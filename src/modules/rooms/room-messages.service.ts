@@ -0,0 +1,198 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { RoomMemberStatus, RoomStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { CacheService } from '@/common/services/cache.service';
+import { getPaginationOptions, paginate } from '@/common/utils/pagination.util';
+import { MatchmakingGateway } from '../matchmaking/matchmaking.gateway';
+import {
+  QueryRoomMessagesDto,
+  ROOM_MESSAGE_MAX_LENGTH,
+  UpdateRoomMessageDto,
+} from './dto/room-message.dto';
+
+const ROOM_MESSAGE_SELECT = {
+  id: true,
+  roomId: true,
+  userId: true,
+  content: true,
+  editedAt: true,
+  createdAt: true,
+  user: { select: { id: true, firstName: true, lastName: true, avatar: true } },
+};
+
+@Injectable()
+export class RoomMessagesService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private cacheService: CacheService,
+    @Inject(forwardRef(() => MatchmakingGateway))
+    private matchmakingGateway: MatchmakingGateway,
+  ) {}
+
+  /**
+   * Post a chat message to a room and broadcast it as room_message.
+   * Called from the matchmaking socket, so the content is validated here.
+   */
+  async send(roomId: string, userId: string, content: unknown, now: Date = new Date()) {
+    const text = this.normalizeContent(content);
+
+    await this.assertCurrentMember(roomId, userId);
+    await this.assertWithinRateLimit(userId, now);
+
+    const message = await this.prisma.roomMessage.create({
+      data: { roomId, userId, content: text, createdAt: now },
+      select: ROOM_MESSAGE_SELECT,
+    });
+
+    this.matchmakingGateway.broadcastToRoom(roomId, 'room_message', message);
+    return message;
+  }
+
+  /**
+   * Chat history of a room, newest first
+   */
+  async findAll(roomId: string, userId: string, query: QueryRoomMessagesDto) {
+    await this.assertCurrentMember(roomId, userId);
+
+    const { skip, take, page, limit } = getPaginationOptions(query.page, query.limit);
+    const where = { roomId, deletedAt: null };
+
+    const [messages, total] = await Promise.all([
+      this.prisma.roomMessage.findMany({
+        where,
+        select: ROOM_MESSAGE_SELECT,
+        orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+        skip,
+        take,
+      }),
+      this.prisma.roomMessage.count({ where }),
+    ]);
+
+    return paginate(messages, total, page, limit);
+  }
+
+  async update(
+    roomId: string,
+    messageId: string,
+    updateRoomMessageDto: UpdateRoomMessageDto,
+    userId: string,
+  ) {
+    await this.assertCurrentMember(roomId, userId);
+    await this.findOwnMessage(roomId, messageId, userId);
+
+    const message = await this.prisma.roomMessage.update({
+      where: { id: messageId },
+      data: {
+        content: this.normalizeContent(updateRoomMessageDto.content),
+        editedAt: new Date(),
+      },
+      select: ROOM_MESSAGE_SELECT,
+    });
+
+    this.matchmakingGateway.broadcastToRoom(roomId, 'room_message_updated', message);
+    return message;
+  }
+
+  /**
+   * Remove a message from the history. Authors can do this after leaving the room.
+   */
+  async remove(roomId: string, messageId: string, userId: string) {
+    await this.findOwnMessage(roomId, messageId, userId);
+
+    await this.prisma.roomMessage.update({
+      where: { id: messageId },
+      data: { deletedAt: new Date() },
+    });
+
+    this.matchmakingGateway.broadcastToRoom(roomId, 'room_message_deleted', {
+      id: messageId,
+      roomId,
+    });
+
+    return { message: 'Message deleted successfully' };
+  }
+
+  async isCurrentMember(roomId: string, userId: string) {
+    const member = await this.prisma.roomMember.findUnique({
+      where: { roomId_userId: { roomId, userId } },
+      select: { status: true },
+    });
+
+    return !!member && member.status !== RoomMemberStatus.LEFT;
+  }
+
+  private async assertCurrentMember(roomId: string, userId: string) {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: { status: true },
+    });
+
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    if (room.status === RoomStatus.CLOSED || !(await this.isCurrentMember(roomId, userId))) {
+      throw new ForbiddenException('You are not a member of this room');
+    }
+  }
+
+  private async findOwnMessage(roomId: string, messageId: string, userId: string) {
+    const message = await this.prisma.roomMessage.findFirst({
+      where: { id: messageId, roomId, deletedAt: null },
+      select: { userId: true },
+    });
+
+    if (!message) {
+      throw new NotFoundException('Message not found');
+    }
+
+    if (message.userId !== userId) {
+      throw new ForbiddenException('You can only change your own messages');
+    }
+  }
+
+  private normalizeContent(content: unknown) {
+    const text = typeof content === 'string' ? content.trim() : '';
+
+    if (!text) {
+      throw new BadRequestException('Message content is required');
+    }
+
+    if (text.length > ROOM_MESSAGE_MAX_LENGTH) {
+      throw new BadRequestException(
+        `Message must be at most ${ROOM_MESSAGE_MAX_LENGTH} characters`,
+      );
+    }
+
+    return text;
+  }
+
+  /**
+   * Fixed window counter per user, incremented atomically in the shared cache
+   */
+  private async assertWithinRateLimit(userId: string, now: Date) {
+    const limit = this.configService.get<number>('roomChat.rateLimitMessages');
+    const windowMs = this.configService.get<number>('roomChat.rateLimitWindowSeconds') * 1000;
+    const bucket = Math.floor(now.getTime() / windowMs);
+
+    const count = await this.cacheService.increment(`room-chat-rate:${userId}:${bucket}`, windowMs);
+
+    if (count > limit) {
+      throw new HttpException(
+        'You are sending messages too fast, please slow down',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+}
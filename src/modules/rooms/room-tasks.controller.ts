@@ -0,0 +1,191 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { RoomTasksService } from './room-tasks.service';
+import { CreateRoomTaskDto } from './dto/create-room-task.dto';
+import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+
+const ROOM_TASK_EXAMPLE = {
+  id: 'room-task-uuid',
+  roomId: 'room-uuid',
+  name: 'Solve chapter 3 exercises',
+  estimateHours: 2,
+  deadline: '2025-12-30T00:00:00.000Z',
+  status: 'ACTIVE',
+  createdById: 'user-1',
+  claimedById: 'user-2',
+  completedById: null,
+  completedAt: null,
+  createdBy: { id: 'user-1', firstName: 'An', lastName: 'Nguyen', avatar: null },
+  claimedBy: { id: 'user-2', firstName: 'Binh', lastName: 'Tran', avatar: null },
+  completedBy: null,
+  timeSpent: 3600,
+  progress: 50,
+  contributors: [{ userId: 'user-2', timeSpent: 3600 }],
+  createdAt: '2025-12-22T10:00:00.000Z',
+  updatedAt: '2025-12-22T11:00:00.000Z',
+};
+
+@ApiTags('rooms')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('rooms/:roomId/tasks')
+export class RoomTasksController {
+  constructor(private readonly roomTasksService: RoomTasksService) {}
+
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get the shared tasks of a room',
+    description:
+      'Time is tracked by each member on their own copy of a claimed task; it is credited to them and summed here.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Room tasks retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          tasks: [ROOM_TASK_EXAMPLE],
+          progress: {
+            totalTasks: 1,
+            completedTasks: 0,
+            totalTimeSpent: 3600,
+            progress: 50,
+            contributors: [{ userId: 'user-2', timeSpent: 3600 }],
+          },
+        },
+        traceId: 'abc123',
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Room not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not a member of this room' })
+  findAll(@Param('roomId') roomId: string, @CurrentUser() user: any) {
+    return this.roomTasksService.findAll(roomId, user.id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Add a shared task to a room' })
+  @ApiResponse({
+    status: 201,
+    description: 'Room task created and broadcast as room_task_created',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          ...ROOM_TASK_EXAMPLE,
+          status: 'PLANNED',
+          claimedById: null,
+          claimedBy: null,
+          timeSpent: 0,
+          progress: 0,
+          contributors: [],
+        },
+        traceId: 'create123',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Validation error' })
+  @ApiResponse({ status: 404, description: 'Room not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not a member of this room' })
+  create(
+    @Param('roomId') roomId: string,
+    @Body() createRoomTaskDto: CreateRoomTaskDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.roomTasksService.create(roomId, createRoomTaskDto, user.id);
+  }
+
+  @Post(':taskId/claim')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Claim a shared task',
+    description:
+      'Returns the linked personal task (data.task) to activate and track time on. Broadcast as room_task_updated.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Room task claimed successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          ...ROOM_TASK_EXAMPLE,
+          task: {
+            id: 'task-uuid',
+            name: 'Solve chapter 3 exercises',
+            status: 'PLANNED',
+            roomTaskId: 'room-task-uuid',
+            userId: 'user-2',
+          },
+        },
+        traceId: 'claim123',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Task is already done' })
+  @ApiResponse({ status: 404, description: 'Room or room task not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not a member of this room' })
+  @ApiResponse({ status: 409, description: 'Task is already claimed by another member' })
+  claim(
+    @Param('roomId') roomId: string,
+    @Param('taskId') taskId: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.roomTasksService.claim(roomId, taskId, user.id);
+  }
+
+  @Post(':taskId/unclaim')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Give a claimed task back to the room' })
+  @ApiResponse({
+    status: 200,
+    description: 'Room task released and broadcast as room_task_updated',
+  })
+  @ApiResponse({ status: 400, description: 'Task is already done' })
+  @ApiResponse({ status: 404, description: 'Room or room task not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not a member or not the claimant' })
+  unclaim(
+    @Param('roomId') roomId: string,
+    @Param('taskId') taskId: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.roomTasksService.unclaim(roomId, taskId, user.id);
+  }
+
+  @Post(':taskId/complete')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Complete a shared task',
+    description: "Also completes the member's own copy. Broadcast as room_task_completed.",
+  })
+  @ApiResponse({ status: 200, description: 'Room task completed successfully' })
+  @ApiResponse({ status: 400, description: 'Task is already done' })
+  @ApiResponse({ status: 404, description: 'Room or room task not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not a member of this room' })
+  complete(
+    @Param('roomId') roomId: string,
+    @Param('taskId') taskId: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.roomTasksService.complete(roomId, taskId, user.id);
+  }
+}
@@ -0,0 +1,280 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { Prisma, RoomMemberStatus, RoomStatus, RoomTask, Task, TaskStatus } from '@prisma/client';
+import { RoomTasksService } from './room-tasks.service';
+import { PrismaService } from '@/database/prisma.service';
+import { TasksService } from '../tasks/tasks.service';
+import { MatchmakingGateway } from '../matchmaking/matchmaking.gateway';
+
+describe('RoomTasksService', () => {
+  let service: RoomTasksService;
+  let mockPrismaService: any;
+  let mockTasksService: any;
+  let mockGateway: any;
+
+  const roomTask = (
+    overrides: Partial<RoomTask> & { tasks?: Pick<Task, 'userId' | 'totalTimeSpent'>[] } = {},
+  ) => ({
+    id: 'room-task-id',
+    roomId: 'room-id',
+    name: 'Solve chapter 3',
+    estimateHours: 2,
+    deadline: new Date('2025-12-30T00:00:00.000Z'),
+    status: TaskStatus.PLANNED,
+    createdById: 'user-1',
+    claimedById: null,
+    completedById: null,
+    completedAt: null,
+    tasks: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      room: {
+        findUnique: jest.fn().mockResolvedValue({ status: RoomStatus.ACTIVE }),
+      },
+      roomMember: {
+        findUnique: jest.fn().mockResolvedValue({ status: RoomMemberStatus.JOINED }),
+      },
+      roomTask: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findUnique: jest.fn().mockResolvedValue(roomTask()),
+        create: jest.fn().mockResolvedValue(roomTask()),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      },
+      task: {
+        findFirst: jest.fn().mockResolvedValue(null),
+      },
+      $transaction: jest.fn(async (callback) => callback(mockPrismaService)),
+    };
+    mockTasksService = {
+      create: jest.fn().mockResolvedValue({ id: 'task-id', roomTaskId: 'room-task-id' }),
+      complete: jest.fn(),
+    };
+    mockGateway = { broadcastToRoom: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RoomTasksService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: TasksService, useValue: mockTasksService },
+        { provide: MatchmakingGateway, useValue: mockGateway },
+      ],
+    }).compile();
+
+    service = module.get<RoomTasksService>(RoomTasksService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should sum the time of every member into the room progress', async () => {
+      mockPrismaService.roomTask.findMany.mockResolvedValue([
+        roomTask({
+          status: TaskStatus.ACTIVE,
+          tasks: [
+            { userId: 'user-1', totalTimeSpent: 1800 },
+            { userId: 'user-2', totalTimeSpent: 1800 },
+          ],
+        }),
+        // 3h tracked on a 1h task counts as done work of 1h only
+        roomTask({
+          id: 'room-task-2',
+          estimateHours: new Prisma.Decimal(1),
+          status: TaskStatus.ACTIVE,
+          tasks: [{ userId: 'user-2', totalTimeSpent: 10800 }],
+        }),
+        roomTask({
+          id: 'room-task-3',
+          estimateHours: new Prisma.Decimal(1),
+          status: TaskStatus.DONE,
+        }),
+      ]);
+
+      const result = await service.findAll('room-id', 'user-1');
+
+      expect(result.tasks[0]).toEqual(
+        expect.objectContaining({
+          timeSpent: 3600,
+          progress: 50,
+          contributors: [
+            { userId: 'user-1', timeSpent: 1800 },
+            { userId: 'user-2', timeSpent: 1800 },
+          ],
+        }),
+      );
+      expect(result.tasks[1].progress).toBe(100);
+      expect(result.progress).toEqual({
+        totalTasks: 3,
+        completedTasks: 1,
+        totalTimeSpent: 14400,
+        progress: 75,
+        contributors: [
+          { userId: 'user-2', timeSpent: 12600 },
+          { userId: 'user-1', timeSpent: 1800 },
+        ],
+      });
+    });
+
+    it('should reject users who left the room', async () => {
+      mockPrismaService.roomMember.findUnique.mockResolvedValue({
+        status: RoomMemberStatus.LEFT,
+      });
+
+      await expect(service.findAll('room-id', 'user-1')).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('create', () => {
+    it('should create the task and broadcast it to the room', async () => {
+      const result = await service.create(
+        'room-id',
+        { name: 'Solve chapter 3', estimateHours: 2, deadline: '2025-12-30' },
+        'user-1',
+      );
+
+      expect(mockPrismaService.roomTask.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ roomId: 'room-id', createdById: 'user-1' }),
+        }),
+      );
+      expect(mockGateway.broadcastToRoom).toHaveBeenCalledWith(
+        'room-id',
+        'room_task_created',
+        result,
+      );
+    });
+  });
+
+  describe('claim', () => {
+    it('should create a linked personal task for the member', async () => {
+      const result = await service.claim('room-id', 'room-task-id', 'user-2');
+
+      expect(mockPrismaService.roomTask.updateMany).toHaveBeenCalledWith({
+        where: { id: 'room-task-id', status: { not: TaskStatus.DONE }, claimedById: null },
+        data: { claimedById: 'user-2', status: TaskStatus.ACTIVE },
+      });
+      expect(mockTasksService.create).toHaveBeenCalledWith(
+        { name: 'Solve chapter 3', estimateHours: 2, deadline: '2025-12-30T00:00:00.000Z' },
+        'user-2',
+        'room-task-id',
+        mockPrismaService,
+      );
+      expect(result.task).toEqual({ id: 'task-id', roomTaskId: 'room-task-id' });
+      expect(mockGateway.broadcastToRoom).toHaveBeenCalledWith(
+        'room-id',
+        'room_task_updated',
+        expect.objectContaining({ id: 'room-task-id' }),
+      );
+    });
+
+    it('should reuse the personal task of an earlier claim', async () => {
+      mockPrismaService.task.findFirst.mockResolvedValue({ id: 'existing-task-id' });
+
+      const result = await service.claim('room-id', 'room-task-id', 'user-2');
+
+      expect(mockTasksService.create).not.toHaveBeenCalled();
+      expect(result.task).toEqual({ id: 'existing-task-id' });
+    });
+
+    it('should reject tasks claimed by another current member', async () => {
+      mockPrismaService.roomTask.findUnique.mockResolvedValue(roomTask({ claimedById: 'user-3' }));
+
+      await expect(service.claim('room-id', 'room-task-id', 'user-2')).rejects.toThrow(
+        ConflictException,
+      );
+      expect(mockPrismaService.roomTask.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should take over a claim of a member who left', async () => {
+      mockPrismaService.roomTask.findUnique.mockResolvedValue(roomTask({ claimedById: 'user-3' }));
+      mockPrismaService.roomMember.findUnique
+        .mockResolvedValueOnce({ status: RoomMemberStatus.JOINED })
+        .mockResolvedValueOnce({ status: RoomMemberStatus.LEFT });
+
+      await service.claim('room-id', 'room-task-id', 'user-2');
+
+      expect(mockPrismaService.roomTask.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ claimedById: 'user-3' }),
+        }),
+      );
+    });
+
+    it('should reject done tasks', async () => {
+      mockPrismaService.roomTask.findUnique.mockResolvedValue(
+        roomTask({ status: TaskStatus.DONE }),
+      );
+
+      await expect(service.claim('room-id', 'room-task-id', 'user-2')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('unclaim', () => {
+    it('should only let the claimant release the task', async () => {
+      mockPrismaService.roomTask.findUnique.mockResolvedValue(roomTask({ claimedById: 'user-3' }));
+
+      await expect(service.unclaim('room-id', 'room-task-id', 'user-2')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('complete', () => {
+    it("should complete the member's own copy, which broadcasts the completion", async () => {
+      mockPrismaService.task.findFirst.mockResolvedValue({ id: 'task-id' });
+      mockPrismaService.roomTask.findUnique.mockResolvedValueOnce(roomTask()).mockResolvedValueOnce(
+        roomTask({
+          status: TaskStatus.DONE,
+          completedById: 'user-2',
+          tasks: [{ userId: 'user-2', totalTimeSpent: 3600 }],
+        }),
+      );
+
+      const result = await service.complete('room-id', 'room-task-id', 'user-2');
+
+      // The copy's completion marks the shared task done in the same transaction
+      expect(mockTasksService.complete).toHaveBeenCalledWith('task-id', 'user-2');
+      expect(mockPrismaService.roomTask.update).not.toHaveBeenCalled();
+      expect(result.progress).toBe(100);
+      expect(mockGateway.broadcastToRoom).not.toHaveBeenCalled();
+    });
+
+    it('should complete the shared task directly when the member has no copy', async () => {
+      await service.complete('room-id', 'room-task-id', 'user-2');
+
+      expect(mockTasksService.complete).not.toHaveBeenCalled();
+      expect(mockPrismaService.roomTask.update).toHaveBeenCalledWith({
+        where: { id: 'room-task-id' },
+        data: { status: TaskStatus.DONE, completedById: 'user-2', completedAt: expect.any(Date) },
+      });
+      expect(mockGateway.broadcastToRoom).toHaveBeenCalledWith(
+        'room-id',
+        'room_task_completed',
+        expect.any(Object),
+      );
+    });
+  });
+
+  describe('notifyCompleted', () => {
+    it('should broadcast the completed room task to its room', async () => {
+      mockPrismaService.roomTask.findUnique.mockResolvedValue(
+        roomTask({ status: TaskStatus.DONE, completedById: 'user-2' }),
+      );
+
+      await service.notifyCompleted('room-task-id');
+
+      expect(mockGateway.broadcastToRoom).toHaveBeenCalledWith(
+        'room-id',
+        'room_task_completed',
+        expect.objectContaining({ id: 'room-task-id', status: TaskStatus.DONE, progress: 100 }),
+      );
+    });
+  });
+});
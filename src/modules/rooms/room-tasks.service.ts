@@ -0,0 +1,311 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { Prisma, RoomMemberStatus, RoomStatus, TaskStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { MatchmakingGateway } from '../matchmaking/matchmaking.gateway';
+import { TasksService } from '../tasks/tasks.service';
+import { CreateRoomTaskDto } from './dto/create-room-task.dto';
+
+const MEMBER_SELECT = { id: true, firstName: true, lastName: true, avatar: true } as const;
+
+const ROOM_TASK_INCLUDE = {
+  createdBy: { select: MEMBER_SELECT },
+  claimedBy: { select: MEMBER_SELECT },
+  completedBy: { select: MEMBER_SELECT },
+  // Personal copies of the members who claimed it, holding the tracked time
+  tasks: { select: { userId: true, totalTimeSpent: true } },
+} as const;
+
+type RoomTaskWithCopies = Prisma.RoomTaskGetPayload<{ include: typeof ROOM_TASK_INCLUDE }>;
+
+@Injectable()
+export class RoomTasksService {
+  private readonly logger = new Logger(RoomTasksService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(forwardRef(() => TasksService))
+    private tasksService: TasksService,
+    @Inject(forwardRef(() => MatchmakingGateway))
+    private matchmakingGateway: MatchmakingGateway,
+  ) {}
+
+  /**
+   * Shared tasks of a room with the time each member tracked on them,
+   * and the combined progress of the room
+   */
+  async findAll(roomId: string, userId: string) {
+    await this.assertCurrentMember(roomId, userId);
+
+    const roomTasks = await this.prisma.roomTask.findMany({
+      where: { roomId },
+      include: ROOM_TASK_INCLUDE,
+      orderBy: [{ deadline: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    const tasks = roomTasks.map((roomTask) => this.toView(roomTask));
+    const completedTasks = tasks.filter((task) => task.status === TaskStatus.DONE).length;
+    const estimateHours = tasks.reduce((sum, task) => sum + task.estimateHours, 0);
+    // Progress is capped per task, so time over one estimate does not count towards the others
+    const doneHours = tasks.reduce(
+      (sum, task) => sum + (task.progress / 100) * task.estimateHours,
+      0,
+    );
+
+    return {
+      tasks,
+      progress: {
+        totalTasks: tasks.length,
+        completedTasks,
+        totalTimeSpent: tasks.reduce((sum, task) => sum + task.timeSpent, 0),
+        progress:
+          estimateHours > 0
+            ? this.toPercent(doneHours, estimateHours)
+            : this.toPercent(completedTasks, tasks.length),
+        contributors: this.sumContributors(roomTasks.flatMap((roomTask) => roomTask.tasks)),
+      },
+    };
+  }
+
+  async create(roomId: string, createRoomTaskDto: CreateRoomTaskDto, userId: string) {
+    await this.assertCurrentMember(roomId, userId);
+
+    const roomTask = await this.prisma.roomTask.create({
+      data: {
+        roomId,
+        name: createRoomTaskDto.name,
+        estimateHours: createRoomTaskDto.estimateHours,
+        deadline: new Date(createRoomTaskDto.deadline),
+        createdById: userId,
+      },
+      include: ROOM_TASK_INCLUDE,
+    });
+
+    return this.broadcast(roomId, 'room_task_created', roomTask);
+  }
+
+  /**
+   * Take a shared task. The member gets a linked personal task to track time on;
+   * claiming again returns the same one.
+   */
+  async claim(roomId: string, roomTaskId: string, userId: string) {
+    await this.assertCurrentMember(roomId, userId);
+    const roomTask = await this.findRoomTask(roomId, roomTaskId);
+
+    if (roomTask.status === TaskStatus.DONE) {
+      throw new BadRequestException('Task is already done');
+    }
+
+    // A claim held by someone who left the room can be taken over
+    if (
+      roomTask.claimedById &&
+      roomTask.claimedById !== userId &&
+      (await this.isCurrentMember(roomId, roomTask.claimedById))
+    ) {
+      throw new ConflictException('Task is already claimed by another member');
+    }
+
+    const task = await this.prisma.$transaction(async (tx) => {
+      const { count } = await tx.roomTask.updateMany({
+        where: {
+          id: roomTaskId,
+          status: { not: TaskStatus.DONE },
+          claimedById: roomTask.claimedById,
+        },
+        data: { claimedById: userId, status: TaskStatus.ACTIVE },
+      });
+
+      if (count === 0) {
+        throw new ConflictException('Task is already claimed by another member');
+      }
+
+      return (
+        (await tx.task.findFirst({ where: { roomTaskId, userId, archivedAt: null } })) ??
+        (await this.tasksService.create(
+          {
+            name: roomTask.name,
+            estimateHours: Number(roomTask.estimateHours),
+            deadline: roomTask.deadline.toISOString(),
+          },
+          userId,
+          roomTaskId,
+          tx,
+        ))
+      );
+    });
+
+    const updated = this.broadcast(
+      roomId,
+      'room_task_updated',
+      await this.findRoomTask(roomId, roomTaskId),
+    );
+
+    return { ...updated, task };
+  }
+
+  /**
+   * Give a claimed task back to the room. Time already tracked stays credited.
+   */
+  async unclaim(roomId: string, roomTaskId: string, userId: string) {
+    await this.assertCurrentMember(roomId, userId);
+    const roomTask = await this.findRoomTask(roomId, roomTaskId);
+
+    if (roomTask.claimedById !== userId) {
+      throw new ForbiddenException('You have not claimed this task');
+    }
+
+    if (roomTask.status === TaskStatus.DONE) {
+      throw new BadRequestException('Task is already done');
+    }
+
+    const updated = await this.prisma.roomTask.update({
+      where: { id: roomTaskId },
+      data: { claimedById: null, status: TaskStatus.PLANNED },
+      include: ROOM_TASK_INCLUDE,
+    });
+
+    return this.broadcast(roomId, 'room_task_updated', updated);
+  }
+
+  /**
+   * Mark a shared task as done. The member's own copy is completed too, which
+   * stops its tracking session and grants the completion EXP; completing the copy
+   * marks the shared task done in the same transaction.
+   */
+  async complete(roomId: string, roomTaskId: string, userId: string) {
+    await this.assertCurrentMember(roomId, userId);
+    const roomTask = await this.findRoomTask(roomId, roomTaskId);
+
+    if (roomTask.status === TaskStatus.DONE) {
+      throw new BadRequestException('Task is already done');
+    }
+
+    const task = await this.prisma.task.findFirst({
+      where: { roomTaskId, userId, status: { not: TaskStatus.DONE }, archivedAt: null },
+      select: { id: true },
+    });
+
+    // Completing the copy completes the room task and broadcasts it
+    if (task) {
+      await this.tasksService.complete(task.id, userId);
+      return this.toView(await this.findRoomTask(roomId, roomTaskId));
+    }
+
+    await this.prisma.roomTask.update({
+      where: { id: roomTaskId },
+      data: { status: TaskStatus.DONE, completedById: userId, completedAt: new Date() },
+    });
+
+    return this.broadcast(
+      roomId,
+      'room_task_completed',
+      await this.findRoomTask(roomId, roomTaskId),
+    );
+  }
+
+  /**
+   * Tell the room a shared task was completed through a member's copy
+   * (completed, auto-completed at 100% or moved to DONE)
+   */
+  async notifyCompleted(roomTaskId: string, tx?: any) {
+    const prisma = tx || this.prisma;
+
+    try {
+      const roomTask: RoomTaskWithCopies = await prisma.roomTask.findUnique({
+        where: { id: roomTaskId },
+        include: ROOM_TASK_INCLUDE,
+      });
+
+      if (roomTask) {
+        this.broadcast(roomTask.roomId, 'room_task_completed', roomTask);
+      }
+    } catch (error) {
+      this.logger.error(
+        `Failed to broadcast completion of room task ${roomTaskId}: ${error.message}`,
+      );
+    }
+  }
+
+  private async findRoomTask(roomId: string, roomTaskId: string) {
+    const roomTask = await this.prisma.roomTask.findUnique({
+      where: { id: roomTaskId },
+      include: ROOM_TASK_INCLUDE,
+    });
+
+    if (!roomTask || roomTask.roomId !== roomId) {
+      throw new NotFoundException('Room task not found');
+    }
+
+    return roomTask;
+  }
+
+  private async assertCurrentMember(roomId: string, userId: string) {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: { status: true },
+    });
+
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    if (room.status === RoomStatus.CLOSED || !(await this.isCurrentMember(roomId, userId))) {
+      throw new ForbiddenException('You are not a member of this room');
+    }
+  }
+
+  private async isCurrentMember(roomId: string, userId: string) {
+    const member = await this.prisma.roomMember.findUnique({
+      where: { roomId_userId: { roomId, userId } },
+      select: { status: true },
+    });
+
+    return !!member && member.status !== RoomMemberStatus.LEFT;
+  }
+
+  private broadcast(roomId: string, event: string, roomTask: RoomTaskWithCopies) {
+    const view = this.toView(roomTask);
+    this.matchmakingGateway.broadcastToRoom(roomId, event, view);
+    return view;
+  }
+
+  private toView({ tasks, ...roomTask }: RoomTaskWithCopies) {
+    const estimateHours = Number(roomTask.estimateHours);
+    const timeSpent = tasks.reduce((sum, task) => sum + task.totalTimeSpent, 0);
+
+    return {
+      ...roomTask,
+      estimateHours,
+      timeSpent,
+      progress:
+        roomTask.status === TaskStatus.DONE
+          ? 100
+          : Math.min(this.toPercent(timeSpent, estimateHours * 3600), 100),
+      contributors: this.sumContributors(tasks),
+    };
+  }
+
+  private sumContributors(tasks: { userId: string; totalTimeSpent: number }[]) {
+    const timeByUser = new Map<string, number>();
+
+    for (const task of tasks) {
+      timeByUser.set(task.userId, (timeByUser.get(task.userId) || 0) + task.totalTimeSpent);
+    }
+
+    return [...timeByUser.entries()]
+      .map(([userId, timeSpent]) => ({ userId, timeSpent }))
+      .sort((a, b) => b.timeSpent - a.timeSpent);
+  }
+
+  private toPercent(value: number, total: number) {
+    return total > 0 ? Math.round((value / total) * 10000) / 100 : 0;
+  }
+}
@@ -1,6 +1,16 @@
-import { Controller, Get, Post, Param, UseGuards, HttpCode, HttpStatus } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { RoomsService } from './rooms.service';
+import { CreatePrivateRoomDto } from './dto/create-private-room.dto';
 import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
 import { CurrentUser } from '@/common/decorators/current-user.decorator';
 
@@ -54,6 +64,79 @@ export class RoomsController {
     return { rooms };
   }
 
+  @Post('private')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Create a private room',
+    description:
+      'Invite-only room owned by the caller, who joins it right away. Returns a first invite code to share.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Private room created with LiveKit token',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          roomId: 'room-uuid',
+          livekitRoomName: 'private-5f0c6a1e-2b7d-4c8e-9a34-1d2e3f4a5b6c',
+          token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+          topic: 'Final exam prep',
+          maxMembers: 4,
+          invite: {
+            id: 'invite-uuid',
+            code: 'K7QX2MPA',
+            link: 'https://app.example.com/rooms/join/K7QX2MPA',
+            expiresAt: null,
+            maxUses: null,
+            uses: 0,
+            revokedAt: null,
+            active: true,
+            createdAt: '2025-12-22T10:00:00.000Z',
+          },
+        },
+        traceId: 'private123',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Bad request - Validation error' })
+  @ApiResponse({ status: 409, description: 'User already in a room' })
+  async createPrivateRoom(
+    @Body() createPrivateRoomDto: CreatePrivateRoomDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.roomsService.createPrivateRoom(createPrivateRoomDto, user.id);
+  }
+
+  @Post('invites/:code/join')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Join a private room with an invite code' })
+  @ApiResponse({
+    status: 200,
+    description: 'Joined room successfully with LiveKit token',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          roomId: 'room-uuid',
+          livekitRoomName: 'private-5f0c6a1e-2b7d-4c8e-9a34-1d2e3f4a5b6c',
+          token: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+          topic: 'Final exam prep',
+        },
+        traceId: 'invite123',
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Invite code is invalid or has expired' })
+  @ApiResponse({ status: 409, description: 'User already in a room, room is full or closed' })
+  async joinWithInvite(@Param('code') code: string, @CurrentUser() user: any) {
+    return this.roomsService.joinWithInvite(code, user.id);
+  }
+
   @Post(':roomId/join')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Join a public room' })
@@ -102,10 +185,12 @@ export class RoomsController {
             {
               userId: 'user-1',
               status: 'READY',
+              media: { cameraOn: true, micOn: false, screenShareOn: false, cameraOnSeconds: 1500 },
             },
             {
               userId: 'user-2',
               status: 'READY',
+              media: { cameraOn: false, micOn: true, screenShareOn: false, cameraOnSeconds: 0 },
             },
           ],
         },
@@ -119,6 +204,38 @@ export class RoomsController {
     return this.roomsService.findOne(roomId, user.id);
   }
 
+  @Get(':roomId/study-time')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Get the time spent studying in a room',
+    description: 'Summed over every visit of each member, including members who left.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Study time retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          roomId: 'room-uuid',
+          totalSeconds: 9000,
+          members: [
+            { userId: 'user-1', totalSeconds: 5400 },
+            { userId: 'user-2', totalSeconds: 3600 },
+          ],
+        },
+        traceId: 'time123',
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Room not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Never a member of this room' })
+  async getStudyTime(@Param('roomId') roomId: string, @CurrentUser() user: any) {
+    return this.roomsService.getStudyTime(roomId, user.id);
+  }
+
   @Post(':roomId/leave')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({ summary: 'Leave room' })
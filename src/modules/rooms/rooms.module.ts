@@ -1,12 +1,36 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { RoomsService } from './rooms.service';
 import { RoomsController } from './rooms.controller';
+import { RoomTasksService } from './room-tasks.service';
+import { RoomTasksController } from './room-tasks.controller';
+import { RoomMessagesService } from './room-messages.service';
+import { RoomMessagesController } from './room-messages.controller';
+import { RoomInvitesService } from './room-invites.service';
+import { RoomInvitesController } from './room-invites.controller';
 import { PrismaService } from '@/database/prisma.service';
 import { LiveKitService } from '@/common/services/livekit.service';
+import { CacheService } from '@/common/services/cache.service';
+import { MatchmakingModule } from '../matchmaking/matchmaking.module';
+import { TasksModule } from '../tasks/tasks.module';
+import { PresenceModule } from '../presence/presence.module';
 
 @Module({
-  controllers: [RoomsController],
-  providers: [RoomsService, PrismaService, LiveKitService],
-  exports: [RoomsService],
+  imports: [forwardRef(() => MatchmakingModule), forwardRef(() => TasksModule), PresenceModule],
+  controllers: [
+    RoomsController,
+    RoomTasksController,
+    RoomMessagesController,
+    RoomInvitesController,
+  ],
+  providers: [
+    RoomsService,
+    RoomTasksService,
+    RoomMessagesService,
+    RoomInvitesService,
+    PrismaService,
+    LiveKitService,
+    CacheService,
+  ],
+  exports: [RoomsService, RoomMessagesService, RoomTasksService],
 })
 export class RoomsModule {}
@@ -4,10 +4,23 @@ import {
   ConflictException,
   ForbiddenException,
   BadRequestException,
+  Inject,
+  forwardRef,
 } from '@nestjs/common';
 import { PrismaService } from '@/database/prisma.service';
 import { LiveKitService } from '@/common/services/livekit.service';
-import { RoomType, RoomStatus, RoomMemberStatus, UserStatus, RoomVisibility } from '@prisma/client';
+import { PresenceService } from '../presence/presence.service';
+import { RoomInvitesService } from './room-invites.service';
+import { MatchmakingGateway } from '../matchmaking/matchmaking.gateway';
+import { CreatePrivateRoomDto } from './dto/create-private-room.dto';
+import {
+  RoomType,
+  RoomStatus,
+  RoomMemberStatus,
+  UserStatus,
+  RoomVisibility,
+  RoomMember,
+} from '@prisma/client';
 import { v4 as uuid } from 'uuid';
 // import { PUBLIC_TOPICS, PublicTopic } from '@/config/app.config';
 
@@ -16,6 +29,10 @@ export class RoomsService {
   constructor(
     private prisma: PrismaService,
     private livekitService: LiveKitService,
+    private presenceService: PresenceService,
+    private roomInvitesService: RoomInvitesService,
+    @Inject(forwardRef(() => MatchmakingGateway))
+    private matchmakingGateway: MatchmakingGateway,
   ) {}
 
   private async findExistingActiveMember(userId: string) {
@@ -53,6 +70,8 @@ export class RoomsService {
         throw new BadRequestException('Topic required for PUBLIC rooms');
       }
       return `public-${topic}`;
+    } else if (type === RoomType.PRIVATE) {
+      return `private-${uuid()}`;
     } else {
       return `match-${uuid()}`;
     }
@@ -150,6 +169,7 @@ export class RoomsService {
           where: { id: previousMember.id },
           data: {
             status: RoomMemberStatus.JOINED,
+            joinedAt: new Date(),
             leftAt: null,
           },
         });
@@ -189,6 +209,8 @@ export class RoomsService {
       isNewRoom = true;
     }
 
+    await this.presenceService.recordJoin(room.id, userId);
+
     await this.prisma.user.update({
       where: { id: userId },
       data: { status: UserStatus.IN_ROOM },
@@ -269,6 +291,7 @@ export class RoomsService {
         where: { id: previousMember.id },
         data: {
           status: RoomMemberStatus.JOINED,
+          joinedAt: new Date(),
           leftAt: null,
         },
       });
@@ -282,6 +305,178 @@ export class RoomsService {
       });
     }
 
+    await this.presenceService.recordJoin(room.id, userId);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { status: UserStatus.IN_ROOM },
+    });
+
+    const livekitToken = await this.livekitService.generateToken(room.livekitRoomName, userId);
+
+    return {
+      roomId: room.id,
+      livekitRoomName: room.livekitRoomName,
+      token: livekitToken,
+      topic: room.topic,
+    };
+  }
+
+  /**
+   * Create an invite-only room owned by the user, who joins it right away.
+   * Comes with a first invite without expiry or use limit.
+   */
+  async createPrivateRoom(createPrivateRoomDto: CreatePrivateRoomDto, userId: string) {
+    const existingMember = await this.findExistingActiveMember(userId);
+
+    if (existingMember && existingMember.room.status !== RoomStatus.CLOSED) {
+      throw new ConflictException('User already in a room');
+    }
+
+    const roomName = this.generateRoomName(RoomType.PRIVATE);
+
+    const now = new Date();
+
+    // Retried as a whole when the invite code is taken
+    const { room, invite } = await this.roomInvitesService.withFreshCode(() =>
+      this.prisma.$transaction(async (tx) => {
+        const room = await tx.room.create({
+          data: {
+            type: RoomType.PRIVATE,
+            topic: createPrivateRoomDto.topic,
+            visibility: RoomVisibility.PRIVATE,
+            status: RoomStatus.ACTIVE,
+            livekitRoomName: roomName,
+            maxMembers: createPrivateRoomDto.maxMembers,
+            ownerId: userId,
+            startedAt: now,
+            members: {
+              create: {
+                userId,
+                status: RoomMemberStatus.JOINED,
+              },
+            },
+          },
+        });
+
+        const invite = await this.roomInvitesService.createInvite(room.id, userId, {}, tx);
+
+        await this.presenceService.recordJoin(room.id, userId, now, tx);
+
+        return { room, invite };
+      }),
+    );
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: { status: UserStatus.IN_ROOM },
+    });
+
+    const livekitToken = await this.livekitService.generateToken(room.livekitRoomName, userId);
+
+    return {
+      roomId: room.id,
+      livekitRoomName: room.livekitRoomName,
+      token: livekitToken,
+      topic: room.topic,
+      maxMembers: room.maxMembers,
+      invite,
+    };
+  }
+
+  /**
+   * Join a private room with an invite code. Members coming back do not use up the code.
+   */
+  async joinWithInvite(code: string, userId: string, now: Date = new Date()) {
+    const invite = await this.roomInvitesService.findUsable(code, now);
+
+    const room = await this.prisma.room.findUnique({
+      where: { id: invite.roomId },
+      include: {
+        members: {
+          where: {
+            status: {
+              not: RoomMemberStatus.LEFT,
+            },
+          },
+        },
+      },
+    });
+
+    if (room.status !== RoomStatus.ACTIVE) {
+      throw new ConflictException('Room is not active');
+    }
+
+    const existingMember = await this.findExistingActiveMember(userId);
+
+    if (existingMember && existingMember.roomId === room.id) {
+      const livekitToken = await this.livekitService.generateToken(room.livekitRoomName, userId);
+
+      return {
+        roomId: room.id,
+        livekitRoomName: room.livekitRoomName,
+        token: livekitToken,
+        topic: room.topic,
+      };
+    }
+
+    if (existingMember && existingMember.room.status !== RoomStatus.CLOSED) {
+      throw new ConflictException('User already in a room');
+    }
+
+    if (room.members.length >= room.maxMembers) {
+      throw new ConflictException('Room is full');
+    }
+
+    const previousMember = await this.prisma.roomMember.findUnique({
+      where: {
+        roomId_userId: {
+          roomId: room.id,
+          userId,
+        },
+      },
+    });
+
+    await this.prisma.$transaction(async (tx) => {
+      // Lock the room so concurrent joins count each other's members
+      await tx.$queryRaw`SELECT id FROM rooms WHERE id = ${room.id} FOR UPDATE`;
+
+      const memberCount = await tx.roomMember.count({
+        where: { roomId: room.id, status: { not: RoomMemberStatus.LEFT } },
+      });
+
+      if (memberCount >= room.maxMembers) {
+        throw new ConflictException('Room is full');
+      }
+
+      if (previousMember) {
+        await tx.roomMember.update({
+          where: { id: previousMember.id },
+          data: {
+            status: RoomMemberStatus.JOINED,
+            joinedAt: now,
+            leftAt: null,
+          },
+        });
+      } else {
+        // The code may have run out since it was checked
+        if (!(await this.roomInvitesService.consume(invite.id, now, tx))) {
+          throw new NotFoundException('Invite code is invalid or has expired');
+        }
+
+        await tx.roomMember.create({
+          data: {
+            roomId: room.id,
+            userId,
+            status: RoomMemberStatus.JOINED,
+            joinedAt: now,
+          },
+        });
+      }
+
+      await this.presenceService.recordJoin(room.id, userId, now, tx);
+    });
+
     await this.prisma.user.update({
       where: { id: userId },
       data: { status: UserStatus.IN_ROOM },
@@ -333,6 +528,10 @@ export class RoomsService {
       },
     });
 
+    for (const userId of userIds) {
+      await this.presenceService.recordJoin(room.id, userId);
+    }
+
     await this.prisma.user.updateMany({
       where: {
         id: {
@@ -497,6 +696,8 @@ export class RoomsService {
       });
     }
 
+    await this.presenceService.recordJoin(room.id, userId);
+
     await this.prisma.user.update({
       where: { id: userId },
       data: { status: UserStatus.IN_ROOM },
@@ -558,10 +759,48 @@ export class RoomsService {
         userId: member.userId,
         status: member.status,
         user: member.user,
+        media: this.toMediaState(member),
       })),
     };
   }
 
+  /**
+   * Study time of a room. Past members can see it too.
+   */
+  async getStudyTime(roomId: string, userId: string) {
+    const room = await this.prisma.room.findUnique({
+      where: { id: roomId },
+      select: { members: { where: { userId }, select: { id: true } } },
+    });
+
+    if (!room) {
+      throw new NotFoundException('Room not found');
+    }
+
+    if (room.members.length === 0) {
+      throw new ForbiddenException('You are not a member of this room');
+    }
+
+    return this.presenceService.getRoomStudyTime(roomId);
+  }
+
+  /**
+   * Camera, microphone and screen share state reported by LiveKit.
+   * Camera time includes the part still running.
+   */
+  private toMediaState(member: RoomMember, now: Date = new Date()) {
+    const runningSeconds = member.cameraOnSince
+      ? Math.max(Math.floor((now.getTime() - member.cameraOnSince.getTime()) / 1000), 0)
+      : 0;
+
+    return {
+      cameraOn: member.cameraOn,
+      micOn: member.micOn,
+      screenShareOn: member.screenShareOn,
+      cameraOnSeconds: member.cameraOnSeconds + runningSeconds,
+    };
+  }
+
   async leave(roomId: string, userId: string) {
     console.log(`🚪 Leave room request: userId=${userId}, roomId=${roomId}`);
 
@@ -616,6 +855,8 @@ export class RoomsService {
         leftAt: new Date(),
       },
     });
+    await this.presenceService.recordLeave(roomId, userId);
+    this.matchmakingGateway.removeUserFromRoom(roomId, userId);
 
     const remainingMembers = await this.prisma.roomMember.count({
       where: {
@@ -648,6 +889,7 @@ export class RoomsService {
             endedAt: new Date(),
           },
         });
+        await this.presenceService.closeRoom(roomId);
         console.log(`✅ Room ${roomId} status updated to CLOSED`);
       }
     }
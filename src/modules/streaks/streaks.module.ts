@@ -0,0 +1,27 @@
+import { Logger, Module, OnModuleInit } from '@nestjs/common';
+import { BullModule, InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { StreaksService } from './streaks.service';
+import { StreaksProcessor } from './streaks.processor';
+import { PrismaService } from '@/database/prisma.service';
+import { QueuesModule } from '../queues/queues.module';
+
+@Module({
+  imports: [BullModule.registerQueue({ name: 'streaks' }), QueuesModule],
+  providers: [StreaksService, StreaksProcessor, PrismaService],
+  exports: [StreaksService],
+})
+export class StreaksModule implements OnModuleInit {
+  private readonly logger = new Logger(StreaksModule.name);
+
+  constructor(@InjectQueue('streaks') private streaksQueue: Queue) {}
+
+  onModuleInit() {
+    // Hourly, so each timezone is processed shortly after its own midnight
+    this.streaksQueue
+      .add('maintenance', {}, { repeat: { cron: '5 * * * *' }, jobId: 'streak-maintenance' })
+      .catch((error) => {
+        this.logger.error(`Failed to schedule streak maintenance: ${error.message}`);
+      });
+  }
+}
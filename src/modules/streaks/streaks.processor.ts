@@ -0,0 +1,23 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bull';
+import { Logger } from '@nestjs/common';
+import { StreaksService } from './streaks.service';
+
+@Processor('streaks')
+export class StreaksProcessor {
+  private readonly logger = new Logger(StreaksProcessor.name);
+
+  constructor(private streaksService: StreaksService) {}
+
+  @Process('maintenance')
+  async handleMaintenance(job: Job) {
+    this.logger.log(`Processing streak maintenance job ${job.id}`);
+
+    try {
+      return await this.streaksService.runMaintenance();
+    } catch (error) {
+      this.logger.error(`Streak maintenance failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,230 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { UserStreak } from '@prisma/client';
+import { StreaksService } from './streaks.service';
+import { PrismaService } from '@/database/prisma.service';
+import { NotificationQueue } from '../queues/notification.queue';
+
+describe('StreaksService', () => {
+  let service: StreaksService;
+  let mockPrismaService: any;
+  let mockNotificationQueue: any;
+
+  const config: Record<string, any> = {
+    'streak.reminderHour': 20,
+    'streak.freezeEveryDays': 7,
+    'streak.maxFreezeTokens': 2,
+  };
+
+  const day = (dateKey: string) => new Date(`${dateKey}T00:00:00.000Z`);
+
+  const user = (streak: Record<string, any> | null) => ({
+    id: 'user-id',
+    timezone: 'Asia/Ho_Chi_Minh',
+    dailyGoalMinutes: 30,
+    streak: streak && {
+      id: 'streak-id',
+      userId: 'user-id',
+      currentStreak: 0,
+      longestStreak: 0,
+      freezeTokens: 0,
+      lastActiveDate: null,
+      lastReminderDate: null,
+      ...streak,
+    },
+  });
+
+  // 2025-12-25 08:00 in Asia/Ho_Chi_Minh (UTC+7)
+  const now = new Date('2025-12-25T01:00:00.000Z');
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      user: {
+        findUnique: jest.fn(),
+      },
+      userStreak: {
+        create: jest.fn(),
+        update: jest.fn().mockImplementation(async ({ data }) => data),
+        findMany: jest.fn(),
+      },
+      trackingSession: {
+        aggregate: jest.fn().mockResolvedValue({ _sum: { duration: 1800 } }),
+      },
+    };
+
+    mockNotificationQueue = {
+      sendNotification: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StreaksService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+        { provide: NotificationQueue, useValue: mockNotificationQueue },
+      ],
+    }).compile();
+
+    service = module.get<StreaksService>(StreaksService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordActivity', () => {
+    it("should sum sessions stopped during the user's local day", async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(user({}));
+
+      await service.recordActivity('user-id', now);
+
+      expect(mockPrismaService.trackingSession.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            endTime: {
+              gte: new Date('2025-12-24T17:00:00.000Z'),
+              lt: new Date('2025-12-25T17:00:00.000Z'),
+            },
+          }),
+        }),
+      );
+    });
+
+    it('should not count the day before the daily goal is reached', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(user({}));
+      mockPrismaService.trackingSession.aggregate.mockResolvedValue({
+        _sum: { duration: 1799 },
+      });
+
+      await service.recordActivity('user-id', now);
+
+      expect(mockPrismaService.userStreak.update).not.toHaveBeenCalled();
+    });
+
+    it('should continue the streak from yesterday', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(
+        user({ currentStreak: 3, longestStreak: 3, lastActiveDate: day('2025-12-24') }),
+      );
+
+      const result = await service.recordActivity('user-id', now);
+
+      expect(result).toMatchObject({
+        currentStreak: 4,
+        longestStreak: 4,
+        lastActiveDate: day('2025-12-25'),
+      });
+    });
+
+    it('should count a manual entry for yesterday on yesterday', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(
+        user({ currentStreak: 3, longestStreak: 3, lastActiveDate: day('2025-12-23') }),
+      );
+
+      const result = await service.recordActivity('user-id', new Date('2025-12-24T10:00:00.000Z'));
+
+      expect(result).toMatchObject({ currentStreak: 4, lastActiveDate: day('2025-12-24') });
+    });
+
+    it('should leave the streak alone for days before the last counted day', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(
+        user({ currentStreak: 3, longestStreak: 3, lastActiveDate: day('2025-12-25') }),
+      );
+
+      await service.recordActivity('user-id', new Date('2025-12-23T10:00:00.000Z'));
+
+      expect(mockPrismaService.trackingSession.aggregate).not.toHaveBeenCalled();
+      expect(mockPrismaService.userStreak.update).not.toHaveBeenCalled();
+    });
+
+    it('should spend a freeze token on a missed day', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(
+        user({
+          currentStreak: 3,
+          longestStreak: 10,
+          freezeTokens: 1,
+          lastActiveDate: day('2025-12-23'),
+        }),
+      );
+
+      const result = await service.recordActivity('user-id', now);
+
+      expect(result).toMatchObject({ currentStreak: 4, longestStreak: 10, freezeTokens: 0 });
+    });
+
+    it('should restart the streak after missed days without tokens', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(
+        user({ currentStreak: 3, longestStreak: 3, lastActiveDate: day('2025-12-22') }),
+      );
+
+      const result = await service.recordActivity('user-id', now);
+
+      expect(result).toMatchObject({ currentStreak: 1, longestStreak: 3 });
+    });
+
+    it('should grant a freeze token every 7 days', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(
+        user({ currentStreak: 6, longestStreak: 6, lastActiveDate: day('2025-12-24') }),
+      );
+
+      const result = await service.recordActivity('user-id', now);
+
+      expect(result).toMatchObject({ currentStreak: 7, freezeTokens: 1 });
+    });
+  });
+
+  describe('runMaintenance', () => {
+    const streak = (overrides: Partial<UserStreak>) => ({
+      id: 'streak-id',
+      userId: 'user-id',
+      currentStreak: 5,
+      longestStreak: 5,
+      freezeTokens: 0,
+      lastActiveDate: day('2025-12-24'),
+      lastReminderDate: null,
+      user: { timezone: 'Asia/Ho_Chi_Minh', dailyGoalMinutes: 30 },
+      ...overrides,
+    });
+
+    it('should reset broken streaks', async () => {
+      mockPrismaService.userStreak.findMany.mockResolvedValue([
+        streak({ lastActiveDate: day('2025-12-23') }),
+      ]);
+
+      const result = await service.runMaintenance(now);
+
+      expect(result.reset).toBe(1);
+      expect(mockPrismaService.userStreak.update).toHaveBeenCalledWith({
+        where: { id: 'streak-id' },
+        data: expect.objectContaining({ currentStreak: 0 }),
+      });
+    });
+
+    it('should remind users in the evening of their local day', async () => {
+      // 20:30 in Asia/Ho_Chi_Minh
+      const evening = new Date('2025-12-25T13:30:00.000Z');
+      mockPrismaService.userStreak.findMany.mockResolvedValue([streak({})]);
+
+      const result = await service.runMaintenance(evening);
+
+      expect(result.reminded).toBe(1);
+      expect(mockNotificationQueue.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-id',
+          data: { currentStreak: 5, date: '2025-12-25' },
+        }),
+      );
+    });
+
+    it('should not remind before the reminder hour or twice a day', async () => {
+      mockPrismaService.userStreak.findMany.mockResolvedValueOnce([streak({})]);
+      await service.runMaintenance(now);
+
+      mockPrismaService.userStreak.findMany.mockResolvedValueOnce([
+        streak({ lastReminderDate: day('2025-12-25') }),
+      ]);
+      await service.runMaintenance(new Date('2025-12-25T14:30:00.000Z'));
+
+      expect(mockNotificationQueue.sendNotification).not.toHaveBeenCalled();
+    });
+  });
+});
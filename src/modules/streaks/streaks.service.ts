@@ -0,0 +1,250 @@
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SessionStatus, UserStreak } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { NotificationQueue } from '../queues/notification.queue';
+import {
+  addDaysToDateKey,
+  dateKeyToDate,
+  dateToDateKey,
+  diffDateKeys,
+  getLocalDayRange,
+  getLocalHour,
+  toLocalDateKey,
+} from '@/common/utils/timezone.util';
+
+const MAINTENANCE_BATCH_SIZE = 500;
+
+@Injectable()
+export class StreaksService {
+  private readonly logger = new Logger(StreaksService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private notificationQueue: NotificationQueue,
+  ) {}
+
+  /**
+   * Count the local day of `now` towards the streak once the user's stopped sessions
+   * reach the daily goal. Called after a tracking session is stopped, or with the end
+   * of a manual entry logged for an earlier day.
+   */
+  async recordActivity(userId: string, now: Date = new Date()) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, timezone: true, dailyGoalMinutes: true, streak: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const today = toLocalDateKey(now, user.timezone);
+    const streak =
+      user.streak ??
+      (await this.prisma.userStreak.create({
+        data: { userId },
+      }));
+
+    // Day already counted, or earlier than the last counted day
+    if (streak.lastActiveDate && dateToDateKey(streak.lastActiveDate) >= today) {
+      return streak;
+    }
+
+    const focusedSeconds = await this.getFocusedSeconds(userId, today, user.timezone);
+    if (focusedSeconds < user.dailyGoalMinutes * 60) {
+      return streak;
+    }
+
+    const kept = this.applyMissedDays(streak, today);
+    const continues =
+      kept.currentStreak > 0 &&
+      kept.lastActiveDate &&
+      dateToDateKey(kept.lastActiveDate) === addDaysToDateKey(today, -1);
+
+    const currentStreak = continues ? kept.currentStreak + 1 : 1;
+    let freezeTokens = kept.freezeTokens;
+
+    const freezeEveryDays = this.configService.get<number>('streak.freezeEveryDays');
+    const maxFreezeTokens = this.configService.get<number>('streak.maxFreezeTokens');
+    if (freezeEveryDays > 0 && currentStreak % freezeEveryDays === 0) {
+      freezeTokens = Math.min(freezeTokens + 1, maxFreezeTokens);
+    }
+
+    const updatedStreak = await this.prisma.userStreak.update({
+      where: { id: streak.id },
+      data: {
+        currentStreak,
+        longestStreak: Math.max(streak.longestStreak, currentStreak),
+        freezeTokens,
+        lastActiveDate: dateKeyToDate(today),
+      },
+    });
+
+    this.logger.log(`User ${userId} streak is now ${currentStreak} day(s)`);
+
+    return updatedStreak;
+  }
+
+  /**
+   * Current streak plus today's progress towards the daily goal
+   */
+  async getStreak(userId: string, now: Date = new Date()) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, timezone: true, dailyGoalMinutes: true, streak: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const today = toLocalDateKey(now, user.timezone);
+    const streak = user.streak ? this.applyMissedDays(user.streak, today) : null;
+    const focusedSeconds = await this.getFocusedSeconds(userId, today, user.timezone);
+    const goalSeconds = user.dailyGoalMinutes * 60;
+
+    return {
+      currentStreak: streak?.currentStreak ?? 0,
+      longestStreak: streak?.longestStreak ?? 0,
+      freezeTokens: streak?.freezeTokens ?? 0,
+      lastActiveDate: streak?.lastActiveDate ? dateToDateKey(streak.lastActiveDate) : null,
+      timezone: user.timezone,
+      dailyGoalMinutes: user.dailyGoalMinutes,
+      today: {
+        date: today,
+        focusedSeconds,
+        goalSeconds,
+        completed: focusedSeconds >= goalSeconds,
+      },
+    };
+  }
+
+  /**
+   * Reset broken streaks (spending freeze tokens first) and remind users whose
+   * streak is about to end. Runs hourly so every timezone is handled around its own midnight.
+   */
+  async runMaintenance(now: Date = new Date()) {
+    const reminderHour = this.configService.get<number>('streak.reminderHour');
+    let cursor: string | undefined;
+    let processed = 0;
+    let reset = 0;
+    let reminded = 0;
+
+    do {
+      const streaks = await this.prisma.userStreak.findMany({
+        where: { currentStreak: { gt: 0 } },
+        include: { user: { select: { timezone: true, dailyGoalMinutes: true } } },
+        orderBy: { id: 'asc' },
+        take: MAINTENANCE_BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      for (const streak of streaks) {
+        const today = toLocalDateKey(now, streak.user.timezone);
+        const kept = this.applyMissedDays(streak, today);
+
+        if (
+          kept.currentStreak !== streak.currentStreak ||
+          kept.freezeTokens !== streak.freezeTokens
+        ) {
+          await this.prisma.userStreak.update({
+            where: { id: streak.id },
+            data: {
+              currentStreak: kept.currentStreak,
+              freezeTokens: kept.freezeTokens,
+              lastActiveDate: kept.lastActiveDate,
+            },
+          });
+
+          if (kept.currentStreak === 0) {
+            reset++;
+          }
+        }
+
+        const doneToday = kept.lastActiveDate && dateToDateKey(kept.lastActiveDate) === today;
+        const remindedToday =
+          streak.lastReminderDate && dateToDateKey(streak.lastReminderDate) === today;
+
+        if (
+          kept.currentStreak > 0 &&
+          !doneToday &&
+          !remindedToday &&
+          getLocalHour(now, streak.user.timezone) >= reminderHour
+        ) {
+          await this.notificationQueue.sendNotification({
+            userId: streak.userId,
+            type: 'push',
+            title: 'Your streak is about to end',
+            message: `Study ${streak.user.dailyGoalMinutes} minutes today to keep your ${kept.currentStreak}-day streak`,
+            data: { currentStreak: kept.currentStreak, date: today },
+          });
+
+          await this.prisma.userStreak.update({
+            where: { id: streak.id },
+            data: { lastReminderDate: dateKeyToDate(today) },
+          });
+
+          reminded++;
+        }
+      }
+
+      processed += streaks.length;
+      cursor = streaks.length === MAINTENANCE_BATCH_SIZE ? streaks[streaks.length - 1].id : null;
+    } while (cursor);
+
+    this.logger.log(
+      `Streak maintenance: ${processed} checked, ${reset} reset, ${reminded} reminded`,
+    );
+
+    return { processed, reset, reminded };
+  }
+
+  /**
+   * Total duration of sessions stopped during the given local day
+   */
+  private async getFocusedSeconds(userId: string, dateKey: string, timezone: string) {
+    const { start, end } = getLocalDayRange(dateKey, timezone);
+
+    const result = await this.prisma.trackingSession.aggregate({
+      where: {
+        userId,
+        status: SessionStatus.stopped,
+        endTime: { gte: start, lt: end },
+      },
+      _sum: { duration: true },
+    });
+
+    return result._sum.duration || 0;
+  }
+
+  /**
+   * Spend freeze tokens on fully missed days before `today`, or break the streak
+   * when there are not enough tokens. Pure - the caller persists the result.
+   */
+  private applyMissedDays(
+    streak: Pick<UserStreak, 'currentStreak' | 'longestStreak' | 'freezeTokens' | 'lastActiveDate'>,
+    today: string,
+  ) {
+    if (streak.currentStreak === 0 || !streak.lastActiveDate) {
+      return streak;
+    }
+
+    const missedDays = diffDateKeys(today, dateToDateKey(streak.lastActiveDate)) - 1;
+
+    if (missedDays <= 0) {
+      return streak;
+    }
+
+    if (streak.freezeTokens >= missedDays) {
+      return {
+        ...streak,
+        freezeTokens: streak.freezeTokens - missedDays,
+        lastActiveDate: dateKeyToDate(addDaysToDateKey(today, -1)),
+      };
+    }
+
+    return { ...streak, currentStreak: 0 };
+  }
+}
@@ -0,0 +1,25 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bull';
+import { Logger } from '@nestjs/common';
+import { DeadlineReminderJobData, DeadlineReminderService } from './deadline-reminder.service';
+
+@Processor('reminder')
+export class DeadlineReminderProcessor {
+  private readonly logger = new Logger(DeadlineReminderProcessor.name);
+
+  constructor(private deadlineReminderService: DeadlineReminderService) {}
+
+  @Process('deadline-reminder')
+  async handleDeadlineReminder(job: Job<DeadlineReminderJobData>) {
+    this.logger.log(`Processing deadline reminder job ${job.id} for task ${job.data.taskId}`);
+
+    try {
+      return await this.deadlineReminderService.deliver(job.data);
+    } catch (error) {
+      this.logger.error(
+        `Failed to send deadline reminder for task ${job.data.taskId}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+}
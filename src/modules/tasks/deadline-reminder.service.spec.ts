@@ -0,0 +1,163 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { getQueueToken } from '@nestjs/bull';
+import { Prisma, Task, TaskStatus } from '@prisma/client';
+import { DeadlineReminderService } from './deadline-reminder.service';
+import { PrismaService } from '@/database/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('DeadlineReminderService', () => {
+  let service: DeadlineReminderService;
+  let mockPrismaService: any;
+  let mockNotificationsService: any;
+  let mockQueue: any;
+
+  const config: Record<string, any> = {
+    'reminder.deadlineOffsetsMinutes': [1440, 60],
+  };
+
+  const now = new Date('2025-12-24T08:00:00.000Z');
+  const deadline = new Date('2025-12-25T17:00:00.000Z');
+
+  const task = (overrides: Partial<Task> = {}) => ({
+    id: 'task-id',
+    name: 'Write essay',
+    userId: 'user-id',
+    deadline,
+    status: TaskStatus.PLANNED,
+    estimateHours: 2,
+    totalTimeSpent: 0,
+    isRecurringTemplate: false,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      task: {
+        findUnique: jest.fn(),
+      },
+    };
+
+    mockNotificationsService = {
+      sendToPreferredChannels: jest.fn(),
+    };
+
+    mockQueue = {
+      add: jest.fn().mockResolvedValue({}),
+      removeJobs: jest.fn().mockResolvedValue(undefined),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeadlineReminderService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+        { provide: NotificationsService, useValue: mockNotificationsService },
+        { provide: getQueueToken('reminder'), useValue: mockQueue },
+      ],
+    }).compile();
+
+    service = module.get<DeadlineReminderService>(DeadlineReminderService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('schedule', () => {
+    it('should replace pending reminders with one job per offset', async () => {
+      await service.schedule(task(), now);
+
+      expect(mockQueue.removeJobs).toHaveBeenCalledWith('deadline-reminder:task-id:*');
+
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'deadline-reminder',
+        { taskId: 'task-id', offsetMinutes: 1440, deadline: deadline.toISOString() },
+        expect.objectContaining({
+          jobId: `deadline-reminder:task-id:${deadline.getTime()}:1440`,
+          delay: 9 * 60 * 60 * 1000,
+        }),
+      );
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'deadline-reminder',
+        expect.objectContaining({ offsetMinutes: 60 }),
+        expect.objectContaining({ delay: 32 * 60 * 60 * 1000 }),
+      );
+    });
+
+    it('should skip offsets that are already past', async () => {
+      await service.schedule(task({ deadline: new Date('2025-12-24T12:00:00.000Z') }), now);
+
+      expect(mockQueue.add).toHaveBeenCalledTimes(1);
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'deadline-reminder',
+        expect.objectContaining({ offsetMinutes: 60 }),
+        expect.any(Object),
+      );
+    });
+
+    it('should only cancel reminders of done tasks and templates', async () => {
+      await service.schedule(task({ status: TaskStatus.DONE }), now);
+      await service.schedule(task({ isRecurringTemplate: true }), now);
+
+      expect(mockQueue.removeJobs).toHaveBeenCalledTimes(2);
+      expect(mockQueue.add).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancel', () => {
+    it('should not throw when the queue rejects the removal', async () => {
+      mockQueue.removeJobs.mockRejectedValue(new Error('Redis unavailable'));
+
+      await expect(service.cancel('task-id')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('deliver', () => {
+    const job = { taskId: 'task-id', offsetMinutes: 1440, deadline: deadline.toISOString() };
+    // 24h before the deadline
+    const dueAt = new Date('2025-12-24T17:00:00.000Z');
+
+    it('should send a regular reminder when the task can be finished in time', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue(task());
+
+      const result = await service.deliver(job, dueAt);
+
+      expect(result).toEqual({ sent: true, atRisk: false });
+      expect(mockNotificationsService.sendToPreferredChannels).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-id',
+          title: '"Write essay" is due in 1d',
+          data: expect.objectContaining({ atRisk: false, remainingSeconds: 7200 }),
+        }),
+      );
+    });
+
+    it('should send the at-risk variant when more work is left than time', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue(
+        task({ estimateHours: new Prisma.Decimal(30) }),
+      );
+
+      const result = await service.deliver(job, dueAt);
+
+      expect(result).toEqual({ sent: true, atRisk: true });
+      expect(mockNotificationsService.sendToPreferredChannels).toHaveBeenCalledWith(
+        expect.objectContaining({ title: '"Write essay" is at risk' }),
+      );
+    });
+
+    it('should skip stale reminders', async () => {
+      mockPrismaService.task.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(task({ status: TaskStatus.DONE }))
+        .mockResolvedValueOnce(task({ archivedAt: new Date('2025-12-24T10:00:00.000Z') }))
+        .mockResolvedValueOnce(task({ deadline: new Date('2025-12-26T17:00:00.000Z') }));
+
+      for (let i = 0; i < 4; i++) {
+        expect(await service.deliver(job, dueAt)).toEqual({ sent: false });
+      }
+
+      expect(mockNotificationsService.sendToPreferredChannels).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,163 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { TaskStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface DeadlineReminderJobData {
+  taskId: string;
+  offsetMinutes: number;
+  // Deadline the reminder was scheduled for; a moved deadline makes the job stale
+  deadline: string;
+}
+
+@Injectable()
+export class DeadlineReminderService {
+  private readonly logger = new Logger(DeadlineReminderService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private notificationsService: NotificationsService,
+    @InjectQueue('reminder') private reminderQueue: Queue,
+  ) {}
+
+  /**
+   * (Re)schedule the reminders of a task for its current deadline.
+   * Done tasks and recurring templates get none.
+   */
+  async schedule(
+    task: { id: string; deadline: Date; status: TaskStatus; isRecurringTemplate?: boolean },
+    now: Date = new Date(),
+  ) {
+    await this.cancel(task.id);
+
+    if (task.status === TaskStatus.DONE || task.isRecurringTemplate) {
+      return;
+    }
+
+    for (const offsetMinutes of this.getOffsets()) {
+      const delay = task.deadline.getTime() - offsetMinutes * MINUTE_MS - now.getTime();
+
+      if (delay <= 0) {
+        continue;
+      }
+
+      const data: DeadlineReminderJobData = {
+        taskId: task.id,
+        offsetMinutes,
+        deadline: task.deadline.toISOString(),
+      };
+
+      await this.reminderQueue
+        .add('deadline-reminder', data, {
+          jobId: this.getJobId(task.id, task.deadline, offsetMinutes),
+          delay,
+          attempts: 3,
+          backoff: { type: 'exponential', delay: 2000 },
+          removeOnComplete: true,
+          removeOnFail: true,
+        })
+        .catch((error) => {
+          this.logger.error(`Failed to schedule reminder for task ${task.id}: ${error.message}`);
+        });
+    }
+  }
+
+  /**
+   * Remove the pending reminders of a task (completed, deleted or rescheduled).
+   * Matches on the job id prefix so reminders for old deadlines and offsets
+   * that are no longer configured are removed too.
+   */
+  async cancel(taskId: string) {
+    try {
+      await this.reminderQueue.removeJobs(`${this.getJobIdPrefix(taskId)}*`);
+    } catch (error) {
+      this.logger.error(`Failed to cancel reminders for task ${taskId}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Send a due reminder. Tasks that can no longer be finished in time at their
+   * current pace get the at-risk variant.
+   */
+  async deliver(data: DeadlineReminderJobData, now: Date = new Date()) {
+    const task = await this.prisma.task.findUnique({
+      where: { id: data.taskId },
+      select: {
+        id: true,
+        name: true,
+        userId: true,
+        deadline: true,
+        status: true,
+        estimateHours: true,
+        totalTimeSpent: true,
+        isRecurringTemplate: true,
+        archivedAt: true,
+      },
+    });
+
+    // Deleted, archived, finished or moved since the reminder was scheduled
+    if (
+      !task ||
+      task.archivedAt ||
+      task.status === TaskStatus.DONE ||
+      task.isRecurringTemplate ||
+      task.deadline.toISOString() !== data.deadline
+    ) {
+      return { sent: false };
+    }
+
+    const remainingSeconds = Math.max(Number(task.estimateHours) * 3600 - task.totalTimeSpent, 0);
+    const secondsLeft = Math.max(Math.floor((task.deadline.getTime() - now.getTime()) / 1000), 0);
+    const atRisk = remainingSeconds > secondsLeft;
+    const timeLeft = this.formatDuration(secondsLeft);
+
+    await this.notificationsService.sendToPreferredChannels({
+      userId: task.userId,
+      title: atRisk ? `"${task.name}" is at risk` : `"${task.name}" is due in ${timeLeft}`,
+      message: atRisk
+        ? `About ${this.formatDuration(remainingSeconds)} of work is left but the deadline is in ${timeLeft}`
+        : `The deadline of "${task.name}" is in ${timeLeft}`,
+      data: {
+        taskId: task.id,
+        deadline: data.deadline,
+        offsetMinutes: data.offsetMinutes,
+        atRisk,
+        remainingSeconds,
+        secondsLeft,
+      },
+    });
+
+    return { sent: true, atRisk };
+  }
+
+  private getOffsets(): number[] {
+    return this.configService.get<number[]>('reminder.deadlineOffsetsMinutes') || [];
+  }
+
+  // The deadline is part of the id so a reminder that could not be removed
+  // (already running) does not swallow the one scheduled for the new deadline
+  private getJobId(taskId: string, deadline: Date, offsetMinutes: number) {
+    return `${this.getJobIdPrefix(taskId)}${deadline.getTime()}:${offsetMinutes}`;
+  }
+
+  private getJobIdPrefix(taskId: string) {
+    return `deadline-reminder:${taskId}:`;
+  }
+
+  private formatDuration(seconds: number) {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+
+    if (hours >= 24) {
+      return `${Math.round(hours / 24)}d`;
+    }
+
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  }
+}
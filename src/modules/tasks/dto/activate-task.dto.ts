@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsUUID, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { PomodoroSettingsDto } from '../../tracking/dto/pomodoro-settings.dto';
+
+export class ActivateTaskDto {
+  @ApiProperty({
+    description: 'Track the session against this subtask of the task',
+    example: 'subtask-uuid',
+    required: false,
+  })
+  @IsUUID()
+  @IsOptional()
+  subtaskId?: string;
+
+  @ApiProperty({
+    description:
+      'Run the session in Pomodoro mode. The server switches between work and break phases; pass `{}` for the defaults.',
+    type: PomodoroSettingsDto,
+    required: false,
+  })
+  @ValidateNested()
+  @Type(() => PomodoroSettingsDto)
+  @IsOptional()
+  pomodoro?: PomodoroSettingsDto;
+}
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty, IsNumber, IsOptional, IsInt, Min, MaxLength } from 'class-validator';
+
+export class CreateSubtaskDto {
+  @ApiProperty({ example: 'Write login endpoint' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ example: 1.5, required: false, description: 'Estimated hours for this item' })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsOptional()
+  @Min(0)
+  estimateHours?: number;
+
+  @ApiProperty({ example: 0, required: false, description: 'Defaults to the end of the list' })
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  position?: number;
+}
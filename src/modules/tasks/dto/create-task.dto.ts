@@ -1,5 +1,19 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsNotEmpty, IsNumber, IsDateString, Min, MaxLength } from 'class-validator';
+import {
+  IsString,
+  IsNotEmpty,
+  IsNumber,
+  IsDateString,
+  IsOptional,
+  IsUUID,
+  IsArray,
+  IsEnum,
+  ArrayUnique,
+  Min,
+  Max,
+  MaxLength,
+} from 'class-validator';
+import { TaskPriority } from '@prisma/client';
 
 export class CreateTaskDto {
   @ApiProperty({ example: 'Build authentication module' })
@@ -17,4 +31,56 @@ export class CreateTaskDto {
   @IsDateString()
   @IsNotEmpty()
   deadline: string;
+
+  @ApiProperty({ enum: TaskPriority, required: false, default: TaskPriority.MEDIUM })
+  @IsEnum(TaskPriority)
+  @IsOptional()
+  priority?: TaskPriority;
+
+  @ApiProperty({
+    example: 0.5,
+    required: false,
+    description:
+      'Share of progress coming from checklist items: 0 = time only (default), 1 = checklist only',
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  @Max(1)
+  checklistWeight?: number;
+
+  @ApiProperty({
+    example: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+    required: false,
+    description:
+      'RFC 5545 RRULE. Makes the task a recurring series template; the deadline is the first occurrence (DTSTART).',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  recurrenceRule?: string;
+
+  @ApiProperty({ example: 'project-id', required: false })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string;
+
+  @ApiProperty({ example: ['label-id'], required: false, type: [String] })
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  labelIds?: string[];
+
+  @ApiProperty({
+    example: ['task-id'],
+    required: false,
+    type: [String],
+    description: 'Tasks that must be DONE before this task can be activated',
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  blockedByIds?: string[];
 }
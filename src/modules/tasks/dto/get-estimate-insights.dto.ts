@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsEnum, IsOptional, Matches } from 'class-validator';
+import { AnalyticsGroupBy } from '../../tracking/dto/get-analytics.dto';
+
+export class GetEstimateInsightsDto {
+  @ApiProperty({
+    required: false,
+    example: '2025-10-01',
+    description:
+      "Only tasks completed on or after this day (user's timezone). Defaults to all history",
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'from must be a YYYY-MM-DD date' })
+  @IsDateString({ strict: true }, { message: 'from must be a valid calendar date' })
+  from?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-12-31',
+    description: "Only tasks completed on or before this day (user's timezone)",
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'to must be a YYYY-MM-DD date' })
+  @IsDateString({ strict: true }, { message: 'to must be a valid calendar date' })
+  to?: string;
+
+  @ApiProperty({
+    enum: AnalyticsGroupBy,
+    required: false,
+    default: AnalyticsGroupBy.MONTH,
+    description: 'Period of the bias timeline, by completion date (weeks start on Monday)',
+  })
+  @IsOptional()
+  @IsEnum(AnalyticsGroupBy)
+  groupBy?: AnalyticsGroupBy = AnalyticsGroupBy.MONTH;
+}
@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsEnum, IsOptional } from 'class-validator';
+
+export enum ImportFormat {
+  CSV = 'csv',
+  JSON = 'json',
+}
+
+export class ImportTasksDto {
+  @ApiProperty({
+    example: true,
+    required: false,
+    default: false,
+    description: 'Validate the file and preview the tasks without creating them',
+  })
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @ApiProperty({
+    enum: ImportFormat,
+    required: false,
+    description: 'File format. Detected from the file name or content type when omitted',
+  })
+  @IsOptional()
+  @IsEnum(ImportFormat)
+  format?: ImportFormat;
+}
@@ -1,7 +1,44 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsOptional, IsString, IsInt, IsEnum, Min, Max } from 'class-validator';
-import { Type } from 'class-transformer';
-import { TaskStatus } from '@prisma/client';
+import {
+  IsOptional,
+  IsString,
+  IsInt,
+  IsEnum,
+  IsUUID,
+  IsDateString,
+  IsBoolean,
+  Min,
+  Max,
+} from 'class-validator';
+import { Transform, Type } from 'class-transformer';
+import { TaskPriority, TaskStatus } from '@prisma/client';
+
+export enum TemplateFilter {
+  EXCLUDE = 'exclude',
+  INCLUDE = 'include',
+  ONLY = 'only',
+}
+
+export enum ArchiveFilter {
+  EXCLUDE = 'exclude',
+  INCLUDE = 'include',
+  ONLY = 'only',
+}
+
+export enum TaskSortBy {
+  CREATED_AT = 'createdAt',
+  DEADLINE = 'deadline',
+  PROGRESS = 'progress',
+  REMAINING_ESTIMATE = 'remainingEstimate',
+  PRIORITY = 'priority',
+  // Manual order within a status column (board view)
+  POSITION = 'position',
+}
+
+export enum SortOrder {
+  ASC = 'asc',
+  DESC = 'desc',
+}
 
 export class QueryTasksDto {
   @ApiProperty({ required: false, default: 1, minimum: 1 })
@@ -29,8 +66,82 @@ export class QueryTasksDto {
   @Type(() => Boolean)
   isActive?: boolean;
 
+  @ApiProperty({ enum: TaskPriority, required: false })
+  @IsEnum(TaskPriority)
+  @IsOptional()
+  priority?: TaskPriority;
+
   @ApiProperty({ example: 'authentication', required: false })
   @IsString()
   @IsOptional()
   search?: string;
+
+  @ApiProperty({
+    enum: TemplateFilter,
+    required: false,
+    default: TemplateFilter.EXCLUDE,
+    description: 'Show or hide recurring series templates (occurrences are always listed)',
+  })
+  @IsEnum(TemplateFilter)
+  @IsOptional()
+  templates?: TemplateFilter = TemplateFilter.EXCLUDE;
+
+  @ApiProperty({
+    enum: ArchiveFilter,
+    required: false,
+    default: ArchiveFilter.EXCLUDE,
+    description: 'Show or hide archived tasks',
+  })
+  @IsEnum(ArchiveFilter)
+  @IsOptional()
+  archived?: ArchiveFilter = ArchiveFilter.EXCLUDE;
+
+  @ApiProperty({ example: 'label-id', required: false })
+  @IsUUID()
+  @IsOptional()
+  labelId?: string;
+
+  @ApiProperty({ example: 'project-id', required: false })
+  @IsUUID()
+  @IsOptional()
+  projectId?: string;
+
+  @ApiProperty({ example: '2025-12-01', required: false, description: 'Deadline on or after' })
+  @IsDateString()
+  @IsOptional()
+  deadlineFrom?: string;
+
+  @ApiProperty({ example: '2025-12-31', required: false, description: 'Deadline on or before' })
+  @IsDateString()
+  @IsOptional()
+  deadlineTo?: string;
+
+  @ApiProperty({
+    example: true,
+    required: false,
+    description: 'true = past the deadline and not done, false = everything else',
+  })
+  @IsOptional()
+  @Transform(({ obj, key }) => obj[key] === true || obj[key] === 'true')
+  @IsBoolean()
+  overdue?: boolean;
+
+  @ApiProperty({
+    enum: TaskSortBy,
+    required: false,
+    description: 'Defaults to active tasks first, then newest',
+  })
+  @IsEnum(TaskSortBy)
+  @IsOptional()
+  sortBy?: TaskSortBy;
+
+  @ApiProperty({
+    enum: SortOrder,
+    required: false,
+    description:
+      'Defaults to asc for deadline, remainingEstimate and position, desc otherwise (priority: highest first)',
+  })
+  @IsEnum(SortOrder)
+  @IsOptional()
+  sortOrder?: SortOrder;
 }
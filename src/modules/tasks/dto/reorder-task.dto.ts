@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsInt, IsUUID, Min } from 'class-validator';
+import { TaskStatus } from '@prisma/client';
+
+export class ReorderTaskDto {
+  @ApiProperty({ example: 'task-id' })
+  @IsUUID()
+  taskId: string;
+
+  @ApiProperty({
+    enum: TaskStatus,
+    example: TaskStatus.PLANNED,
+    description:
+      'Target column. Moving into ACTIVE activates the task, moving into DONE completes it',
+  })
+  @IsEnum(TaskStatus)
+  status: TaskStatus;
+
+  @ApiProperty({
+    example: 0,
+    description: 'Zero-based index in the target column; larger values move it to the end',
+  })
+  @IsInt()
+  @Min(0)
+  index: number;
+}
@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNumber, IsOptional, IsInt, IsBoolean, Min, MaxLength } from 'class-validator';
+
+export class UpdateSubtaskDto {
+  @ApiProperty({ example: 'Write login endpoint', required: false })
+  @IsString()
+  @IsOptional()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiProperty({ example: 1.5, required: false, nullable: true })
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsOptional()
+  @Min(0)
+  estimateHours?: number | null;
+
+  @ApiProperty({ example: true, required: false })
+  @IsBoolean()
+  @IsOptional()
+  isDone?: boolean;
+
+  @ApiProperty({ example: 1, required: false })
+  @IsInt()
+  @IsOptional()
+  @Min(0)
+  position?: number;
+}
@@ -5,10 +5,20 @@ import {
   IsNumber,
   IsDateString,
   IsEnum,
+  IsUUID,
+  IsArray,
+  ArrayUnique,
+  ValidateIf,
   Min,
+  Max,
   MaxLength,
 } from 'class-validator';
-import { TaskStatus } from '@prisma/client';
+import { TaskPriority, TaskStatus } from '@prisma/client';
+
+export enum RecurrenceEditScope {
+  THIS = 'this',
+  FUTURE = 'future',
+}
 
 export class UpdateTaskDto {
   @ApiProperty({ example: 'Build authentication module', required: false })
@@ -32,4 +42,78 @@ export class UpdateTaskDto {
   @IsEnum(TaskStatus)
   @IsOptional()
   status?: TaskStatus;
+
+  @ApiProperty({ enum: TaskPriority, required: false })
+  @IsEnum(TaskPriority)
+  @IsOptional()
+  priority?: TaskPriority;
+
+  @ApiProperty({
+    example: 0.5,
+    required: false,
+    description:
+      'Share of progress coming from checklist items: 0 = time only (default), 1 = checklist only',
+  })
+  @IsNumber()
+  @IsOptional()
+  @Min(0)
+  @Max(1)
+  checklistWeight?: number;
+
+  @ApiProperty({
+    example: 'FREQ=WEEKLY;BYDAY=MO,WE,FR',
+    required: false,
+    description: 'New RRULE for a recurring series (template, or occurrence with scope "future")',
+  })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  recurrenceRule?: string;
+
+  @ApiProperty({
+    example: 'project-id',
+    required: false,
+    nullable: true,
+    description: 'Move the task to a project, or null to remove it from its project',
+  })
+  @ValidateIf((_, value) => value !== null)
+  @IsUUID()
+  @IsOptional()
+  projectId?: string | null;
+
+  @ApiProperty({
+    example: ['label-id'],
+    required: false,
+    type: [String],
+    description: 'Replaces all labels of the task',
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  labelIds?: string[];
+
+  @ApiProperty({
+    example: ['task-id'],
+    required: false,
+    type: [String],
+    description:
+      'Replaces the tasks this task is blocked by. Dependencies that would form a cycle are rejected',
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  @IsOptional()
+  blockedByIds?: string[];
+
+  @ApiProperty({
+    enum: RecurrenceEditScope,
+    required: false,
+    default: RecurrenceEditScope.THIS,
+    description:
+      'For occurrences of a recurring task: edit only this occurrence or all future ones',
+  })
+  @IsEnum(RecurrenceEditScope)
+  @IsOptional()
+  scope?: RecurrenceEditScope;
 }
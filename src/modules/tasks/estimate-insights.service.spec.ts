@@ -0,0 +1,177 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Label, Prisma, Task } from '@prisma/client';
+import { EstimateInsightsService } from './estimate-insights.service';
+import { PrismaService } from '@/database/prisma.service';
+import { AnalyticsGroupBy } from '../tracking/dto/get-analytics.dto';
+
+describe('EstimateInsightsService', () => {
+  let service: EstimateInsightsService;
+  let mockPrismaService: any;
+
+  const math = { id: 'label-math', name: 'Math', color: '#4CAF50' };
+  const reading = { id: 'label-reading', name: 'Reading', color: '#2196F3' };
+
+  // Estimated hours and the hours actually spent
+  const task = (
+    id: string,
+    estimate: number,
+    actual: number,
+    overrides: Partial<Task> & {
+      labels?: Pick<Label, 'id' | 'name' | 'color'>[];
+      recurrenceParent?: Pick<Task, 'name'> | null;
+    } = {},
+  ) => ({
+    id,
+    name: `Task ${id}`,
+    estimateHours: new Prisma.Decimal(estimate),
+    totalTimeSpent: actual * 3600,
+    completedAt: new Date('2025-12-10T03:00:00.000Z'),
+    updatedAt: new Date('2025-12-10T03:00:00.000Z'),
+    recurrenceParentId: null,
+    recurrenceParent: null,
+    labels: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ timezone: 'Asia/Ho_Chi_Minh' }),
+      },
+      task: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [EstimateInsightsService, { provide: PrismaService, useValue: mockPrismaService }],
+    }).compile();
+
+    service = module.get<EstimateInsightsService>(EstimateInsightsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getInsights', () => {
+    it('should compute the bias overall, per label and per period', async () => {
+      const series = {
+        recurrenceParentId: 'template-id',
+        recurrenceParent: { name: 'Problem set' },
+      };
+      mockPrismaService.task.findMany.mockResolvedValue([
+        task('1', 2, 3, { labels: [math], ...series }),
+        task('2', 1, 2, { labels: [math], ...series }),
+        task('3', 4, 6, { labels: [math, reading], ...series }),
+        task('4', 2, 2, {
+          labels: [reading],
+          completedAt: new Date('2025-11-30T18:00:00.000Z'),
+        }),
+      ]);
+
+      const result = await service.getInsights({ groupBy: AnalyticsGroupBy.MONTH }, 'user-id');
+
+      expect(result.overall).toEqual({
+        taskCount: 4,
+        estimatedSeconds: 9 * 3600,
+        actualSeconds: 13 * 3600,
+        medianRatio: 1.5,
+        totalRatio: 1.44,
+        underestimatedCount: 3,
+        accurateCount: 1,
+        overestimatedCount: 0,
+        message: 'You usually take 1.5× your estimate',
+      });
+      expect(
+        result.byLabel.map((label) => [label.name, label.taskCount, label.medianRatio]),
+      ).toEqual([
+        ['Math', 3, 1.5],
+        ['Reading', 2, 1.25],
+      ]);
+      // 2025-11-30T18:00Z is already December 1st in UTC+7
+      expect(result.byPeriod).toEqual([
+        expect.objectContaining({ period: '2025-12', taskCount: 4 }),
+      ]);
+      expect(result.chronicallyUnderestimated.series).toEqual([
+        expect.objectContaining({ seriesId: 'template-id', name: 'Problem set', medianRatio: 1.5 }),
+      ]);
+      expect(result.chronicallyUnderestimated.labels.map((label) => label.name)).toEqual(['Math']);
+    });
+
+    it('should filter by completion date in the user timezone', async () => {
+      await service.getInsights({ from: '2025-12-01', to: '2025-12-31' }, 'user-id');
+
+      const range = {
+        gte: new Date('2025-11-30T17:00:00.000Z'),
+        lt: new Date('2025-12-31T17:00:00.000Z'),
+      };
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: 'DONE',
+            isRecurringTemplate: false,
+            OR: [{ completedAt: range }, { completedAt: null, updatedAt: range }],
+          }),
+        }),
+      );
+    });
+
+    it('should reject invalid ranges', async () => {
+      await expect(
+        service.getInsights({ from: '2025-12-28', to: '2025-12-22' }, 'user-id'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('suggestEstimate', () => {
+    it('should scale the estimate by the typical ratio of tasks with the same labels', async () => {
+      mockPrismaService.task.findMany.mockResolvedValueOnce([
+        task('1', 1, 1.4),
+        task('2', 2, 2.8),
+        task('3', 1, 1.5),
+      ]);
+
+      const result = await service.suggestEstimate('user-id', 3, ['label-math']);
+
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ labels: { some: { id: { in: ['label-math'] } } } }),
+        }),
+      );
+      expect(result).toEqual({
+        ratio: 1.4,
+        suggestedEstimateHours: 4.2,
+        basedOn: 'labels',
+        sampleSize: 3,
+        message: 'You usually take 1.4× your estimate',
+      });
+    });
+
+    it('should fall back to all tasks when few have the labels', async () => {
+      mockPrismaService.task.findMany
+        .mockResolvedValueOnce([task('1', 1, 2)])
+        .mockResolvedValueOnce([task('1', 1, 2), task('2', 1, 2), task('3', 1, 0.5)]);
+
+      const result = await service.suggestEstimate('user-id', 1, ['label-math']);
+
+      expect(result).toEqual(expect.objectContaining({ basedOn: 'all', ratio: 2 }));
+    });
+
+    it('should not suggest without enough history or when estimates are accurate', async () => {
+      mockPrismaService.task.findMany.mockResolvedValueOnce([task('1', 1, 2), task('2', 1, 2)]);
+
+      await expect(service.suggestEstimate('user-id', 1)).resolves.toBeNull();
+
+      mockPrismaService.task.findMany.mockResolvedValueOnce([
+        task('1', 1, 1.1),
+        task('2', 1, 0.9),
+        task('3', 1, 1),
+      ]);
+
+      await expect(service.suggestEstimate('user-id', 1)).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,266 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, TaskStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { AnalyticsGroupBy } from '../tracking/dto/get-analytics.dto';
+import { GetEstimateInsightsDto } from './dto/get-estimate-insights.dto';
+import {
+  diffDateKeys,
+  getLocalDayRange,
+  getLocalDayStart,
+  getPeriodKey,
+  toLocalDateKey,
+} from '@/common/utils/timezone.util';
+
+// Fewer completed tasks than this say nothing about a user's estimates
+const MIN_SAMPLE_SIZE = 3;
+// Suggestions follow recent habits rather than the whole history
+const SUGGESTION_SAMPLE_SIZE = 50;
+// Actual / estimated ratios within this band count as accurate
+const ACCURATE_MIN_RATIO = 0.8;
+const ACCURATE_MAX_RATIO = 1.2;
+// Series and labels that typically take this much longer than estimated are flagged
+const CHRONIC_UNDERESTIMATE_RATIO = 1.25;
+
+const ESTIMATED_TASK_SELECT = {
+  id: true,
+  name: true,
+  estimateHours: true,
+  totalTimeSpent: true,
+  completedAt: true,
+  updatedAt: true,
+  recurrenceParentId: true,
+  recurrenceParent: { select: { name: true } },
+  labels: { select: { id: true, name: true, color: true } },
+} as const;
+
+type EstimatedTask = Prisma.TaskGetPayload<{ select: typeof ESTIMATED_TASK_SELECT }>;
+
+interface EstimateSample {
+  task: EstimatedTask;
+  estimatedSeconds: number;
+  actualSeconds: number;
+  ratio: number;
+}
+
+@Injectable()
+export class EstimateInsightsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * How far actual time on completed tasks is from their estimates: overall, per label
+   * and per completion period, plus the series and labels that keep running over
+   */
+  async getInsights(query: GetEstimateInsightsDto, userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (query.from && query.to && diffDateKeys(query.to, query.from) < 0) {
+      throw new BadRequestException('`from` must not be after `to`');
+    }
+
+    const range = {
+      ...(query.from && { gte: getLocalDayStart(query.from, user.timezone) }),
+      ...(query.to && { lt: getLocalDayRange(query.to, user.timezone).end }),
+    };
+    const groupBy = query.groupBy || AnalyticsGroupBy.MONTH;
+
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        ...this.getCompletedWhere(userId),
+        // Tasks completed before completion times were recorded fall back to their last change
+        ...((query.from || query.to) && {
+          OR: [{ completedAt: range }, { completedAt: null, updatedAt: range }],
+        }),
+      },
+      select: ESTIMATED_TASK_SELECT,
+    });
+    const samples = tasks.map((task) => this.toSample(task));
+
+    const byLabel = new Map<string, EstimateSample[]>();
+    const bySeries = new Map<string, EstimateSample[]>();
+    const byPeriod = new Map<string, EstimateSample[]>();
+
+    for (const sample of samples) {
+      for (const label of sample.task.labels) {
+        this.addTo(byLabel, label.id, sample);
+      }
+
+      if (sample.task.recurrenceParentId) {
+        this.addTo(bySeries, sample.task.recurrenceParentId, sample);
+      }
+
+      const completedAt = sample.task.completedAt ?? sample.task.updatedAt;
+      this.addTo(
+        byPeriod,
+        getPeriodKey(toLocalDateKey(completedAt, user.timezone), groupBy),
+        sample,
+      );
+    }
+
+    const labels = [...byLabel.entries()].map(([labelId, group]) => {
+      const label = group[0].task.labels.find((candidate) => candidate.id === labelId);
+      return { labelId, name: label.name, color: label.color, ...this.summarize(group) };
+    });
+    const series = [...bySeries.entries()].map(([seriesId, group]) => ({
+      seriesId,
+      name: group[0].task.recurrenceParent?.name ?? group[0].task.name,
+      ...this.summarize(group),
+    }));
+
+    const isChronic = (group: { taskCount: number; medianRatio: number }) =>
+      group.taskCount >= MIN_SAMPLE_SIZE && group.medianRatio >= CHRONIC_UNDERESTIMATE_RATIO;
+
+    return {
+      range: {
+        from: query.from ?? null,
+        to: query.to ?? null,
+        timezone: user.timezone,
+        groupBy,
+      },
+      overall: {
+        ...this.summarize(samples),
+        message: this.getBiasMessage(samples),
+      },
+      byLabel: labels.sort((a, b) => b.taskCount - a.taskCount),
+      byPeriod: [...byPeriod.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([period, group]) => ({ period, ...this.summarize(group) })),
+      chronicallyUnderestimated: {
+        series: series.filter(isChronic).sort((a, b) => b.medianRatio - a.medianRatio),
+        labels: labels.filter(isChronic).sort((a, b) => b.medianRatio - a.medianRatio),
+      },
+    };
+  }
+
+  /**
+   * Corrected estimate for a new task from the user's recent completed tasks - those
+   * sharing one of its labels when there are enough of them. Null without enough
+   * history or when the user's estimates are already about right.
+   */
+  async suggestEstimate(userId: string, estimateHours: number, labelIds?: string[]) {
+    if (!(estimateHours > 0)) {
+      return null;
+    }
+
+    const findRecent = (where: Prisma.TaskWhereInput) =>
+      this.prisma.task.findMany({
+        where: { ...this.getCompletedWhere(userId), ...where },
+        select: ESTIMATED_TASK_SELECT,
+        orderBy: [{ completedAt: { sort: 'desc', nulls: 'last' } }, { updatedAt: 'desc' }],
+        take: SUGGESTION_SAMPLE_SIZE,
+      });
+
+    let basedOn: 'labels' | 'all' = 'all';
+    let tasks: EstimatedTask[] = [];
+
+    if (labelIds?.length) {
+      tasks = await findRecent({ labels: { some: { id: { in: labelIds } } } });
+      basedOn = 'labels';
+    }
+
+    if (tasks.length < MIN_SAMPLE_SIZE) {
+      tasks = await findRecent({});
+      basedOn = 'all';
+    }
+
+    if (tasks.length < MIN_SAMPLE_SIZE) {
+      return null;
+    }
+
+    const samples = tasks.map((task) => this.toSample(task));
+    const ratio = this.median(samples.map((sample) => sample.ratio));
+
+    if (ratio >= ACCURATE_MIN_RATIO && ratio <= ACCURATE_MAX_RATIO) {
+      return null;
+    }
+
+    return {
+      ratio: this.round(ratio),
+      suggestedEstimateHours: this.round(estimateHours * ratio),
+      basedOn,
+      sampleSize: samples.length,
+      message: this.getBiasMessage(samples),
+    };
+  }
+
+  private getCompletedWhere(userId: string): Prisma.TaskWhereInput {
+    return {
+      userId,
+      status: TaskStatus.DONE,
+      isRecurringTemplate: false,
+      // Without an estimate there is nothing to compare against
+      estimateHours: { gt: 0 },
+    };
+  }
+
+  private toSample(task: EstimatedTask): EstimateSample {
+    const estimatedSeconds = Math.round(Number(task.estimateHours) * 3600);
+
+    return {
+      task,
+      estimatedSeconds,
+      actualSeconds: task.totalTimeSpent,
+      ratio: task.totalTimeSpent / estimatedSeconds,
+    };
+  }
+
+  private summarize(samples: EstimateSample[]) {
+    const estimatedSeconds = samples.reduce((sum, sample) => sum + sample.estimatedSeconds, 0);
+    const actualSeconds = samples.reduce((sum, sample) => sum + sample.actualSeconds, 0);
+
+    return {
+      taskCount: samples.length,
+      estimatedSeconds,
+      actualSeconds,
+      // Typical task (median) and all time together (total actual / total estimated)
+      medianRatio: this.round(this.median(samples.map((sample) => sample.ratio))),
+      totalRatio: estimatedSeconds > 0 ? this.round(actualSeconds / estimatedSeconds) : 0,
+      underestimatedCount: samples.filter((sample) => sample.ratio > ACCURATE_MAX_RATIO).length,
+      accurateCount: samples.filter(
+        (sample) => sample.ratio >= ACCURATE_MIN_RATIO && sample.ratio <= ACCURATE_MAX_RATIO,
+      ).length,
+      overestimatedCount: samples.filter((sample) => sample.ratio < ACCURATE_MIN_RATIO).length,
+    };
+  }
+
+  private getBiasMessage(samples: EstimateSample[]) {
+    if (samples.length < MIN_SAMPLE_SIZE) {
+      return null;
+    }
+
+    const ratio = this.round(this.median(samples.map((sample) => sample.ratio)));
+
+    if (ratio >= ACCURATE_MIN_RATIO && ratio <= ACCURATE_MAX_RATIO) {
+      return 'Your estimates are usually about right';
+    }
+
+    return `You usually take ${ratio}× your estimate`;
+  }
+
+  private addTo(groups: Map<string, EstimateSample[]>, key: string, sample: EstimateSample) {
+    const group = groups.get(key) || [];
+    group.push(sample);
+    groups.set(key, group);
+  }
+
+  private median(values: number[]) {
+    if (values.length === 0) {
+      return 0;
+    }
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  }
+
+  private round(value: number) {
+    return Math.round(value * 100) / 100;
+  }
+}
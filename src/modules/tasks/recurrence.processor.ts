@@ -0,0 +1,23 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bull';
+import { Logger } from '@nestjs/common';
+import { RecurrenceService } from './recurrence.service';
+
+@Processor('recurrence')
+export class RecurrenceProcessor {
+  private readonly logger = new Logger(RecurrenceProcessor.name);
+
+  constructor(private recurrenceService: RecurrenceService) {}
+
+  @Process('generate')
+  async handleGenerate(job: Job) {
+    this.logger.log(`Processing recurring task generation job ${job.id}`);
+
+    try {
+      return await this.recurrenceService.generateAll();
+    } catch (error) {
+      this.logger.error(`Recurring task generation failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { BadRequestException } from '@nestjs/common';
+import { Task } from '@prisma/client';
+import { RecurrenceService } from './recurrence.service';
+import { PrismaService } from '@/database/prisma.service';
+import { DeadlineReminderService } from './deadline-reminder.service';
+
+describe('RecurrenceService', () => {
+  let service: RecurrenceService;
+  let mockPrismaService: any;
+  let mockDeadlineReminderService: any;
+
+  const config: Record<string, any> = {
+    'recurrence.horizonDays': 7,
+  };
+
+  // Wednesday 2025-12-24
+  const now = new Date('2025-12-24T08:00:00.000Z');
+
+  const template = (overrides: Partial<Task> = {}): any => ({
+    id: 'template-id',
+    name: 'Practice English',
+    estimateHours: 0.5,
+    deadline: new Date('2025-12-24T17:00:00.000Z'),
+    checklistWeight: 0,
+    userId: 'user-id',
+    recurrenceRule: 'RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+    recurrenceGeneratedUntil: null,
+    subtasks: [{ name: 'Vocabulary', estimateHours: null, position: 0 }],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      task: {
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(),
+        update: jest.fn(),
+        deleteMany: jest.fn(),
+      },
+    };
+
+    mockDeadlineReminderService = {
+      schedule: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecurrenceService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+        { provide: DeadlineReminderService, useValue: mockDeadlineReminderService },
+      ],
+    }).compile();
+
+    service = module.get<RecurrenceService>(RecurrenceService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('normalizeRule', () => {
+    it('should return the rule in canonical form', () => {
+      expect(service.normalizeRule('FREQ=WEEKLY;BYDAY=MO,WE')).toBe(
+        'RRULE:FREQ=WEEKLY;BYDAY=MO,WE',
+      );
+    });
+
+    it('should reject invalid and sub-daily rules', () => {
+      expect(() => service.normalizeRule('EVERY=DAY')).toThrow(BadRequestException);
+      expect(() => service.normalizeRule('BYDAY=MO')).toThrow(BadRequestException);
+      expect(() => service.normalizeRule('FREQ=HOURLY')).toThrow(BadRequestException);
+    });
+  });
+
+  describe('endRuleBefore', () => {
+    it('should end the rule right before the given date', () => {
+      expect(
+        service.endRuleBefore('RRULE:FREQ=DAILY;COUNT=10', new Date('2025-12-29T17:00:00.000Z')),
+      ).toBe('RRULE:FREQ=DAILY;UNTIL=20251229T165959Z');
+    });
+  });
+
+  describe('generateOccurrences', () => {
+    it('should create weekday occurrences within the horizon with fresh progress', async () => {
+      const created = await service.generateOccurrences(template(), now);
+
+      // Wed 24, Thu 25, Fri 26, Mon 29 and Tue 30 December
+      expect(created).toBe(5);
+      expect(mockPrismaService.task.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          name: 'Practice English',
+          deadline: new Date('2025-12-24T17:00:00.000Z'),
+          occurrenceDate: new Date('2025-12-24T17:00:00.000Z'),
+          recurrenceParentId: 'template-id',
+          subtasks: { create: [{ name: 'Vocabulary', estimateHours: null, position: 0 }] },
+        }),
+      });
+      expect(mockPrismaService.task.create.mock.calls[0][0].data).not.toHaveProperty('progress');
+      expect(mockPrismaService.task.update).toHaveBeenCalledWith({
+        where: { id: 'template-id' },
+        data: { recurrenceGeneratedUntil: new Date('2025-12-31T08:00:00.000Z') },
+      });
+    });
+
+    it('should continue after the last run and skip existing occurrences', async () => {
+      mockPrismaService.task.findMany.mockResolvedValue([
+        { occurrenceDate: new Date('2026-01-01T17:00:00.000Z') },
+      ]);
+
+      const created = await service.generateOccurrences(
+        template({ recurrenceGeneratedUntil: new Date('2025-12-31T08:00:00.000Z') }),
+        new Date('2025-12-26T08:00:00.000Z'),
+      );
+
+      // Wed 31 and Thu 1 January are candidates, Thursday already exists
+      expect(created).toBe(1);
+      expect(mockPrismaService.task.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ deadline: new Date('2025-12-31T17:00:00.000Z') }),
+      });
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Label, Subtask, Task, TaskStatus } from '@prisma/client';
+import { Options, RRule } from 'rrule';
+import { PrismaService } from '@/database/prisma.service';
+import { DeadlineReminderService } from './deadline-reminder.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_OCCURRENCES_PER_RUN = 100;
+const GENERATION_BATCH_SIZE = 500;
+
+// Occurrences nobody has worked on yet - safe to delete or rewrite when the series changes
+const UNTOUCHED_OCCURRENCE = {
+  status: TaskStatus.PLANNED,
+  isActive: false,
+  totalTimeSpent: 0,
+};
+
+export type RecurringTemplate = Pick<
+  Task,
+  | 'id'
+  | 'name'
+  | 'estimateHours'
+  | 'deadline'
+  | 'checklistWeight'
+  | 'priority'
+  | 'projectId'
+  | 'userId'
+  | 'recurrenceRule'
+  | 'recurrenceGeneratedUntil'
+> & {
+  subtasks: Pick<Subtask, 'name' | 'estimateHours' | 'position'>[];
+  labels?: Pick<Label, 'id'>[];
+};
+
+@Injectable()
+export class RecurrenceService {
+  private readonly logger = new Logger(RecurrenceService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private deadlineReminderService: DeadlineReminderService,
+  ) {}
+
+  /**
+   * Validate an RFC 5545 RRULE and return it in canonical form.
+   * DTSTART is not stored in the rule - the template's deadline is used instead.
+   */
+  normalizeRule(rule: string): string {
+    const options = this.parseRule(rule);
+
+    delete options.dtstart;
+    delete options.tzid;
+
+    return RRule.optionsToString(options);
+  }
+
+  /**
+   * Same rule, ending right before the given date (used to split a series)
+   */
+  endRuleBefore(rule: string, before: Date): string {
+    const options = this.parseRule(rule);
+
+    delete options.count;
+    options.until = new Date(before.getTime() - 1000);
+
+    return RRule.optionsToString(options);
+  }
+
+  /**
+   * Create the template's occurrences whose deadline falls between the last run
+   * (or now, for a new series) and the configured horizon. Each occurrence is a
+   * regular task with fresh progress and a copy of the template's checklist
+   * and labels.
+   */
+  async generateOccurrences(template: RecurringTemplate, now: Date = new Date(), tx?: any) {
+    const prisma = tx || this.prisma;
+
+    const horizonDays = this.configService.get<number>('recurrence.horizonDays');
+    const horizon = new Date(now.getTime() + horizonDays * DAY_MS);
+
+    const rule = new RRule({
+      ...this.parseRule(template.recurrenceRule),
+      dtstart: template.deadline,
+    });
+
+    const dates = template.recurrenceGeneratedUntil
+      ? rule.between(template.recurrenceGeneratedUntil, horizon, false, (_, i) => {
+          return i < MAX_OCCURRENCES_PER_RUN;
+        })
+      : rule.between(now, horizon, true, (_, i) => i < MAX_OCCURRENCES_PER_RUN);
+
+    const existing = await prisma.task.findMany({
+      where: { recurrenceParentId: template.id, occurrenceDate: { in: dates } },
+      select: { occurrenceDate: true },
+    });
+    const existingTimes = new Set(existing.map((task) => task.occurrenceDate.getTime()));
+
+    let created = 0;
+
+    for (const date of dates) {
+      if (existingTimes.has(date.getTime())) {
+        continue;
+      }
+
+      const occurrence = await prisma.task.create({
+        data: {
+          name: template.name,
+          estimateHours: template.estimateHours,
+          deadline: date,
+          checklistWeight: template.checklistWeight,
+          priority: template.priority,
+          projectId: template.projectId,
+          status: TaskStatus.PLANNED,
+          isActive: false,
+          userId: template.userId,
+          recurrenceParentId: template.id,
+          occurrenceDate: date,
+          ...(template.labels?.length && {
+            labels: { connect: template.labels.map((label) => ({ id: label.id })) },
+          }),
+          subtasks: {
+            create: template.subtasks.map((subtask) => ({
+              name: subtask.name,
+              estimateHours: subtask.estimateHours,
+              position: subtask.position,
+            })),
+          },
+        },
+      });
+
+      await this.deadlineReminderService.schedule(occurrence, now);
+
+      created++;
+    }
+
+    // When capped, continue from the last generated occurrence on the next run
+    const generatedUntil =
+      dates.length === MAX_OCCURRENCES_PER_RUN ? dates[dates.length - 1] : horizon;
+
+    await prisma.task.update({
+      where: { id: template.id },
+      data: { recurrenceGeneratedUntil: generatedUntil },
+    });
+
+    return created;
+  }
+
+  /**
+   * Generate upcoming occurrences for every series. Run hourly by the scheduler.
+   */
+  async generateAll(now: Date = new Date()) {
+    const horizonDays = this.configService.get<number>('recurrence.horizonDays');
+    const horizon = new Date(now.getTime() + horizonDays * DAY_MS);
+    let cursor: string | undefined;
+    let processed = 0;
+    let created = 0;
+
+    do {
+      const templates = await this.prisma.task.findMany({
+        where: {
+          isRecurringTemplate: true,
+          archivedAt: null,
+          OR: [{ recurrenceGeneratedUntil: null }, { recurrenceGeneratedUntil: { lt: horizon } }],
+        },
+        include: { subtasks: true, labels: { select: { id: true } } },
+        orderBy: { id: 'asc' },
+        take: GENERATION_BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      for (const template of templates) {
+        try {
+          created += await this.generateOccurrences(template, now);
+        } catch (error) {
+          this.logger.error(
+            `Failed to generate occurrences of task ${template.id}: ${error.message}`,
+          );
+        }
+      }
+
+      processed += templates.length;
+      cursor =
+        templates.length === GENERATION_BATCH_SIZE ? templates[templates.length - 1].id : null;
+    } while (cursor);
+
+    this.logger.log(`Recurring tasks: ${processed} series checked, ${created} occurrences created`);
+
+    return { processed, created };
+  }
+
+  /**
+   * Delete occurrences of a series that nobody has started, from the given date on
+   */
+  async deleteUntouchedOccurrences(templateId: string, from: Date, tx?: any) {
+    const prisma = tx || this.prisma;
+
+    return prisma.task.deleteMany({
+      where: {
+        recurrenceParentId: templateId,
+        occurrenceDate: { gte: from },
+        ...UNTOUCHED_OCCURRENCE,
+      },
+    });
+  }
+
+  private parseRule(rule: string): Partial<Options> {
+    let options: Partial<Options>;
+
+    try {
+      options = RRule.parseString(rule.trim());
+    } catch (error) {
+      throw new BadRequestException(`Invalid recurrence rule: ${error.message}`);
+    }
+
+    if (options.freq === undefined) {
+      throw new BadRequestException('Recurrence rule must have a FREQ');
+    }
+
+    // Frequency values go from YEARLY (0) to SECONDLY (6)
+    if (options.freq > RRule.DAILY) {
+      throw new BadRequestException('Recurrence rules more frequent than daily are not supported');
+    }
+
+    return options;
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { SubtasksService } from './subtasks.service';
+import { CreateSubtaskDto } from './dto/create-subtask.dto';
+import { UpdateSubtaskDto } from './dto/update-subtask.dto';
+import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { CurrentUser } from '@/common/decorators/current-user.decorator';
+
+@ApiTags('tasks')
+@ApiBearerAuth()
+@Controller('tasks/:id/subtasks')
+@UseGuards(JwtAuthGuard)
+export class SubtasksController {
+  constructor(private readonly subtasksService: SubtasksService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Get the checklist of a task' })
+  @ApiResponse({
+    status: 200,
+    description: 'Subtasks retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: [
+          {
+            id: 'subtask-id',
+            taskId: 'task-id',
+            name: 'Write login endpoint',
+            estimateHours: 1.5,
+            isDone: false,
+            completedAt: null,
+            position: 0,
+            totalTimeSpent: 2700,
+            progress: 50,
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  findAll(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.subtasksService.findAll(id, user.id);
+  }
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({ summary: 'Add a subtask / checklist item' })
+  @ApiResponse({ status: 201, description: 'Subtask created successfully' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  create(
+    @Param('id') id: string,
+    @Body() createSubtaskDto: CreateSubtaskDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.subtasksService.create(id, createSubtaskDto, user.id);
+  }
+
+  @Patch(':subtaskId')
+  @ApiOperation({
+    summary: 'Update a subtask',
+    description: "Rename, re-estimate, reorder or tick off an item. Updates the parent's progress.",
+  })
+  @ApiResponse({ status: 200, description: 'Subtask updated successfully' })
+  @ApiResponse({ status: 404, description: 'Task or subtask not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  update(
+    @Param('id') id: string,
+    @Param('subtaskId') subtaskId: string,
+    @Body() updateSubtaskDto: UpdateSubtaskDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.subtasksService.update(id, subtaskId, updateSubtaskDto, user.id);
+  }
+
+  @Delete(':subtaskId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Delete a subtask' })
+  @ApiResponse({ status: 200, description: 'Subtask deleted successfully' })
+  @ApiResponse({ status: 404, description: 'Task or subtask not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  remove(@Param('id') id: string, @Param('subtaskId') subtaskId: string, @CurrentUser() user: any) {
+    return this.subtasksService.remove(id, subtaskId, user.id);
+  }
+}
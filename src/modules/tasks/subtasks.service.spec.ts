@@ -0,0 +1,130 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { SubtasksService } from './subtasks.service';
+import { TasksService } from './tasks.service';
+import { PrismaService } from '@/database/prisma.service';
+import { TrackingService } from '../tracking/tracking.service';
+
+describe('SubtasksService', () => {
+  let service: SubtasksService;
+  let mockPrismaService: any;
+  let mockTasksService: any;
+  let mockTrackingService: any;
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      subtask: {
+        create: jest.fn(),
+        findMany: jest.fn(),
+        findUnique: jest.fn(),
+        update: jest.fn(),
+        delete: jest.fn(),
+        aggregate: jest.fn(),
+      },
+      trackingSession: {
+        groupBy: jest.fn().mockResolvedValue([]),
+      },
+    };
+
+    mockTasksService = {
+      findOne: jest.fn().mockResolvedValue({ id: 'task-id', userId: 'user-id' }),
+      assertNotArchived: jest.fn(),
+    };
+
+    mockTrackingService = {
+      calculateProgress: jest.fn((time: number, hours: number) => (time / (hours * 3600)) * 100),
+      recalculateTaskProgress: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SubtasksService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: TasksService, useValue: mockTasksService },
+        { provide: TrackingService, useValue: mockTrackingService },
+      ],
+    }).compile();
+
+    service = module.get<SubtasksService>(SubtasksService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('findAll', () => {
+    it('should add tracked time and progress to each item', async () => {
+      mockPrismaService.subtask.findMany.mockResolvedValue([
+        { id: 'subtask-1', estimateHours: 1, isDone: false },
+        { id: 'subtask-2', estimateHours: null, isDone: true },
+      ]);
+      mockPrismaService.trackingSession.groupBy.mockResolvedValue([
+        { subtaskId: 'subtask-1', _sum: { duration: 1800 } },
+      ]);
+
+      const result = await service.findAll('task-id', 'user-id');
+
+      expect(result).toEqual([
+        expect.objectContaining({ id: 'subtask-1', totalTimeSpent: 1800, progress: 50 }),
+        expect.objectContaining({ id: 'subtask-2', totalTimeSpent: 0, progress: null }),
+      ]);
+    });
+  });
+
+  describe('create', () => {
+    it('should append to the end of the checklist and refresh parent progress', async () => {
+      mockPrismaService.subtask.aggregate.mockResolvedValue({ _max: { position: 2 } });
+
+      await service.create('task-id', { name: 'Write tests' }, 'user-id');
+
+      expect(mockPrismaService.subtask.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ taskId: 'task-id', name: 'Write tests', position: 3 }),
+        }),
+      );
+      expect(mockTrackingService.recalculateTaskProgress).toHaveBeenCalledWith('task-id');
+    });
+  });
+
+  describe('update', () => {
+    it('should set completedAt and refresh parent progress when ticked off', async () => {
+      mockPrismaService.subtask.findUnique.mockResolvedValue({
+        id: 'subtask-id',
+        taskId: 'task-id',
+        isDone: false,
+      });
+
+      await service.update('task-id', 'subtask-id', { isDone: true }, 'user-id');
+
+      expect(mockPrismaService.subtask.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { isDone: true, completedAt: expect.any(Date) },
+        }),
+      );
+      expect(mockTrackingService.recalculateTaskProgress).toHaveBeenCalledWith('task-id');
+    });
+
+    it('should not refresh progress for other changes', async () => {
+      mockPrismaService.subtask.findUnique.mockResolvedValue({
+        id: 'subtask-id',
+        taskId: 'task-id',
+        isDone: false,
+      });
+
+      await service.update('task-id', 'subtask-id', { name: 'Renamed' }, 'user-id');
+
+      expect(mockTrackingService.recalculateTaskProgress).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundException for a subtask of another task', async () => {
+      mockPrismaService.subtask.findUnique.mockResolvedValue({
+        id: 'subtask-id',
+        taskId: 'other-task',
+      });
+
+      await expect(
+        service.update('task-id', 'subtask-id', { isDone: true }, 'user-id'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { Injectable, NotFoundException, Inject, forwardRef } from '@nestjs/common';
+import { SessionStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { CreateSubtaskDto } from './dto/create-subtask.dto';
+import { UpdateSubtaskDto } from './dto/update-subtask.dto';
+import { TasksService } from './tasks.service';
+import { TrackingService } from '../tracking/tracking.service';
+
+const SUBTASK_SELECT = {
+  id: true,
+  taskId: true,
+  name: true,
+  estimateHours: true,
+  isDone: true,
+  completedAt: true,
+  position: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+@Injectable()
+export class SubtasksService {
+  constructor(
+    private prisma: PrismaService,
+    private tasksService: TasksService,
+    @Inject(forwardRef(() => TrackingService))
+    private trackingService: TrackingService,
+  ) {}
+
+  /**
+   * Checklist of a task with the time tracked against each item
+   */
+  async findAll(taskId: string, userId: string) {
+    await this.tasksService.findOne(taskId, userId);
+
+    const [subtasks, timeBySubtask] = await Promise.all([
+      this.prisma.subtask.findMany({
+        where: { taskId },
+        select: SUBTASK_SELECT,
+        orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+      }),
+      this.prisma.trackingSession.groupBy({
+        by: ['subtaskId'],
+        where: { taskId, status: SessionStatus.stopped, subtaskId: { not: null } },
+        _sum: { duration: true },
+      }),
+    ]);
+
+    const timeSpent = new Map(timeBySubtask.map((group) => [group.subtaskId, group._sum.duration]));
+
+    return subtasks.map((subtask) => {
+      const totalTimeSpent = timeSpent.get(subtask.id) || 0;
+
+      return {
+        ...subtask,
+        totalTimeSpent,
+        // Time-based progress, only available for items with an estimate
+        progress:
+          subtask.estimateHours !== null
+            ? Math.round(
+                this.trackingService.calculateProgress(totalTimeSpent, subtask.estimateHours) * 100,
+              ) / 100
+            : null,
+      };
+    });
+  }
+
+  async create(taskId: string, createSubtaskDto: CreateSubtaskDto, userId: string) {
+    const task = await this.tasksService.findOne(taskId, userId);
+    this.tasksService.assertNotArchived(task);
+
+    let position = createSubtaskDto.position;
+
+    // Append to the end of the checklist by default
+    if (position === undefined) {
+      const last = await this.prisma.subtask.aggregate({
+        where: { taskId },
+        _max: { position: true },
+      });
+      position = last._max.position === null ? 0 : last._max.position + 1;
+    }
+
+    const subtask = await this.prisma.subtask.create({
+      data: {
+        taskId,
+        name: createSubtaskDto.name,
+        estimateHours: createSubtaskDto.estimateHours,
+        position,
+      },
+      select: SUBTASK_SELECT,
+    });
+
+    // A new open item lowers the checklist share of the parent's progress
+    await this.trackingService.recalculateTaskProgress(taskId);
+
+    return subtask;
+  }
+
+  async update(
+    taskId: string,
+    subtaskId: string,
+    updateSubtaskDto: UpdateSubtaskDto,
+    userId: string,
+  ) {
+    const task = await this.tasksService.findOne(taskId, userId);
+    this.tasksService.assertNotArchived(task);
+    const subtask = await this.findSubtask(taskId, subtaskId);
+
+    const updateData: any = {};
+
+    if (updateSubtaskDto.name !== undefined) {
+      updateData.name = updateSubtaskDto.name;
+    }
+
+    if (updateSubtaskDto.estimateHours !== undefined) {
+      updateData.estimateHours = updateSubtaskDto.estimateHours;
+    }
+
+    if (updateSubtaskDto.position !== undefined) {
+      updateData.position = updateSubtaskDto.position;
+    }
+
+    const doneChanged =
+      updateSubtaskDto.isDone !== undefined && updateSubtaskDto.isDone !== subtask.isDone;
+
+    if (doneChanged) {
+      updateData.isDone = updateSubtaskDto.isDone;
+      updateData.completedAt = updateSubtaskDto.isDone ? new Date() : null;
+    }
+
+    const updatedSubtask = await this.prisma.subtask.update({
+      where: { id: subtaskId },
+      data: updateData,
+      select: SUBTASK_SELECT,
+    });
+
+    if (doneChanged) {
+      await this.trackingService.recalculateTaskProgress(taskId);
+    }
+
+    return updatedSubtask;
+  }
+
+  /**
+   * Delete a checklist item. Time tracked against it stays on the parent task.
+   */
+  async remove(taskId: string, subtaskId: string, userId: string) {
+    const task = await this.tasksService.findOne(taskId, userId);
+    this.tasksService.assertNotArchived(task);
+    await this.findSubtask(taskId, subtaskId);
+
+    await this.prisma.subtask.delete({
+      where: { id: subtaskId },
+    });
+
+    await this.trackingService.recalculateTaskProgress(taskId);
+
+    return { message: 'Subtask deleted successfully' };
+  }
+
+  private async findSubtask(taskId: string, subtaskId: string) {
+    const subtask = await this.prisma.subtask.findUnique({
+      where: { id: subtaskId },
+      select: SUBTASK_SELECT,
+    });
+
+    if (!subtask || subtask.taskId !== taskId) {
+      throw new NotFoundException('Subtask not found');
+    }
+
+    return subtask;
+  }
+}
@@ -0,0 +1,23 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bull';
+import { Logger } from '@nestjs/common';
+import { TaskArchiveService } from './task-archive.service';
+
+@Processor('task-archive')
+export class TaskArchiveProcessor {
+  private readonly logger = new Logger(TaskArchiveProcessor.name);
+
+  constructor(private taskArchiveService: TaskArchiveService) {}
+
+  @Process('purge')
+  async handlePurge(job: Job) {
+    this.logger.log(`Processing archived task purge job ${job.id}`);
+
+    try {
+      return await this.taskArchiveService.purgeExpired();
+    } catch (error) {
+      this.logger.error(`Archived task purge failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { TaskArchiveService } from './task-archive.service';
+import { PrismaService } from '@/database/prisma.service';
+
+describe('TaskArchiveService', () => {
+  let service: TaskArchiveService;
+  let mockPrismaService: any;
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      task: {
+        findMany: jest.fn().mockResolvedValue([]),
+        deleteMany: jest.fn(),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskArchiveService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: { get: jest.fn().mockReturnValue(30) } },
+      ],
+    }).compile();
+
+    service = module.get<TaskArchiveService>(TaskArchiveService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('purgeExpired', () => {
+    it('should delete tasks archived before the retention window', async () => {
+      const now = new Date('2025-12-31T00:00:00.000Z');
+      const cutoff = new Date('2025-12-01T00:00:00.000Z');
+
+      mockPrismaService.task.findMany.mockResolvedValue([{ id: 'task-1' }, { id: 'task-2' }]);
+      mockPrismaService.task.deleteMany.mockResolvedValue({ count: 2 });
+
+      const result = await service.purgeExpired(now);
+
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { archivedAt: { lt: cutoff }, roomTaskId: null } }),
+      );
+      expect(mockPrismaService.task.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['task-1', 'task-2'] }, archivedAt: { lt: cutoff } },
+      });
+      expect(result).toEqual({ purged: 2 });
+    });
+
+    it('should do nothing when no task has expired', async () => {
+      const result = await service.purgeExpired();
+
+      expect(mockPrismaService.task.deleteMany).not.toHaveBeenCalled();
+      expect(result).toEqual({ purged: 0 });
+    });
+  });
+});
@@ -0,0 +1,51 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@/database/prisma.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PURGE_BATCH_SIZE = 500;
+
+@Injectable()
+export class TaskArchiveService {
+  private readonly logger = new Logger(TaskArchiveService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Permanently delete tasks archived for longer than the retention window, with their
+   * sessions and checklist. EXP transactions and analytics rollups do not reference the
+   * task row, so totals stay the same. Personal copies of room tasks are kept, as the
+   * room's progress and contributors are summed from them. Run daily by the scheduler.
+   */
+  async purgeExpired(now: Date = new Date()) {
+    const retentionDays = this.configService.get<number>('taskArchive.retentionDays');
+    const cutoff = new Date(now.getTime() - retentionDays * DAY_MS);
+    let purged = 0;
+    let batchSize: number;
+
+    do {
+      const batch = await this.prisma.task.findMany({
+        where: { archivedAt: { lt: cutoff }, roomTaskId: null },
+        select: { id: true },
+        take: PURGE_BATCH_SIZE,
+      });
+
+      if (batch.length > 0) {
+        // Re-checked so a task restored in the meantime is kept
+        const { count } = await this.prisma.task.deleteMany({
+          where: { id: { in: batch.map((task) => task.id) }, archivedAt: { lt: cutoff } },
+        });
+        purged += count;
+      }
+
+      batchSize = batch.length;
+    } while (batchSize === PURGE_BATCH_SIZE);
+
+    this.logger.log(`Archived tasks: ${purged} purged (archived before ${cutoff.toISOString()})`);
+
+    return { purged };
+  }
+}
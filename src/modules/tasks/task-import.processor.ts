@@ -0,0 +1,29 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bull';
+import { Logger } from '@nestjs/common';
+import { TaskImportJobData, TaskImportService } from './task-import.service';
+
+@Processor('task-import')
+export class TaskImportProcessor {
+  private readonly logger = new Logger(TaskImportProcessor.name);
+
+  constructor(private taskImportService: TaskImportService) {}
+
+  @Process('import')
+  async handleImport(job: Job<TaskImportJobData>) {
+    this.logger.log(`Processing task import job ${job.id} (${job.data.rows.length} tasks)`);
+
+    try {
+      const importedCount = await this.taskImportService.importRows(
+        job.data.userId,
+        job.data.rows,
+        (percent) => job.progress(percent),
+      );
+
+      return { importedCount };
+    } catch (error) {
+      this.logger.error(`Failed to import tasks for job ${job.id}: ${error.message}`);
+      throw error;
+    }
+  }
+}
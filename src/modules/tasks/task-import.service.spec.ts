@@ -0,0 +1,190 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { getQueueToken } from '@nestjs/bull';
+import { TaskImportService } from './task-import.service';
+import { DeadlineReminderService } from './deadline-reminder.service';
+import { PrismaService } from '@/database/prisma.service';
+
+describe('TaskImportService', () => {
+  let service: TaskImportService;
+  let mockPrismaService: any;
+  let mockQueue: any;
+  let mockDeadlineReminderService: any;
+  let maxSyncRows: number;
+
+  const upload = (content: string, originalname = 'tasks.csv', mimetype = 'text/csv') =>
+    ({ buffer: Buffer.from(content), originalname, mimetype }) as Express.Multer.File;
+
+  beforeEach(async () => {
+    maxSyncRows = 200;
+
+    mockPrismaService = {
+      task: {
+        createManyAndReturn: jest.fn().mockImplementation(({ data }) =>
+          Promise.resolve(
+            data.map((task, index) => ({
+              id: `task-${index}`,
+              deadline: task.deadline,
+              status: task.status,
+              isRecurringTemplate: false,
+            })),
+          ),
+        ),
+      },
+      $transaction: jest.fn((callback) => callback(mockPrismaService)),
+    };
+
+    mockQueue = {
+      add: jest.fn().mockResolvedValue({ id: 42 }),
+      getJob: jest.fn(),
+    };
+
+    mockDeadlineReminderService = {
+      schedule: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TaskImportService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: { get: jest.fn(() => maxSyncRows) } },
+        { provide: DeadlineReminderService, useValue: mockDeadlineReminderService },
+        { provide: getQueueToken('task-import'), useValue: mockQueue },
+      ],
+    }).compile();
+
+    service = module.get<TaskImportService>(TaskImportService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('importFile', () => {
+    const csv = [
+      'Name,Estimate Hours,Deadline',
+      '"Read chapter 1, 2",3,2025-12-30',
+      'Practice set,1.5,2025-12-31',
+    ].join('\r\n');
+
+    it('should create CSV tasks in one transaction and schedule reminders', async () => {
+      const result = await service.importFile(upload(csv), {}, 'user-id');
+
+      expect(result).toEqual(
+        expect.objectContaining({ status: 'completed', importedCount: 2, errors: [] }),
+      );
+      expect(mockPrismaService.$transaction).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.task.createManyAndReturn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: [
+            expect.objectContaining({
+              name: 'Read chapter 1, 2',
+              estimateHours: 3,
+              deadline: new Date('2025-12-30'),
+              userId: 'user-id',
+            }),
+            expect.objectContaining({ name: 'Practice set', estimateHours: 1.5 }),
+          ],
+        }),
+      );
+      expect(mockDeadlineReminderService.schedule).toHaveBeenCalledTimes(2);
+    });
+
+    it('should preview without creating on a dry run', async () => {
+      const result = await service.importFile(upload(csv), { dryRun: true }, 'user-id');
+
+      expect(result).toEqual(
+        expect.objectContaining({
+          status: 'preview',
+          validRows: 2,
+          tasks: [
+            { row: 1, name: 'Read chapter 1, 2', estimateHours: 3, deadline: '2025-12-30' },
+            { row: 2, name: 'Practice set', estimateHours: 1.5, deadline: '2025-12-31' },
+          ],
+        }),
+      );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should return row-level errors and create nothing when a row is invalid', async () => {
+      const json = JSON.stringify([
+        { name: 'Valid', estimateHours: 2, deadline: '2025-12-30' },
+        { name: '', estimateHours: -1, deadline: 'tomorrow' },
+      ]);
+
+      const result = await service.importFile(
+        upload(json, 'tasks.json', 'application/json'),
+        {},
+        'user-id',
+      );
+
+      expect(result.status).toBe('invalid');
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].row).toBe(2);
+      expect(result.errors[0].errors).toEqual(
+        expect.arrayContaining([
+          'name should not be empty',
+          'estimateHours must not be less than 0',
+          'deadline must be a valid ISO 8601 date string',
+        ]),
+      );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should queue large imports as a background job', async () => {
+      maxSyncRows = 1;
+
+      const result = await service.importFile(upload(csv), {}, 'user-id');
+
+      expect(result).toEqual(expect.objectContaining({ status: 'queued', jobId: '42' }));
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'import',
+        { userId: 'user-id', rows: expect.any(Array) },
+        expect.any(Object),
+      );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should reject files that cannot be read', async () => {
+      await expect(service.importFile(undefined, {}, 'user-id')).rejects.toThrow(
+        BadRequestException,
+      );
+      await expect(
+        service.importFile(upload('name,deadline\nA,2025-12-30'), {}, 'user-id'),
+      ).rejects.toThrow('CSV is missing the column(s): estimateHours');
+      await expect(
+        service.importFile(upload('{', 'tasks.json', 'application/json'), {}, 'user-id'),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.importFile(upload('x', 'tasks.xlsx', 'application/octet-stream'), {}, 'user-id'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('getJobStatus', () => {
+    it("should return the state of the user's import job", async () => {
+      mockQueue.getJob.mockResolvedValue({
+        id: 42,
+        data: { userId: 'user-id', rows: [{}, {}] },
+        getState: jest.fn().mockResolvedValue('completed'),
+        progress: jest.fn().mockReturnValue(100),
+        returnvalue: { importedCount: 2 },
+      });
+
+      await expect(service.getJobStatus('42', 'user-id')).resolves.toEqual({
+        jobId: '42',
+        status: 'completed',
+        totalRows: 2,
+        progress: 100,
+        importedCount: 2,
+      });
+    });
+
+    it("should not expose another user's job", async () => {
+      mockQueue.getJob.mockResolvedValue({ id: 42, data: { userId: 'other-user', rows: [] } });
+
+      await expect(service.getJobStatus('42', 'user-id')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,264 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { TaskStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { parseCsv } from '@/common/utils/csv.util';
+import { CreateTaskDto } from './dto/create-task.dto';
+import { ImportFormat, ImportTasksDto } from './dto/import-tasks.dto';
+import { DeadlineReminderService } from './deadline-reminder.service';
+
+export const MAX_IMPORT_FILE_BYTES = 2 * 1024 * 1024;
+const MAX_IMPORT_ROWS = 5000;
+const INSERT_BATCH_SIZE = 500;
+const IMPORT_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+// Finished import jobs stay pollable for a day
+const IMPORT_JOB_RETENTION_SECONDS = 24 * 60 * 60;
+
+const IMPORT_FIELDS = ['name', 'estimateHours', 'deadline'] as const;
+
+type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export interface ImportRow {
+  // 1-based position of the task in the file (CSV header not counted)
+  row: number;
+  name: string;
+  estimateHours: number;
+  deadline: string;
+}
+
+export interface ImportRowError {
+  row: number;
+  errors: string[];
+}
+
+export interface TaskImportJobData {
+  userId: string;
+  rows: ImportRow[];
+}
+
+@Injectable()
+export class TaskImportService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private deadlineReminderService: DeadlineReminderService,
+    @InjectQueue('task-import') private importQueue: Queue,
+  ) {}
+
+  /**
+   * Validate every row of an uploaded CSV/JSON task list with the CreateTaskDto rules,
+   * then create the tasks in a single transaction. Nothing is created if any row is
+   * invalid. Large files are imported by a background job.
+   */
+  async importFile(file: Express.Multer.File, query: ImportTasksDto, userId: string) {
+    if (!file) {
+      throw new BadRequestException('A CSV or JSON file is required');
+    }
+
+    const records = this.parseFile(file, query.format);
+
+    if (records.length === 0) {
+      throw new BadRequestException('The file contains no tasks');
+    }
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(`A file can contain at most ${MAX_IMPORT_ROWS} tasks`);
+    }
+
+    const { rows, errors } = await this.validateRecords(records);
+    const summary = {
+      dryRun: !!query.dryRun,
+      totalRows: records.length,
+      validRows: rows.length,
+      errors,
+    };
+
+    if (query.dryRun) {
+      return { ...summary, status: 'preview', tasks: rows };
+    }
+
+    if (errors.length > 0) {
+      return { ...summary, status: 'invalid', importedCount: 0 };
+    }
+
+    if (rows.length > this.configService.get<number>('taskImport.maxSyncRows')) {
+      const data: TaskImportJobData = { userId, rows };
+      const job = await this.importQueue.add('import', data, {
+        removeOnComplete: { age: IMPORT_JOB_RETENTION_SECONDS },
+        removeOnFail: { age: IMPORT_JOB_RETENTION_SECONDS },
+      });
+
+      return { ...summary, status: 'queued', jobId: String(job.id), importedCount: 0 };
+    }
+
+    const importedCount = await this.importRows(userId, rows);
+
+    return { ...summary, status: 'completed', importedCount };
+  }
+
+  /**
+   * State of a background import started by the user
+   */
+  async getJobStatus(jobId: string, userId: string) {
+    const job = await this.importQueue.getJob(jobId);
+
+    if (!job || job.data.userId !== userId) {
+      throw new NotFoundException('Import job not found');
+    }
+
+    const state = await job.getState();
+
+    return {
+      jobId: String(job.id),
+      status: state,
+      totalRows: job.data.rows.length,
+      progress: job.progress(),
+      importedCount: job.returnvalue?.importedCount ?? 0,
+      ...(state === 'failed' && { failedReason: job.failedReason }),
+    };
+  }
+
+  /**
+   * Create already validated rows in one transaction and schedule their deadline reminders
+   */
+  async importRows(userId: string, rows: ImportRow[], onProgress?: (percent: number) => unknown) {
+    const created = await this.prisma.$transaction(
+      async (tx) => {
+        const tasks = [];
+
+        for (let i = 0; i < rows.length; i += INSERT_BATCH_SIZE) {
+          const batch = await tx.task.createManyAndReturn({
+            data: rows.slice(i, i + INSERT_BATCH_SIZE).map((row) => ({
+              name: row.name,
+              estimateHours: row.estimateHours,
+              deadline: new Date(row.deadline),
+              status: TaskStatus.PLANNED,
+              isActive: false,
+              userId,
+            })),
+            select: { id: true, deadline: true, status: true, isRecurringTemplate: true },
+          });
+
+          tasks.push(...batch);
+          await onProgress?.(Math.round((tasks.length / rows.length) * 90));
+        }
+
+        return tasks;
+      },
+      { timeout: IMPORT_TRANSACTION_TIMEOUT_MS },
+    );
+
+    for (const task of created) {
+      await this.deadlineReminderService.schedule(task);
+    }
+
+    await onProgress?.(100);
+
+    return created.length;
+  }
+
+  private parseFile(file: Express.Multer.File, format?: ImportFormat): Record<string, unknown>[] {
+    const text = file.buffer.toString('utf8');
+
+    if ((format || this.detectFormat(file)) === ImportFormat.JSON) {
+      let data: unknown;
+
+      try {
+        data = JSON.parse(text);
+      } catch (error) {
+        throw new BadRequestException(`Invalid JSON: ${error.message}`);
+      }
+
+      // Either a plain array or { "tasks": [...] }
+      const items = Array.isArray(data) ? data : (data as { tasks?: unknown })?.tasks;
+
+      if (!Array.isArray(items)) {
+        throw new BadRequestException('JSON must be an array of tasks');
+      }
+
+      return items.map((item) =>
+        item && typeof item === 'object' && !Array.isArray(item) ? item : {},
+      );
+    }
+
+    const [header, ...records] = parseCsv(text);
+
+    if (!header) {
+      return [];
+    }
+
+    // Accept "estimateHours", "Estimate Hours", "estimate_hours", ...
+    const columns = header.map((name) =>
+      IMPORT_FIELDS.find(
+        (field) => field.toLowerCase() === name.toLowerCase().replace(/[^a-z]/g, ''),
+      ),
+    );
+    const missing = IMPORT_FIELDS.filter((field) => !columns.includes(field));
+
+    if (missing.length > 0) {
+      throw new BadRequestException(`CSV is missing the column(s): ${missing.join(', ')}`);
+    }
+
+    return records.map((record) => {
+      const item: Record<string, string> = {};
+      columns.forEach((field, index) => {
+        // Empty cells count as missing values
+        if (field && record[index]?.trim()) {
+          item[field] = record[index].trim();
+        }
+      });
+      return item;
+    });
+  }
+
+  private detectFormat(file: Express.Multer.File): ImportFormat {
+    const name = file.originalname?.toLowerCase() || '';
+
+    if (name.endsWith('.json') || file.mimetype === 'application/json') {
+      return ImportFormat.JSON;
+    }
+
+    if (name.endsWith('.csv') || ['text/csv', 'application/vnd.ms-excel'].includes(file.mimetype)) {
+      return ImportFormat.CSV;
+    }
+
+    throw new BadRequestException('Unsupported file type, upload a .csv or .json file');
+  }
+
+  private async validateRecords(records: Record<string, unknown>[]) {
+    const rows: ImportRow[] = [];
+    const errors: ImportRowError[] = [];
+
+    for (const [index, record] of records.entries()) {
+      const values: Partial<Record<ImportField, unknown>> = {};
+      for (const field of IMPORT_FIELDS) {
+        values[field] = record[field];
+      }
+
+      // Same conversion as the request body of POST /tasks (numbers from CSV text)
+      const dto = plainToInstance(CreateTaskDto, values, { enableImplicitConversion: true });
+      const validationErrors = await validate(dto);
+
+      if (validationErrors.length > 0) {
+        errors.push({
+          row: index + 1,
+          errors: validationErrors.flatMap((error) => Object.values(error.constraints || {})),
+        });
+        continue;
+      }
+
+      rows.push({
+        row: index + 1,
+        name: dto.name,
+        estimateHours: dto.estimateHours,
+        deadline: dto.deadline,
+      });
+    }
+
+    return { rows, errors };
+  }
+}
@@ -8,14 +8,30 @@ import {
   Delete,
   Query,
   UseGuards,
+  UseInterceptors,
+  UploadedFile,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiConsumes,
+  ApiBody,
+} from '@nestjs/swagger';
 import { TasksService } from './tasks.service';
+import { MAX_IMPORT_FILE_BYTES, TaskImportService } from './task-import.service';
+import { EstimateInsightsService } from './estimate-insights.service';
 import { CreateTaskDto } from './dto/create-task.dto';
 import { UpdateTaskDto } from './dto/update-task.dto';
 import { QueryTasksDto } from './dto/query-tasks.dto';
+import { ActivateTaskDto } from './dto/activate-task.dto';
+import { ImportTasksDto } from './dto/import-tasks.dto';
+import { ReorderTaskDto } from './dto/reorder-task.dto';
+import { GetEstimateInsightsDto } from './dto/get-estimate-insights.dto';
 import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
 import { CurrentUser } from '@/common/decorators/current-user.decorator';
 
@@ -24,11 +40,19 @@ import { CurrentUser } from '@/common/decorators/current-user.decorator';
 @Controller('tasks')
 @UseGuards(JwtAuthGuard)
 export class TasksController {
-  constructor(private readonly tasksService: TasksService) {}
+  constructor(
+    private readonly tasksService: TasksService,
+    private readonly taskImportService: TaskImportService,
+    private readonly estimateInsightsService: EstimateInsightsService,
+  ) {}
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
-  @ApiOperation({ summary: 'Create a new task' })
+  @ApiOperation({
+    summary: 'Create a new task',
+    description:
+      "`estimateSuggestion` is a corrected estimate based on how long the user's recent completed tasks (with the same labels, when there are enough) took compared to their estimates. It is null without enough history or when estimates are usually accurate.",
+  })
   @ApiResponse({
     status: 201,
     description: 'Task created successfully',
@@ -46,6 +70,13 @@ export class TasksController {
           isActive: false,
           userId: 'user-id',
           createdAt: '2025-12-20T03:00:00.000Z',
+          estimateSuggestion: {
+            ratio: 1.4,
+            suggestedEstimateHours: 8.4,
+            basedOn: 'labels',
+            sampleSize: 12,
+            message: 'You usually take 1.4× your estimate',
+          },
         },
         traceId: 'abc123',
       },
@@ -133,9 +164,199 @@ export class TasksController {
     return this.tasksService.findActive(user.id);
   }
 
+  @Get('insights/estimates')
+  @ApiOperation({
+    summary: 'Get estimate accuracy insights',
+    description:
+      "Compares the estimate of completed tasks with the time actually spent (ratio = actual / estimated): overall, per label and per completion period. Recurring series and labels that typically take at least 1.25× their estimate are listed as chronically underestimated. Dates are in the user's timezone.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Insights retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          range: { from: null, to: null, timezone: 'Asia/Ho_Chi_Minh', groupBy: 'month' },
+          overall: {
+            taskCount: 24,
+            estimatedSeconds: 259200,
+            actualSeconds: 358000,
+            medianRatio: 1.4,
+            totalRatio: 1.38,
+            underestimatedCount: 15,
+            accurateCount: 7,
+            overestimatedCount: 2,
+            message: 'You usually take 1.4× your estimate',
+          },
+          byLabel: [
+            {
+              labelId: 'label-id',
+              name: 'Math',
+              color: '#4CAF50',
+              taskCount: 8,
+              estimatedSeconds: 86400,
+              actualSeconds: 138000,
+              medianRatio: 1.6,
+              totalRatio: 1.6,
+              underestimatedCount: 7,
+              accurateCount: 1,
+              overestimatedCount: 0,
+            },
+          ],
+          byPeriod: [
+            {
+              period: '2025-12',
+              taskCount: 10,
+              estimatedSeconds: 108000,
+              actualSeconds: 140400,
+              medianRatio: 1.3,
+              totalRatio: 1.3,
+              underestimatedCount: 6,
+              accurateCount: 4,
+              overestimatedCount: 0,
+            },
+          ],
+          chronicallyUnderestimated: {
+            series: [
+              {
+                seriesId: 'template-id',
+                name: 'Weekly problem set',
+                taskCount: 5,
+                medianRatio: 1.8,
+              },
+            ],
+            labels: [{ labelId: 'label-id', name: 'Math', taskCount: 8, medianRatio: 1.6 }],
+          },
+        },
+        traceId: 'insights123',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid date range' })
+  getEstimateInsights(@Query() query: GetEstimateInsightsDto, @CurrentUser() user: any) {
+    return this.estimateInsightsService.getInsights(query, user.id);
+  }
+
+  @Post('import')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_IMPORT_FILE_BYTES } }))
+  @ApiOperation({
+    summary: 'Import tasks from a CSV or JSON file',
+    description:
+      'Columns/fields: name, estimateHours, deadline. Every row is validated like `POST /tasks` and row-level errors are returned; nothing is created unless all rows are valid. `dryRun=true` only previews the tasks. Files with many rows are imported by a background job (`status: queued`) that can be polled with `GET /tasks/import/:jobId`.',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: {
+          type: 'string',
+          format: 'binary',
+        },
+      },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Import previewed, rejected, completed or queued',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          dryRun: false,
+          status: 'invalid',
+          totalRows: 3,
+          validRows: 2,
+          errors: [{ row: 2, errors: ['estimateHours must not be less than 0'] }],
+          importedCount: 0,
+        },
+        traceId: 'import123',
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Missing, unreadable or unsupported file' })
+  importTasks(
+    @UploadedFile() file: Express.Multer.File,
+    @Query() query: ImportTasksDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.taskImportService.importFile(file, query, user.id);
+  }
+
+  @Get('import/:jobId')
+  @ApiOperation({ summary: 'Get the status of a background task import' })
+  @ApiResponse({
+    status: 200,
+    description: 'Import job status',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          jobId: '42',
+          status: 'completed',
+          totalRows: 1200,
+          progress: 100,
+          importedCount: 1200,
+        },
+        traceId: 'import456',
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Import job not found' })
+  getImportStatus(@Param('jobId') jobId: string, @CurrentUser() user: any) {
+    return this.taskImportService.getJobStatus(jobId, user.id);
+  }
+
   @Get(':id')
-  @ApiOperation({ summary: 'Get task by ID' })
-  @ApiResponse({ status: 200, description: 'Task retrieved successfully' })
+  @ApiOperation({
+    summary: 'Get task by ID',
+    description:
+      'Includes the checklist and the dependencies: `blockedBy` (upstream tasks that must be DONE first) and `blocks` (downstream tasks waiting on this one).',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Task retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          id: 'task-id',
+          name: 'Build authentication module',
+          status: 'PLANNED',
+          blockedBy: [
+            {
+              id: 'upstream-task-id',
+              name: 'Design database schema',
+              status: 'DONE',
+              deadline: '2025-12-20T00:00:00.000Z',
+              progress: 100,
+            },
+          ],
+          blocks: [
+            {
+              id: 'downstream-task-id',
+              name: 'Write API docs',
+              status: 'PLANNED',
+              deadline: '2026-01-05T00:00:00.000Z',
+              progress: 0,
+            },
+          ],
+          subtasks: [],
+        },
+        traceId: 'task123',
+      },
+    },
+  })
   @ApiResponse({ status: 404, description: 'Task not found' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
   findOne(@Param('id') id: string, @CurrentUser() user: any) {
@@ -147,7 +368,7 @@ export class TasksController {
   @ApiOperation({
     summary: 'Activate a task and start/resume time tracking',
     description:
-      'Activates a task, deactivates all other tasks, pauses their trackings, and creates or resumes tracking for this task. Only one task can be active at a time per user.',
+      'Activates a task, deactivates all other tasks, pauses their trackings, and creates or resumes tracking for this task. Only one task can be active at a time per user. Pass `subtaskId` to track the session against a subtask, and `pomodoro` to run it in work/break cycles (the response then includes the Pomodoro state).',
   })
   @ApiResponse({
     status: 200,
@@ -172,6 +393,7 @@ export class TasksController {
           tracking: {
             id: 'tracking-id',
             taskId: 'task-id',
+            subtaskId: null,
             userId: 'user-id',
             startTime: '2025-12-24T15:30:00.000Z',
             accumulatedTime: 0,
@@ -180,19 +402,44 @@ export class TasksController {
             createdAt: '2025-12-24T15:30:00.000Z',
             updatedAt: '2025-12-24T15:30:00.000Z',
           },
+          pomodoro: {
+            sessionId: 'tracking-id',
+            sessionStatus: 'active',
+            phase: 'WORK',
+            completedCycles: 0,
+            phaseStartedAt: '2025-12-24T15:30:00.000Z',
+            phaseEndsAt: '2025-12-24T15:55:00.000Z',
+            remainingSeconds: 1500,
+            settings: {
+              workMinutes: 25,
+              shortBreakMinutes: 5,
+              longBreakMinutes: 15,
+              cyclesBeforeLongBreak: 4,
+            },
+          },
         },
         traceId: 'activate456',
       },
     },
   })
-  @ApiResponse({ status: 404, description: 'Task not found' })
+  @ApiResponse({ status: 404, description: 'Task or subtask not found' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
   @ApiResponse({
     status: 400,
-    description: 'Cannot activate completed task or resume stopped tracking',
+    description:
+      'Cannot activate completed task, task blocked by unfinished tasks, or resume stopped tracking',
   })
-  activate(@Param('id') id: string, @CurrentUser() user: any) {
-    return this.tasksService.activate(id, user.id);
+  activate(
+    @Param('id') id: string,
+    @Body() activateTaskDto: ActivateTaskDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.tasksService.activate(
+      id,
+      user.id,
+      activateTaskDto.subtaskId,
+      activateTaskDto.pomodoro,
+    );
   }
 
   @Post(':id/complete')
@@ -221,22 +468,57 @@ export class TasksController {
     return this.tasksService.complete(id, user.id);
   }
 
+  @Patch('reorder')
+  @ApiOperation({
+    summary: 'Move a task within or between board columns',
+    description:
+      'Places the task at `index` of the PLANNED, ACTIVE or DONE column. Moving into ACTIVE activates the task (only one task is active at a time), moving into DONE completes it. List a column in board order with `GET /tasks?status=PLANNED&sortBy=position`.',
+  })
+  @ApiResponse({ status: 200, description: 'Task moved; returns the updated task' })
+  @ApiResponse({ status: 400, description: 'Template, blocked task or invalid move' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  reorder(@Body() reorderTaskDto: ReorderTaskDto, @CurrentUser() user: any) {
+    return this.tasksService.reorder(reorderTaskDto, user.id);
+  }
+
   @Patch(':id')
-  @ApiOperation({ summary: 'Update task by ID' })
+  @ApiOperation({
+    summary: 'Update task by ID',
+    description:
+      'For occurrences of a recurring task, `scope: "future"` applies name, estimate, checklist weight, priority, deadline and rule changes to this and all later occurrences. Updating a template changes its upcoming occurrences.',
+  })
   @ApiResponse({ status: 200, description: 'Task updated successfully' })
+  @ApiResponse({ status: 400, description: 'Invalid recurrence rule, scope or dependency cycle' })
   @ApiResponse({ status: 404, description: 'Task not found' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
   update(@Param('id') id: string, @Body() updateTaskDto: UpdateTaskDto, @CurrentUser() user: any) {
     return this.tasksService.update(id, updateTaskDto, user.id);
   }
 
+  @Post(':id/restore')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Restore an archived task' })
+  @ApiResponse({ status: 200, description: 'Task restored successfully' })
+  @ApiResponse({ status: 400, description: 'Task is not archived' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  restore(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.tasksService.restore(id, user.id);
+  }
+
   @Delete(':id')
   @HttpCode(HttpStatus.OK)
-  @ApiOperation({ summary: 'Delete task by ID' })
-  @ApiResponse({ status: 200, description: 'Task deleted successfully' })
+  @ApiOperation({
+    summary: 'Archive task by ID',
+    description:
+      'Stops its tracking session and hides it from the task list. Tracked time, EXP and analytics are kept. Archived tasks can be restored until they are purged after the retention window.',
+  })
+  @ApiResponse({ status: 200, description: 'Task archived successfully' })
+  @ApiResponse({ status: 400, description: 'Task is already archived' })
   @ApiResponse({ status: 404, description: 'Task not found' })
   @ApiResponse({ status: 403, description: 'Forbidden' })
-  remove(@Param('id') id: string, @CurrentUser() user: any) {
-    return this.tasksService.remove(id, user.id);
+  archive(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.tasksService.archive(id, user.id);
   }
 }
@@ -1,13 +1,76 @@
-import { Module, forwardRef } from '@nestjs/common';
+import { Logger, Module, OnModuleInit, forwardRef } from '@nestjs/common';
+import { BullModule, InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
 import { TasksService } from './tasks.service';
 import { TasksController } from './tasks.controller';
+import { SubtasksService } from './subtasks.service';
+import { SubtasksController } from './subtasks.controller';
+import { RecurrenceService } from './recurrence.service';
+import { RecurrenceProcessor } from './recurrence.processor';
+import { DeadlineReminderService } from './deadline-reminder.service';
+import { DeadlineReminderProcessor } from './deadline-reminder.processor';
+import { TaskImportService } from './task-import.service';
+import { EstimateInsightsService } from './estimate-insights.service';
+import { TaskImportProcessor } from './task-import.processor';
+import { TaskArchiveService } from './task-archive.service';
+import { TaskArchiveProcessor } from './task-archive.processor';
 import { PrismaService } from '@/database/prisma.service';
 import { TrackingModule } from '../tracking/tracking.module';
+import { LevelsModule } from '../levels/levels.module';
+import { StreaksModule } from '../streaks/streaks.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { RoomsModule } from '../rooms/rooms.module';
 
 @Module({
-  imports: [forwardRef(() => TrackingModule)],
-  controllers: [TasksController],
-  providers: [TasksService, PrismaService],
+  imports: [
+    BullModule.registerQueue(
+      { name: 'recurrence' },
+      { name: 'reminder' },
+      { name: 'task-import' },
+      { name: 'task-archive' },
+    ),
+    forwardRef(() => TrackingModule),
+    LevelsModule,
+    StreaksModule,
+    NotificationsModule,
+    forwardRef(() => RoomsModule),
+  ],
+  controllers: [TasksController, SubtasksController],
+  providers: [
+    TasksService,
+    SubtasksService,
+    RecurrenceService,
+    RecurrenceProcessor,
+    DeadlineReminderService,
+    DeadlineReminderProcessor,
+    TaskImportService,
+    TaskImportProcessor,
+    EstimateInsightsService,
+    TaskArchiveService,
+    TaskArchiveProcessor,
+    PrismaService,
+  ],
   exports: [TasksService],
 })
-export class TasksModule {}
+export class TasksModule implements OnModuleInit {
+  private readonly logger = new Logger(TasksModule.name);
+
+  constructor(
+    @InjectQueue('recurrence') private recurrenceQueue: Queue,
+    @InjectQueue('task-archive') private taskArchiveQueue: Queue,
+  ) {}
+
+  onModuleInit() {
+    this.recurrenceQueue
+      .add('generate', {}, { repeat: { cron: '0 * * * *' }, jobId: 'recurring-task-generation' })
+      .catch((error) => {
+        this.logger.error(`Failed to schedule recurring task generation: ${error.message}`);
+      });
+
+    this.taskArchiveQueue
+      .add('purge', {}, { repeat: { cron: '30 3 * * *' }, jobId: 'archived-task-purge' })
+      .catch((error) => {
+        this.logger.error(`Failed to schedule archived task purge: ${error.message}`);
+      });
+  }
+}
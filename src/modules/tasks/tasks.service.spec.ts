@@ -2,6 +2,15 @@ import { Test, TestingModule } from '@nestjs/testing';
 import { TasksService } from './tasks.service';
 import { PrismaService } from '@/database/prisma.service';
 import { TrackingService } from '../tracking/tracking.service';
+import { LevelsService } from '../levels/levels.service';
+import { StreaksService } from '../streaks/streaks.service';
+import { RecurrenceService } from './recurrence.service';
+import { DeadlineReminderService } from './deadline-reminder.service';
+import { PomodoroService } from '../tracking/pomodoro.service';
+import { EstimateInsightsService } from './estimate-insights.service';
+import { RoomTasksService } from '../rooms/room-tasks.service';
+import { RecurrenceEditScope } from './dto/update-task.dto';
+import { ArchiveFilter, TaskSortBy, TemplateFilter } from './dto/query-tasks.dto';
 import { NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
 import { TaskStatus } from '@prisma/client';
 
@@ -9,6 +18,13 @@ describe('TasksService', () => {
   let service: TasksService;
   let mockPrismaService: any;
   let mockTrackingService: any;
+  let mockLevelsService: any;
+  let mockStreaksService: any;
+  let mockRecurrenceService: any;
+  let mockDeadlineReminderService: any;
+  let mockRoomTasksService: any;
+  let mockPomodoroService: any;
+  let mockEstimateInsightsService: any;
 
   beforeEach(async () => {
     mockPrismaService = {
@@ -22,13 +38,58 @@ describe('TasksService', () => {
         delete: jest.fn(),
         count: jest.fn(),
       },
-      $transaction: jest.fn(),
+      project: {
+        findFirst: jest.fn(),
+      },
+      label: {
+        count: jest.fn(),
+      },
+      trackingSession: {
+        findFirst: jest.fn(),
+      },
+      $transaction: jest.fn(async (callback) => callback(mockPrismaService)),
     };
 
     mockTrackingService = {
       stopAllActiveSessions: jest.fn(),
       createSession: jest.fn(),
+      finalizeSession: jest.fn(),
       checkAndCompleteIfNeeded: jest.fn(),
+      assertSubtaskOfTask: jest.fn(),
+      recalculateTaskProgress: jest.fn(),
+    };
+
+    mockLevelsService = {
+      awardTaskCompletion: jest.fn(),
+      refreshLevel: jest.fn(),
+    };
+
+    mockStreaksService = {
+      recordActivity: jest.fn(),
+    };
+
+    mockRecurrenceService = {
+      normalizeRule: jest.fn((rule: string) => `RRULE:${rule}`),
+      endRuleBefore: jest.fn().mockReturnValue('RRULE:FREQ=DAILY;UNTIL=20251227T235959Z'),
+      generateOccurrences: jest.fn(),
+      deleteUntouchedOccurrences: jest.fn(),
+    };
+
+    mockDeadlineReminderService = {
+      schedule: jest.fn(),
+      cancel: jest.fn(),
+    };
+
+    mockPomodoroService = {
+      start: jest.fn(),
+    };
+
+    mockEstimateInsightsService = {
+      suggestEstimate: jest.fn().mockResolvedValue(null),
+    };
+
+    mockRoomTasksService = {
+      notifyCompleted: jest.fn(),
     };
 
     const module: TestingModule = await Test.createTestingModule({
@@ -36,6 +97,13 @@ describe('TasksService', () => {
         TasksService,
         { provide: PrismaService, useValue: mockPrismaService },
         { provide: TrackingService, useValue: mockTrackingService },
+        { provide: LevelsService, useValue: mockLevelsService },
+        { provide: StreaksService, useValue: mockStreaksService },
+        { provide: RecurrenceService, useValue: mockRecurrenceService },
+        { provide: DeadlineReminderService, useValue: mockDeadlineReminderService },
+        { provide: PomodoroService, useValue: mockPomodoroService },
+        { provide: EstimateInsightsService, useValue: mockEstimateInsightsService },
+        { provide: RoomTasksService, useValue: mockRoomTasksService },
       ],
     }).compile();
 
@@ -74,18 +142,216 @@ describe('TasksService', () => {
 
       const result = await service.create(createTaskDto, userId);
 
-      expect(result).toEqual(expectedTask);
+      expect(result).toEqual({ ...expectedTask, estimateSuggestion: null });
       expect(mockPrismaService.task.create).toHaveBeenCalledWith({
         data: {
           name: createTaskDto.name,
           estimateHours: createTaskDto.estimateHours,
           deadline: new Date(createTaskDto.deadline),
+          // First task of an empty PLANNED column
+          position: 'i',
+          recurrenceRule: null,
+          isRecurringTemplate: false,
           status: TaskStatus.PLANNED,
           isActive: false,
           userId,
         },
         select: expect.any(Object),
       });
+      expect(mockRecurrenceService.generateOccurrences).not.toHaveBeenCalled();
+      expect(mockDeadlineReminderService.schedule).toHaveBeenCalledWith(expectedTask);
+    });
+
+    it('should suggest a corrected estimate from past tasks', async () => {
+      const suggestion = {
+        ratio: 1.4,
+        suggestedEstimateHours: 2.8,
+        basedOn: 'labels',
+        sampleSize: 6,
+        message: 'You usually take 1.4× your estimate',
+      };
+      mockPrismaService.label.count.mockResolvedValue(1);
+      mockPrismaService.task.create.mockResolvedValue({ id: 'task-id' });
+      mockEstimateInsightsService.suggestEstimate.mockResolvedValue(suggestion);
+
+      const result = await service.create(
+        { name: 'Read chapter 3', estimateHours: 2, deadline: '2025-12-30', labelIds: ['label-1'] },
+        'user-id',
+      );
+
+      expect(mockEstimateInsightsService.suggestEstimate).toHaveBeenCalledWith('user-id', 2, [
+        'label-1',
+      ]);
+      expect(result.estimateSuggestion).toEqual(suggestion);
+    });
+
+    it('should attach the project and labels', async () => {
+      mockPrismaService.project.findFirst.mockResolvedValue({ id: 'project-id' });
+      mockPrismaService.label.count.mockResolvedValue(2);
+      mockPrismaService.task.create.mockResolvedValue({ id: 'task-id' });
+
+      await service.create(
+        {
+          name: 'Read chapter 3',
+          estimateHours: 2,
+          deadline: '2025-12-30',
+          projectId: 'project-id',
+          labelIds: ['label-1', 'label-2'],
+        },
+        'user-id',
+      );
+
+      expect(mockPrismaService.task.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            projectId: 'project-id',
+            labels: { connect: [{ id: 'label-1' }, { id: 'label-2' }] },
+          }),
+        }),
+      );
+    });
+
+    it('should reject labels of another user', async () => {
+      mockPrismaService.label.count.mockResolvedValue(1);
+
+      await expect(
+        service.create(
+          {
+            name: 'Read chapter 3',
+            estimateHours: 2,
+            deadline: '2025-12-30',
+            labelIds: ['label-1', 'foreign-label'],
+          },
+          'user-id',
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(mockPrismaService.task.create).not.toHaveBeenCalled();
+    });
+
+    it('should create a recurring template and generate its first occurrences', async () => {
+      mockPrismaService.task.create.mockImplementation(async ({ data }) => ({
+        id: 'template-id',
+        ...data,
+      }));
+
+      const result = await service.create(
+        {
+          name: 'Practice English',
+          estimateHours: 0.5,
+          deadline: '2025-12-29T17:00:00.000Z',
+          recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+        },
+        'user-id',
+      );
+
+      expect(result.isRecurringTemplate).toBe(true);
+      expect(result.recurrenceRule).toBe('RRULE:FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR');
+      expect(mockRecurrenceService.generateOccurrences).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'template-id', recurrenceGeneratedUntil: null }),
+      );
+    });
+  });
+
+  describe('findAll', () => {
+    it('should hide recurring templates by default', async () => {
+      mockPrismaService.task.findMany.mockResolvedValue([]);
+      mockPrismaService.task.count.mockResolvedValue(0);
+
+      await service.findAll({ page: 1, limit: 10 }, 'user-id');
+
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-id', isRecurringTemplate: false, archivedAt: null },
+        }),
+      );
+    });
+
+    it('should list only templates when requested', async () => {
+      mockPrismaService.task.findMany.mockResolvedValue([]);
+      mockPrismaService.task.count.mockResolvedValue(0);
+
+      await service.findAll({ templates: TemplateFilter.ONLY }, 'user-id');
+
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { userId: 'user-id', isRecurringTemplate: true, archivedAt: null },
+        }),
+      );
+    });
+
+    it('should list only archived tasks when requested', async () => {
+      mockPrismaService.task.findMany.mockResolvedValue([]);
+      mockPrismaService.task.count.mockResolvedValue(0);
+
+      await service.findAll({ archived: ArchiveFilter.ONLY }, 'user-id');
+
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ archivedAt: { not: null } }),
+        }),
+      );
+    });
+
+    it('should filter by label, project, deadline range and overdue status', async () => {
+      mockPrismaService.task.findMany.mockResolvedValue([]);
+      mockPrismaService.task.count.mockResolvedValue(0);
+
+      await service.findAll(
+        {
+          labelId: 'label-id',
+          projectId: 'project-id',
+          deadlineFrom: '2025-12-01',
+          deadlineTo: '2025-12-31',
+          overdue: true,
+        },
+        'user-id',
+      );
+
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            labels: { some: { id: 'label-id' } },
+            projectId: 'project-id',
+            deadline: { gte: new Date('2025-12-01'), lte: new Date('2025-12-31') },
+            AND: [{ deadline: { lt: expect.any(Date) } }, { status: { not: TaskStatus.DONE } }],
+          }),
+        }),
+      );
+    });
+
+    it('should sort by deadline', async () => {
+      mockPrismaService.task.findMany.mockResolvedValue([]);
+      mockPrismaService.task.count.mockResolvedValue(0);
+
+      await service.findAll({ sortBy: TaskSortBy.DEADLINE }, 'user-id');
+
+      expect(mockPrismaService.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ deadline: 'asc' }, { createdAt: 'desc' }],
+        }),
+      );
+    });
+
+    it('should sort by remaining estimate and paginate in memory', async () => {
+      const createdAt = new Date('2025-12-01T00:00:00.000Z');
+      mockPrismaService.task.findMany
+        .mockResolvedValueOnce([
+          { id: 'a', estimateHours: 2, totalTimeSpent: 3600, createdAt },
+          { id: 'b', estimateHours: 1, totalTimeSpent: 7200, createdAt },
+          { id: 'c', estimateHours: 4, totalTimeSpent: 0, createdAt },
+        ])
+        .mockResolvedValueOnce([{ id: 'a' }, { id: 'b' }]);
+
+      const result = await service.findAll(
+        { page: 1, limit: 2, sortBy: TaskSortBy.REMAINING_ESTIMATE },
+        'user-id',
+      );
+
+      expect(mockPrismaService.task.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({ where: { id: { in: ['b', 'a'] } } }),
+      );
+      expect(result.items.map((task) => task.id)).toEqual(['b', 'a']);
+      expect(result.meta.totalItems).toBe(3);
     });
   });
 
@@ -174,6 +440,7 @@ describe('TasksService', () => {
         userId,
         status: TaskStatus.PLANNED,
         isActive: false,
+        blockedBy: [],
       };
 
       const updatedTask = {
@@ -195,12 +462,14 @@ describe('TasksService', () => {
       mockPrismaService.task.findUnique.mockResolvedValue(existingTask);
       mockTrackingService.stopAllActiveSessions.mockResolvedValue(undefined);
       mockTrackingService.createSession.mockResolvedValue(mockTracking);
+      const txTask = {
+        findMany: jest.fn().mockResolvedValue([{ id: 'previous-task-id' }]),
+        findFirst: jest.fn().mockResolvedValue({ position: 'k' }),
+        update: jest.fn().mockResolvedValue(updatedTask),
+      };
       mockPrismaService.$transaction.mockImplementation(async (callback) => {
         return callback({
-          task: {
-            updateMany: jest.fn().mockResolvedValue({}),
-            update: jest.fn().mockResolvedValue(updatedTask),
-          },
+          task: txTask,
           expTracking: {
             findMany: jest.fn().mockResolvedValue([]),
             findFirst: jest.fn().mockResolvedValue(null),
@@ -215,6 +484,10 @@ describe('TasksService', () => {
       expect(result.task.isActive).toBe(true);
       expect(result.session).toBeDefined();
       expect(result.session.status).toBe('active');
+      expect(txTask.update).toHaveBeenCalledWith({
+        where: { id: 'previous-task-id' },
+        data: { isActive: false, status: TaskStatus.PLANNED, position: 'l' },
+      });
       expect(mockTrackingService.stopAllActiveSessions).toHaveBeenCalledWith(
         userId,
         taskId,
@@ -224,9 +497,69 @@ describe('TasksService', () => {
         taskId,
         userId,
         expect.anything(),
+        undefined,
       );
     });
 
+    it('should start the session against a subtask of the task', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: 'task-id',
+        userId: 'user-id',
+        status: TaskStatus.PLANNED,
+        blockedBy: [],
+      });
+      mockPrismaService.$transaction.mockImplementation(async (callback) =>
+        callback({
+          task: {
+            findMany: jest.fn().mockResolvedValue([]),
+            findFirst: jest.fn().mockResolvedValue(null),
+            update: jest.fn(),
+          },
+        }),
+      );
+
+      await service.activate('task-id', 'user-id', 'subtask-id');
+
+      expect(mockTrackingService.assertSubtaskOfTask).toHaveBeenCalledWith('subtask-id', 'task-id');
+      expect(mockTrackingService.createSession).toHaveBeenCalledWith(
+        'task-id',
+        'user-id',
+        expect.anything(),
+        'subtask-id',
+      );
+    });
+
+    it('should start a Pomodoro clock for the new session', async () => {
+      const startTime = new Date('2025-12-25T09:00:00.000Z');
+      const pomodoroState = { sessionId: 'session-id', phase: 'WORK' };
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: 'task-id',
+        userId: 'user-id',
+        status: TaskStatus.PLANNED,
+        blockedBy: [],
+      });
+      mockTrackingService.createSession.mockResolvedValue({ id: 'session-id', startTime });
+      mockPomodoroService.start.mockResolvedValue(pomodoroState);
+      mockPrismaService.$transaction.mockImplementation(async (callback) =>
+        callback({
+          task: {
+            findMany: jest.fn().mockResolvedValue([]),
+            findFirst: jest.fn().mockResolvedValue(null),
+            update: jest.fn(),
+          },
+        }),
+      );
+
+      const result = await service.activate('task-id', 'user-id', undefined, { workMinutes: 50 });
+
+      expect(mockPomodoroService.start).toHaveBeenCalledWith(
+        'session-id',
+        { workMinutes: 50 },
+        startTime,
+      );
+      expect(result).toEqual(expect.objectContaining({ pomodoro: pomodoroState }));
+    });
+
     it('should throw BadRequestException if task is already DONE', async () => {
       const task = {
         id: 'task-id',
@@ -238,6 +571,24 @@ describe('TasksService', () => {
 
       await expect(service.activate('task-id', 'user-id')).rejects.toThrow(BadRequestException);
     });
+
+    it('should refuse to activate a task with unfinished blockers', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: 'task-id',
+        userId: 'user-id',
+        status: TaskStatus.PLANNED,
+        blockedBy: [
+          { id: 'task-1', name: 'Design schema', status: TaskStatus.DONE },
+          { id: 'task-2', name: 'Set up CI', status: TaskStatus.ACTIVE },
+          { id: 'task-3', name: 'Write specs', status: TaskStatus.PLANNED },
+        ],
+      });
+
+      await expect(service.activate('task-id', 'user-id')).rejects.toThrow(
+        'Task is blocked by unfinished tasks: "Set up CI", "Write specs"',
+      );
+      expect(mockPrismaService.$transaction).not.toHaveBeenCalled();
+    });
   });
 
   describe('complete', () => {
@@ -264,6 +615,7 @@ describe('TasksService', () => {
         return callback({
           task: {
             findUnique: jest.fn().mockResolvedValue(existingTask),
+            findFirst: jest.fn().mockResolvedValue(null),
             update: jest.fn().mockResolvedValue(completedTask),
           },
           trackingSession: {
@@ -277,6 +629,130 @@ describe('TasksService', () => {
 
       expect(result.status).toBe(TaskStatus.DONE);
       expect(result.isActive).toBe(false);
+      expect(mockTrackingService.finalizeSession).not.toHaveBeenCalled();
+      expect(mockLevelsService.awardTaskCompletion).toHaveBeenCalledWith(
+        userId,
+        taskId,
+        expect.anything(),
+      );
+      expect(mockLevelsService.refreshLevel).toHaveBeenCalledWith(userId);
+    });
+
+    it('should mark the shared room task of a copy done in the same transaction', async () => {
+      const existingTask = {
+        id: 'task-id',
+        userId: 'user-id',
+        status: TaskStatus.ACTIVE,
+        isActive: true,
+        roomTaskId: 'room-task-id',
+      };
+      const tx = {
+        task: {
+          findUnique: jest.fn().mockResolvedValue(existingTask),
+          findFirst: jest.fn().mockResolvedValue(null),
+          update: jest.fn().mockResolvedValue({ ...existingTask, status: TaskStatus.DONE }),
+        },
+        trackingSession: {
+          findFirst: jest.fn().mockResolvedValue(null),
+        },
+        roomTask: {
+          updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        },
+      };
+
+      mockPrismaService.task.findUnique.mockResolvedValue(existingTask);
+      mockPrismaService.$transaction.mockImplementation(async (callback) => callback(tx));
+
+      await service.complete('task-id', 'user-id');
+
+      expect(tx.roomTask.updateMany).toHaveBeenCalledWith({
+        where: { id: 'room-task-id', status: { not: TaskStatus.DONE } },
+        data: { status: TaskStatus.DONE, completedById: 'user-id', completedAt: expect.any(Date) },
+      });
+      expect(mockRoomTasksService.notifyCompleted).toHaveBeenCalledWith('room-task-id');
+    });
+
+    it('should not award the completion bonus twice', async () => {
+      const existingTask = {
+        id: 'task-id',
+        userId: 'user-id',
+        status: TaskStatus.DONE,
+        isActive: false,
+      };
+
+      mockPrismaService.task.findUnique.mockResolvedValue(existingTask);
+      mockPrismaService.$transaction.mockImplementation(async (callback) =>
+        callback({
+          task: {
+            findUnique: jest.fn().mockResolvedValue(existingTask),
+            update: jest.fn().mockResolvedValue(existingTask),
+          },
+          trackingSession: {
+            findFirst: jest.fn().mockResolvedValue(null),
+          },
+        }),
+      );
+
+      await service.complete('task-id', 'user-id');
+
+      expect(mockLevelsService.awardTaskCompletion).not.toHaveBeenCalled();
+    });
+
+    it('should finalize the running session through TrackingService', async () => {
+      const taskId = 'task-id';
+      const userId = 'user-id';
+
+      const existingTask = {
+        id: taskId,
+        userId,
+        status: TaskStatus.ACTIVE,
+        isActive: true,
+        estimateHours: 1,
+        totalTimeSpent: 600,
+        progress: 16.67,
+      };
+
+      const runningSession = {
+        id: 'session-id',
+        taskId,
+        userId,
+        startTime: new Date(),
+        status: 'paused',
+      };
+
+      const tx = {
+        task: {
+          findUnique: jest.fn().mockResolvedValue(existingTask),
+          findFirst: jest.fn().mockResolvedValue(null),
+          update: jest.fn().mockResolvedValue({
+            ...existingTask,
+            status: TaskStatus.DONE,
+            isActive: false,
+          }),
+        },
+        trackingSession: {
+          findFirst: jest.fn().mockResolvedValue(runningSession),
+        },
+      };
+
+      mockPrismaService.task.findUnique.mockResolvedValue(existingTask);
+      mockPrismaService.$transaction.mockImplementation(async (callback) => callback(tx));
+      mockTrackingService.finalizeSession.mockResolvedValue({
+        session: { ...runningSession, status: 'stopped' },
+        duration: 900,
+        totalTimeSpent: 1500,
+        progress: 41.67,
+      });
+
+      const result = await service.complete(taskId, userId);
+
+      expect(mockTrackingService.finalizeSession).toHaveBeenCalledWith(
+        runningSession,
+        existingTask,
+        tx,
+      );
+      expect(result.totalTimeSpent).toBe(1500);
+      expect(result.progress).toBe(41.67);
     });
   });
 
@@ -303,28 +779,470 @@ describe('TasksService', () => {
       const result = await service.update(taskId, updateDto, userId);
 
       expect(result.name).toBe('Updated Task');
+      expect(mockDeadlineReminderService.schedule).not.toHaveBeenCalled();
+    });
+
+    it('should reschedule reminders when the deadline changes', async () => {
+      const updatedTask = {
+        id: 'task-id',
+        userId: 'user-id',
+        deadline: new Date('2026-01-05'),
+        status: TaskStatus.PLANNED,
+      };
+
+      mockPrismaService.task.findUnique.mockResolvedValue({ id: 'task-id', userId: 'user-id' });
+      mockPrismaService.task.update.mockResolvedValue(updatedTask);
+
+      await service.update('task-id', { deadline: '2026-01-05' }, 'user-id');
+
+      expect(mockDeadlineReminderService.schedule).toHaveBeenCalledWith(updatedTask);
+    });
+
+    it('should award the completion bonus when the status is set to DONE', async () => {
+      const existingTask = { id: 'task-id', userId: 'user-id', status: TaskStatus.PLANNED };
+
+      mockPrismaService.task.findUnique.mockResolvedValue(existingTask);
+      mockPrismaService.task.update.mockResolvedValue({
+        ...existingTask,
+        status: TaskStatus.DONE,
+      });
+
+      await service.update('task-id', { status: TaskStatus.DONE }, 'user-id');
+
+      expect(mockLevelsService.awardTaskCompletion).toHaveBeenCalledWith(
+        'user-id',
+        'task-id',
+        mockPrismaService,
+      );
+      expect(mockLevelsService.refreshLevel).toHaveBeenCalledWith('user-id');
+    });
+
+    it('should stop the running session when the task leaves ACTIVE', async () => {
+      const existingTask = {
+        id: 'task-id',
+        userId: 'user-id',
+        status: TaskStatus.ACTIVE,
+        isActive: true,
+        totalTimeSpent: 600,
+        progress: 16.67,
+      };
+      const runningSession = { id: 'session-id', taskId: 'task-id', status: 'active' };
+
+      mockPrismaService.task.findUnique.mockResolvedValue(existingTask);
+      mockPrismaService.task.findFirst.mockResolvedValue({ position: 'k' });
+      mockPrismaService.trackingSession.findFirst.mockResolvedValue(runningSession);
+      mockPrismaService.task.update.mockResolvedValue({
+        ...existingTask,
+        status: TaskStatus.PLANNED,
+        isActive: false,
+      });
+
+      await service.update('task-id', { status: TaskStatus.PLANNED }, 'user-id');
+
+      expect(mockTrackingService.finalizeSession).toHaveBeenCalledWith(
+        runningSession,
+        existingTask,
+        mockPrismaService,
+      );
+      expect(mockPrismaService.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: TaskStatus.PLANNED,
+            isActive: false,
+            position: 'l',
+          }),
+        }),
+      );
+      expect(mockLevelsService.refreshLevel).toHaveBeenCalledWith('user-id');
     });
   });
 
-  describe('remove', () => {
-    it('should delete a task', async () => {
+  describe('update with dependencies', () => {
+    beforeEach(() => {
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: 'task-a',
+        name: 'Task A',
+        userId: 'user-id',
+      });
+    });
+
+    it('should replace the blocking tasks', async () => {
+      mockPrismaService.task.findMany
+        .mockResolvedValueOnce([{ id: 'task-b', isRecurringTemplate: false }])
+        .mockResolvedValueOnce([{ id: 'task-b', name: 'Task B', blockedBy: [] }]);
+      mockPrismaService.task.update.mockResolvedValue({ id: 'task-a' });
+
+      await service.update('task-a', { blockedByIds: ['task-b'] }, 'user-id');
+
+      expect(mockPrismaService.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { blockedBy: { set: [{ id: 'task-b' }] } },
+        }),
+      );
+    });
+
+    it('should reject dependencies that form a cycle', async () => {
+      // A <- B <- C <- A
+      mockPrismaService.task.findMany
+        .mockResolvedValueOnce([{ id: 'task-b', isRecurringTemplate: false }])
+        .mockResolvedValueOnce([{ id: 'task-b', name: 'Task B', blockedBy: [{ id: 'task-c' }] }])
+        .mockResolvedValueOnce([{ id: 'task-c', name: 'Task C', blockedBy: [{ id: 'task-a' }] }]);
+
+      await expect(
+        service.update('task-a', { blockedByIds: ['task-b'] }, 'user-id'),
+      ).rejects.toThrow(
+        'These dependencies would create a cycle: "Task A" → "Task B" → "Task C" → "Task A"',
+      );
+      expect(mockPrismaService.task.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject a task blocking itself and blockers of another user', async () => {
+      await expect(
+        service.update('task-a', { blockedByIds: ['task-a'] }, 'user-id'),
+      ).rejects.toThrow(BadRequestException);
+
+      mockPrismaService.task.findMany.mockResolvedValueOnce([]);
+
+      await expect(
+        service.update('task-a', { blockedByIds: ['task-x'] }, 'user-id'),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('update with recurrence', () => {
+    const occurrence = {
+      id: 'occurrence-id',
+      userId: 'user-id',
+      deadline: new Date('2025-12-29T17:00:00.000Z'),
+      occurrenceDate: new Date('2025-12-29T17:00:00.000Z'),
+      recurrenceParentId: 'template-id',
+      isRecurringTemplate: false,
+    };
+
+    const template = {
+      id: 'template-id',
+      userId: 'user-id',
+      name: 'Practice English',
+      estimateHours: 0.5,
+      checklistWeight: 0,
+      recurrenceRule: 'RRULE:FREQ=DAILY',
+      isRecurringTemplate: true,
+      projectId: null,
+      subtasks: [],
+      labels: [],
+    };
+
+    let tx: any;
+
+    beforeEach(() => {
+      tx = {
+        task: {
+          update: jest.fn(),
+          create: jest.fn().mockResolvedValue({ ...template, id: 'new-template-id' }),
+        },
+      };
+      mockPrismaService.$transaction.mockImplementation(async (arg) =>
+        typeof arg === 'function' ? arg(tx) : Promise.all(arg),
+      );
+      mockPrismaService.task.findMany.mockResolvedValue([]);
+    });
+
+    it('should reject a rule change on a single occurrence', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue(occurrence);
+
+      await expect(
+        service.update('occurrence-id', { recurrenceRule: 'FREQ=WEEKLY' }, 'user-id'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should apply shared fields to this and later occurrences', async () => {
+      mockPrismaService.task.findUnique
+        .mockResolvedValueOnce(occurrence)
+        .mockResolvedValueOnce(template)
+        .mockResolvedValue(occurrence);
+
+      await service.update(
+        'occurrence-id',
+        { name: 'Practice English speaking', scope: RecurrenceEditScope.FUTURE },
+        'user-id',
+      );
+
+      expect(mockPrismaService.task.update).toHaveBeenCalledWith({
+        where: { id: 'template-id' },
+        data: { name: 'Practice English speaking' },
+      });
+      expect(mockPrismaService.task.updateMany).toHaveBeenCalledWith({
+        where: {
+          recurrenceParentId: 'template-id',
+          occurrenceDate: { gte: occurrence.occurrenceDate },
+          status: { not: TaskStatus.DONE },
+        },
+        data: { name: 'Practice English speaking' },
+      });
+    });
+
+    it('should recalculate the progress of every occurrence given a new estimate', async () => {
+      mockPrismaService.task.findUnique
+        .mockResolvedValueOnce(occurrence)
+        .mockResolvedValueOnce(template)
+        .mockResolvedValue(occurrence);
+      mockPrismaService.task.findMany.mockResolvedValue([
+        { id: 'occurrence-id' },
+        { id: 'later-occurrence-id' },
+      ]);
+
+      await service.update(
+        'occurrence-id',
+        { estimateHours: 1, scope: RecurrenceEditScope.FUTURE },
+        'user-id',
+      );
+
+      expect(mockTrackingService.recalculateTaskProgress).toHaveBeenCalledTimes(2);
+      expect(mockTrackingService.recalculateTaskProgress).toHaveBeenCalledWith('occurrence-id');
+      expect(mockTrackingService.recalculateTaskProgress).toHaveBeenCalledWith(
+        'later-occurrence-id',
+      );
+    });
+
+    it('should split the series when the rule changes for future occurrences', async () => {
+      mockPrismaService.task.findUnique
+        .mockResolvedValueOnce(occurrence)
+        .mockResolvedValueOnce(template)
+        .mockResolvedValue(occurrence);
+
+      await service.update(
+        'occurrence-id',
+        { recurrenceRule: 'FREQ=WEEKLY;BYDAY=MO', scope: RecurrenceEditScope.FUTURE },
+        'user-id',
+      );
+
+      expect(tx.task.update).toHaveBeenCalledWith({
+        where: { id: 'template-id' },
+        data: { recurrenceRule: 'RRULE:FREQ=DAILY;UNTIL=20251227T235959Z' },
+      });
+      expect(tx.task.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            recurrenceRule: 'RRULE:FREQ=WEEKLY;BYDAY=MO',
+            isRecurringTemplate: true,
+            deadline: occurrence.deadline,
+          }),
+        }),
+      );
+      expect(tx.task.update).toHaveBeenCalledWith({
+        where: { id: 'occurrence-id' },
+        data: {
+          deadline: occurrence.deadline,
+          recurrenceParentId: 'new-template-id',
+          occurrenceDate: occurrence.deadline,
+        },
+      });
+      expect(mockRecurrenceService.generateOccurrences).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'new-template-id' }),
+      );
+    });
+  });
+
+  describe('reorder', () => {
+    beforeEach(() => {
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: 'task-id',
+        userId: 'user-id',
+        status: TaskStatus.PLANNED,
+        isRecurringTemplate: false,
+        blockedBy: [],
+      });
+      mockPrismaService.task.findMany.mockResolvedValue([]);
+    });
+
+    it('should place the task between its new neighbours only', async () => {
+      mockPrismaService.task.count.mockResolvedValue(3);
+      mockPrismaService.task.findMany
+        .mockResolvedValueOnce([]) // no tasks without a position
+        .mockResolvedValueOnce([{ position: 'i' }, { position: 'j' }]);
+
+      await service.reorder({ taskId: 'task-id', status: TaskStatus.PLANNED, index: 1 }, 'user-id');
+
+      expect(mockPrismaService.task.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ status: TaskStatus.PLANNED, id: { not: 'task-id' } }),
+          skip: 0,
+          take: 2,
+        }),
+      );
+      expect(mockPrismaService.task.update).toHaveBeenCalledTimes(1);
+      expect(mockPrismaService.task.update).toHaveBeenCalledWith({
+        where: { id: 'task-id' },
+        data: { position: 'ii' },
+      });
+    });
+
+    it('should move a task to the top of a column', async () => {
+      mockPrismaService.task.count.mockResolvedValue(2);
+      mockPrismaService.task.findMany
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([{ position: 'i' }]);
+
+      await service.reorder({ taskId: 'task-id', status: TaskStatus.PLANNED, index: 0 }, 'user-id');
+
+      expect(mockPrismaService.task.update).toHaveBeenCalledWith({
+        where: { id: 'task-id' },
+        data: { position: '9' },
+      });
+    });
+
+    it('should complete a task moved into the DONE column', async () => {
+      const completeSpy = jest.spyOn(service, 'complete').mockResolvedValue(undefined);
+      mockPrismaService.task.count.mockResolvedValue(0);
+
+      await service.reorder({ taskId: 'task-id', status: TaskStatus.DONE, index: 0 }, 'user-id');
+
+      expect(completeSpy).toHaveBeenCalledWith('task-id', 'user-id');
+      expect(mockPrismaService.task.update).toHaveBeenCalledWith({
+        where: { id: 'task-id' },
+        data: { position: 'i' },
+      });
+    });
+
+    it('should activate a task moved into the ACTIVE column', async () => {
+      const activateSpy = jest.spyOn(service, 'activate').mockResolvedValue(undefined);
+      mockPrismaService.task.count.mockResolvedValue(0);
+
+      await service.reorder({ taskId: 'task-id', status: TaskStatus.ACTIVE, index: 0 }, 'user-id');
+
+      expect(activateSpy).toHaveBeenCalledWith('task-id', 'user-id');
+    });
+  });
+
+  describe('archive', () => {
+    beforeEach(() => {
+      mockPrismaService.$transaction.mockImplementation(async (callback) =>
+        callback(mockPrismaService),
+      );
+    });
+
+    it('should archive a task instead of deleting it', async () => {
       const taskId = 'task-id';
       const userId = 'user-id';
 
-      const existingTask = {
+      mockPrismaService.task.findUnique.mockResolvedValue({
         id: taskId,
         userId,
+        status: TaskStatus.PLANNED,
+        archivedAt: null,
+      });
+      mockPrismaService.trackingSession.findFirst.mockResolvedValue(null);
+
+      const result = await service.archive(taskId, userId);
+
+      expect(result).toEqual({ message: 'Task archived successfully' });
+      expect(mockPrismaService.task.delete).not.toHaveBeenCalled();
+      expect(mockPrismaService.task.update).toHaveBeenCalledWith({
+        where: { id: taskId },
+        data: { archivedAt: expect.any(Date), isActive: false },
+      });
+      expect(mockDeadlineReminderService.cancel).toHaveBeenCalledWith(taskId);
+      expect(mockTrackingService.finalizeSession).not.toHaveBeenCalled();
+    });
+
+    it('should stop the running session and credit its time first', async () => {
+      const task = {
+        id: 'task-id',
+        userId: 'user-id',
+        status: TaskStatus.ACTIVE,
+        isActive: true,
+        archivedAt: null,
+        totalTimeSpent: 600,
+        estimateHours: 1,
+        progress: 16,
       };
+      const session = { id: 'session-id', taskId: 'task-id', userId: 'user-id' };
 
-      mockPrismaService.task.findUnique.mockResolvedValue(existingTask);
-      mockPrismaService.task.delete.mockResolvedValue(existingTask);
+      mockPrismaService.task.findUnique.mockResolvedValue(task);
+      mockPrismaService.trackingSession.findFirst.mockResolvedValue(session);
 
-      const result = await service.remove(taskId, userId);
+      await service.archive('task-id', 'user-id');
 
-      expect(result).toEqual({ message: 'Task deleted successfully' });
-      expect(mockPrismaService.task.delete).toHaveBeenCalledWith({
-        where: { id: taskId },
+      expect(mockTrackingService.finalizeSession).toHaveBeenCalledWith(
+        session,
+        task,
+        mockPrismaService,
+        expect.any(Date),
+      );
+      expect(mockPrismaService.task.update).toHaveBeenCalledWith({
+        where: { id: 'task-id' },
+        data: { archivedAt: expect.any(Date), isActive: false, status: TaskStatus.PLANNED },
+      });
+      expect(mockLevelsService.refreshLevel).toHaveBeenCalledWith('user-id');
+    });
+
+    it('should reject tasks that are already archived', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: 'task-id',
+        userId: 'user-id',
+        archivedAt: new Date(),
+      });
+
+      await expect(service.archive('task-id', 'user-id')).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not let archived tasks be activated', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: 'task-id',
+        userId: 'user-id',
+        status: TaskStatus.PLANNED,
+        archivedAt: new Date(),
+        blockedBy: [],
       });
+
+      await expect(service.activate('task-id', 'user-id')).rejects.toThrow(
+        'Task is archived; restore it first',
+      );
+    });
+  });
+
+  describe('restore', () => {
+    it('should unarchive the task at the end of its column and reschedule reminders', async () => {
+      const archived = {
+        id: 'task-id',
+        userId: 'user-id',
+        status: TaskStatus.PLANNED,
+        isRecurringTemplate: false,
+        archivedAt: new Date(),
+      };
+      const restored = {
+        id: 'task-id',
+        deadline: new Date('2025-12-30'),
+        status: TaskStatus.PLANNED,
+        isRecurringTemplate: false,
+      };
+
+      mockPrismaService.task.findUnique
+        .mockResolvedValueOnce(archived)
+        .mockResolvedValueOnce({ ...archived, archivedAt: null });
+      mockPrismaService.task.findFirst.mockResolvedValue({ position: 'k' });
+      mockPrismaService.task.update.mockResolvedValue(restored);
+
+      const result = await service.restore('task-id', 'user-id');
+
+      expect(mockPrismaService.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 'task-id' },
+          data: { archivedAt: null, position: 'l' },
+        }),
+      );
+      expect(mockDeadlineReminderService.schedule).toHaveBeenCalledWith(restored);
+      expect(result.archivedAt).toBeNull();
+    });
+
+    it('should reject tasks that are not archived', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: 'task-id',
+        userId: 'user-id',
+        archivedAt: null,
+      });
+
+      await expect(service.restore('task-id', 'user-id')).rejects.toThrow(BadRequestException);
     });
   });
 });
@@ -8,12 +8,72 @@ import {
 } from '@nestjs/common';
 import { PrismaService } from '@/database/prisma.service';
 import { CreateTaskDto } from './dto/create-task.dto';
-import { UpdateTaskDto } from './dto/update-task.dto';
-import { QueryTasksDto } from './dto/query-tasks.dto';
+import { RecurrenceEditScope, UpdateTaskDto } from './dto/update-task.dto';
+import {
+  ArchiveFilter,
+  QueryTasksDto,
+  SortOrder,
+  TaskSortBy,
+  TemplateFilter,
+} from './dto/query-tasks.dto';
+import { ReorderTaskDto } from './dto/reorder-task.dto';
 import { getPaginationOptions, paginate } from '@/common/utils/pagination.util';
+import { generateKeyBetween } from '@/common/utils/fractional-index.util';
 import { PaginatedResponse } from '@/common/interfaces/api-response.interface';
-import { TaskStatus } from '@prisma/client';
+import { SessionStatus, TaskPriority, TaskStatus } from '@prisma/client';
 import { TrackingService } from '../tracking/tracking.service';
+import { PomodoroService } from '../tracking/pomodoro.service';
+import { PomodoroSettingsDto } from '../tracking/dto/pomodoro-settings.dto';
+import { LevelsService } from '../levels/levels.service';
+import { StreaksService } from '../streaks/streaks.service';
+import { RecurrenceService } from './recurrence.service';
+import { DeadlineReminderService } from './deadline-reminder.service';
+import { EstimateInsightsService } from './estimate-insights.service';
+import { RoomTasksService } from '../rooms/room-tasks.service';
+
+const TASK_LIST_SELECT = {
+  id: true,
+  name: true,
+  estimateHours: true,
+  deadline: true,
+  status: true,
+  isActive: true,
+  progress: true,
+  totalTimeSpent: true,
+  checklistWeight: true,
+  priority: true,
+  position: true,
+  recurrenceRule: true,
+  isRecurringTemplate: true,
+  recurrenceParentId: true,
+  occurrenceDate: true,
+  roomTaskId: true,
+  archivedAt: true,
+  projectId: true,
+  project: { select: { id: true, name: true, color: true } },
+  labels: { select: { id: true, name: true, color: true } },
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+};
+
+// Tasks of one board column, without the task being moved
+interface BoardColumn {
+  userId: string;
+  status: TaskStatus;
+  isRecurringTemplate: boolean;
+  archivedAt: null;
+  id: { not: string };
+}
+
+const DEPENDENCY_SELECT = {
+  id: true,
+  name: true,
+  status: true,
+  deadline: true,
+  progress: true,
+  archivedAt: true,
+};
 
 @Injectable()
 export class TasksService {
@@ -21,17 +81,63 @@ export class TasksService {
     private prisma: PrismaService,
     @Inject(forwardRef(() => TrackingService))
     private trackingService: TrackingService,
+    private levelsService: LevelsService,
+    private streaksService: StreaksService,
+    private recurrenceService: RecurrenceService,
+    private deadlineReminderService: DeadlineReminderService,
+    private estimateInsightsService: EstimateInsightsService,
+    @Inject(forwardRef(() => PomodoroService))
+    private pomodoroService: PomodoroService,
+    @Inject(forwardRef(() => RoomTasksService))
+    private roomTasksService: RoomTasksService,
   ) {}
 
-  async create(createTaskDto: CreateTaskDto, userId: string) {
-    const task = await this.prisma.task.create({
+  /**
+   * Create a task. roomTaskId links it as the user's copy of a shared room task.
+   */
+  async create(createTaskDto: CreateTaskDto, userId: string, roomTaskId?: string, tx?: any) {
+    const prisma = tx || this.prisma;
+
+    await this.assertGroupingOwned(userId, createTaskDto.projectId, createTaskDto.labelIds);
+
+    // A task with a recurrence rule is the template of a series
+    const recurrenceRule = createTaskDto.recurrenceRule
+      ? this.recurrenceService.normalizeRule(createTaskDto.recurrenceRule)
+      : null;
+
+    if (createTaskDto.blockedByIds?.length) {
+      if (recurrenceRule) {
+        throw new BadRequestException('Recurring task templates cannot have dependencies');
+      }
+
+      // A new task blocks nothing yet, so it cannot close a cycle
+      await this.assertBlockersAllowed(userId, createTaskDto.blockedByIds);
+    }
+
+    const task = await prisma.task.create({
       data: {
         name: createTaskDto.name,
         estimateHours: createTaskDto.estimateHours,
         deadline: new Date(createTaskDto.deadline),
+        checklistWeight: createTaskDto.checklistWeight,
+        priority: createTaskDto.priority,
+        // New tasks go to the end of the PLANNED column; templates are not on the board
+        ...(recurrenceRule === null && {
+          position: await this.getColumnEndPosition(userId, TaskStatus.PLANNED, tx),
+        }),
+        recurrenceRule,
+        isRecurringTemplate: recurrenceRule !== null,
+        projectId: createTaskDto.projectId,
+        ...(createTaskDto.labelIds?.length && {
+          labels: { connect: createTaskDto.labelIds.map((id) => ({ id })) },
+        }),
+        ...(createTaskDto.blockedByIds?.length && {
+          blockedBy: { connect: createTaskDto.blockedByIds.map((id) => ({ id })) },
+        }),
         status: TaskStatus.PLANNED,
         isActive: false,
         userId,
+        roomTaskId,
       },
       select: {
         id: true,
@@ -40,13 +146,41 @@ export class TasksService {
         deadline: true,
         status: true,
         isActive: true,
+        checklistWeight: true,
+        priority: true,
+        position: true,
+        recurrenceRule: true,
+        isRecurringTemplate: true,
+        recurrenceParentId: true,
+        occurrenceDate: true,
+        roomTaskId: true,
+        projectId: true,
+        project: { select: { id: true, name: true, color: true } },
+        labels: { select: { id: true, name: true, color: true } },
         userId: true,
         createdAt: true,
         updatedAt: true,
       },
     });
 
-    return task;
+    if (task.isRecurringTemplate) {
+      await this.recurrenceService.generateOccurrences({
+        ...task,
+        recurrenceGeneratedUntil: null,
+        subtasks: [],
+      });
+    } else {
+      await this.deadlineReminderService.schedule(task);
+    }
+
+    // e.g. "You usually take 1.4× your estimate" - the client may offer to apply it
+    const estimateSuggestion = await this.estimateInsightsService.suggestEstimate(
+      userId,
+      createTaskDto.estimateHours,
+      createTaskDto.labelIds,
+    );
+
+    return { ...task, estimateSuggestion };
   }
 
   async findAll(query: QueryTasksDto, userId: string): Promise<PaginatedResponse<any>> {
@@ -66,6 +200,24 @@ export class TasksService {
       where.isActive = query.isActive;
     }
 
+    if (query.priority) {
+      where.priority = query.priority;
+    }
+
+    // Recurring series templates are hidden unless requested
+    if (query.templates === TemplateFilter.ONLY) {
+      where.isRecurringTemplate = true;
+    } else if (query.templates !== TemplateFilter.INCLUDE) {
+      where.isRecurringTemplate = false;
+    }
+
+    // Archived tasks are hidden unless requested
+    if (query.archived === ArchiveFilter.ONLY) {
+      where.archivedAt = { not: null };
+    } else if (query.archived !== ArchiveFilter.INCLUDE) {
+      where.archivedAt = null;
+    }
+
     // Search filter
     if (query.search) {
       where.name = {
@@ -74,28 +226,41 @@ export class TasksService {
       };
     }
 
+    if (query.labelId) {
+      where.labels = { some: { id: query.labelId } };
+    }
+
+    if (query.projectId) {
+      where.projectId = query.projectId;
+    }
+
+    if (query.deadlineFrom || query.deadlineTo) {
+      where.deadline = {
+        ...(query.deadlineFrom && { gte: new Date(query.deadlineFrom) }),
+        ...(query.deadlineTo && { lte: new Date(query.deadlineTo) }),
+      };
+    }
+
+    // Overdue = past the deadline and not done yet
+    if (query.overdue !== undefined) {
+      const now = new Date();
+      where.AND = query.overdue
+        ? [{ deadline: { lt: now } }, { status: { not: TaskStatus.DONE } }]
+        : [{ OR: [{ deadline: { gte: now } }, { status: TaskStatus.DONE }] }];
+    }
+
+    // Remaining estimate is derived, so that ordering is done in memory
+    if (query.sortBy === TaskSortBy.REMAINING_ESTIMATE) {
+      return this.findAllByRemainingEstimate(where, query.sortOrder, page, limit);
+    }
+
     const [tasks, total] = await Promise.all([
       this.prisma.task.findMany({
         where,
         skip,
         take,
-        select: {
-          id: true,
-          name: true,
-          estimateHours: true,
-          deadline: true,
-          status: true,
-          isActive: true,
-          progress: true,
-          totalTimeSpent: true,
-          userId: true,
-          createdAt: true,
-          updatedAt: true,
-        },
-        orderBy: [
-          { isActive: 'desc' }, // Active tasks first
-          { createdAt: 'desc' },
-        ],
+        select: TASK_LIST_SELECT,
+        orderBy: this.getOrderBy(query.sortBy, query.sortOrder),
       }),
       this.prisma.task.count({ where }),
     ]);
@@ -115,9 +280,35 @@ export class TasksService {
         isActive: true,
         progress: true,
         totalTimeSpent: true,
+        checklistWeight: true,
+        priority: true,
+        position: true,
+        recurrenceRule: true,
+        isRecurringTemplate: true,
+        recurrenceParentId: true,
+        occurrenceDate: true,
+        roomTaskId: true,
+        archivedAt: true,
+        projectId: true,
+        project: { select: { id: true, name: true, color: true } },
+        labels: { select: { id: true, name: true, color: true } },
         userId: true,
         createdAt: true,
         updatedAt: true,
+        // Upstream (must be done first) and downstream (waiting on this task) dependencies
+        blockedBy: { select: DEPENDENCY_SELECT, orderBy: { deadline: 'asc' } },
+        blocks: { select: DEPENDENCY_SELECT, orderBy: { deadline: 'asc' } },
+        subtasks: {
+          select: {
+            id: true,
+            name: true,
+            estimateHours: true,
+            isDone: true,
+            completedAt: true,
+            position: true,
+          },
+          orderBy: [{ position: 'asc' }, { createdAt: 'asc' }],
+        },
       },
     });
 
@@ -149,6 +340,16 @@ export class TasksService {
         isActive: true,
         progress: true,
         totalTimeSpent: true,
+        checklistWeight: true,
+        priority: true,
+        position: true,
+        recurrenceRule: true,
+        isRecurringTemplate: true,
+        recurrenceParentId: true,
+        occurrenceDate: true,
+        projectId: true,
+        project: { select: { id: true, name: true, color: true } },
+        labels: { select: { id: true, name: true, color: true } },
         userId: true,
         createdAt: true,
         updatedAt: true,
@@ -158,30 +359,58 @@ export class TasksService {
     return task;
   }
 
-  async activate(id: string, userId: string) {
+  async activate(id: string, userId: string, subtaskId?: string, pomodoro?: PomodoroSettingsDto) {
     // Find task and verify ownership
     const task = await this.findOne(id, userId);
 
+    this.assertNotArchived(task);
+
     // Check if task is already done
     if (task.status === TaskStatus.DONE) {
       throw new BadRequestException('Cannot activate a completed task');
     }
 
+    if (task.isRecurringTemplate) {
+      throw new BadRequestException('Cannot activate a recurring task template');
+    }
+
+    // Archived blockers no longer hold the task back
+    const openBlockers = task.blockedBy.filter(
+      (blocker) => blocker.status !== TaskStatus.DONE && !blocker.archivedAt,
+    );
+    if (openBlockers.length > 0) {
+      throw new BadRequestException(
+        `Task is blocked by unfinished tasks: ${openBlockers.map((blocker) => `"${blocker.name}"`).join(', ')}`,
+      );
+    }
+
+    if (subtaskId) {
+      await this.trackingService.assertSubtaskOfTask(subtaskId, id);
+    }
+
     // Use transaction to ensure only one active task and proper tracking
     const result = await this.prisma.$transaction(async (tx) => {
-      // Deactivate all other tasks for this user
-      await tx.task.updateMany({
+      // Deactivate all other tasks for this user, moving them to the end of PLANNED
+      const previouslyActive = await tx.task.findMany({
         where: {
           userId,
           isActive: true,
           id: { not: id },
         },
-        data: {
-          isActive: false,
-          status: TaskStatus.PLANNED,
-        },
+        select: { id: true },
       });
 
+      for (const previous of previouslyActive) {
+        await tx.task.update({
+          where: { id: previous.id },
+          data: {
+            isActive: false,
+            status: TaskStatus.PLANNED,
+            position: await this.getColumnEndPosition(userId, TaskStatus.PLANNED, tx),
+          },
+        });
+      }
+
       // Stop all active/paused sessions (except this task)
       await this.trackingService.stopAllActiveSessions(userId, id, tx);
 
@@ -191,6 +420,9 @@ export class TasksService {
         data: {
           status: TaskStatus.ACTIVE,
           isActive: true,
+          ...(task.status !== TaskStatus.ACTIVE && {
+            position: await this.getColumnEndPosition(userId, TaskStatus.ACTIVE, tx),
+          }),
         },
         select: {
           id: true,
@@ -201,6 +433,16 @@ export class TasksService {
           isActive: true,
           progress: true,
           totalTimeSpent: true,
+          checklistWeight: true,
+          priority: true,
+          position: true,
+          recurrenceRule: true,
+          isRecurringTemplate: true,
+          recurrenceParentId: true,
+          occurrenceDate: true,
+          projectId: true,
+          project: { select: { id: true, name: true, color: true } },
+          labels: { select: { id: true, name: true, color: true } },
           userId: true,
           createdAt: true,
           updatedAt: true,
@@ -208,7 +450,7 @@ export class TasksService {
       });
 
       // Create new tracking session
-      const session = await this.trackingService.createSession(id, userId, tx);
+      const session = await this.trackingService.createSession(id, userId, tx, subtaskId);
 
       return {
         task: updatedTask,
@@ -216,6 +458,21 @@ export class TasksService {
       };
     });
 
+    // Sessions stopped above may have earned enough EXP to level up or complete the day's goal
+    await this.levelsService.refreshLevel(userId);
+    await this.streaksService.recordActivity(userId);
+
+    if (pomodoro) {
+      return {
+        ...result,
+        pomodoro: await this.pomodoroService.start(
+          result.session.id,
+          pomodoro,
+          result.session.startTime,
+        ),
+      };
+    }
+
     return result;
   }
 
@@ -229,7 +486,7 @@ export class TasksService {
     // Get task
     const task = await prisma.task.findUnique({
       where: { id: taskId },
-      select: { id: true, status: true },
+      select: { id: true, status: true, userId: true, roomTaskId: true },
     });
 
     if (!task) {
@@ -244,9 +501,18 @@ export class TasksService {
         data: {
           status: TaskStatus.DONE,
           isActive: false,
+          completedAt: new Date(),
+          position: await this.getColumnEndPosition(task.userId, TaskStatus.DONE, prisma),
         },
       });
 
+      await this.levelsService.awardTaskCompletion(task.userId, taskId, prisma);
+      // Read through the transaction, which commits with the caller
+      if (await this.completeRoomTask(task.roomTaskId, task.userId, prisma)) {
+        await this.roomTasksService.notifyCompleted(task.roomTaskId, prisma);
+      }
+      await this.deadlineReminderService.cancel(taskId);
+
       return true; // Task was completed
     }
 
@@ -255,7 +521,15 @@ export class TasksService {
 
   async complete(id: string, userId: string) {
     // Find task and verify ownership
-    await this.findOne(id, userId);
+    const existingTask = await this.findOne(id, userId);
+
+    this.assertNotArchived(existingTask);
+
+    if (existingTask.isRecurringTemplate) {
+      throw new BadRequestException('Cannot complete a recurring task template');
+    }
+
+    let roomTaskCompleted = false;
 
     // Use transaction to update both task and tracking
     const result = await this.prisma.$transaction(async (tx) => {
@@ -264,9 +538,14 @@ export class TasksService {
         where: { id },
         select: {
           id: true,
+          status: true,
           estimateHours: true,
+          checklistWeight: true,
+          priority: true,
+          position: true,
           totalTimeSpent: true,
           progress: true,
+          roomTaskId: true,
         },
       });
 
@@ -274,12 +553,23 @@ export class TasksService {
         throw new NotFoundException('Task not found');
       }
 
+      // Completion bonus is only granted once per task
+      if (task.status !== TaskStatus.DONE) {
+        await this.levelsService.awardTaskCompletion(userId, id, tx);
+        roomTaskCompleted = await this.completeRoomTask(task.roomTaskId, userId, tx);
+      }
+
       // Update task to DONE and deactivate
       const updatedTask = await tx.task.update({
         where: { id },
         data: {
           status: TaskStatus.DONE,
           isActive: false,
+          // Completing an already done task keeps its original completion time and place
+          ...(task.status !== TaskStatus.DONE && {
+            completedAt: new Date(),
+            position: await this.getColumnEndPosition(userId, TaskStatus.DONE, tx),
+          }),
         },
         select: {
           id: true,
@@ -290,6 +580,16 @@ export class TasksService {
           isActive: true,
           progress: true,
           totalTimeSpent: true,
+          checklistWeight: true,
+          priority: true,
+          position: true,
+          recurrenceRule: true,
+          isRecurringTemplate: true,
+          recurrenceParentId: true,
+          occurrenceDate: true,
+          projectId: true,
+          project: { select: { id: true, name: true, color: true } },
+          labels: { select: { id: true, name: true, color: true } },
           userId: true,
           createdAt: true,
           updatedAt: true,
@@ -306,44 +606,58 @@ export class TasksService {
       });
 
       if (activeSession) {
-        const now = new Date();
-        const duration = Math.floor((now.getTime() - activeSession.startTime.getTime()) / 1000);
+        // Close the session and add its active (non-paused) time to the task
+        const { totalTimeSpent, progress } = await this.trackingService.finalizeSession(
+          activeSession,
+          task,
+          tx,
+        );
 
-        // Calculate final progress
-        const newTotalTimeSpent = task.totalTimeSpent + duration;
-        const estimatedSeconds = Number(task.estimateHours) * 3600;
-        const finalProgress = Math.min((newTotalTimeSpent / estimatedSeconds) * 100, 100);
-        const expEarned = duration; // EXP in seconds
-
-        await tx.trackingSession.update({
-          where: { id: activeSession.id },
-          data: {
-            endTime: now,
-            duration,
-            status: 'stopped',
-            expEarned: expEarned,
-          },
-        });
-
-        // Update task with final progress
-        await tx.task.update({
-          where: { id },
-          data: {
-            totalTimeSpent: newTotalTimeSpent,
-            progress: finalProgress,
-          },
-        });
+        updatedTask.totalTimeSpent = totalTimeSpent;
+        updatedTask.progress = progress;
       }
 
       return updatedTask;
     });
 
+    if (roomTaskCompleted) {
+      await this.roomTasksService.notifyCompleted(existingTask.roomTaskId);
+    }
+
+    await this.deadlineReminderService.cancel(id);
+    await this.levelsService.refreshLevel(userId);
+    await this.streaksService.recordActivity(userId);
+
     return result;
   }
 
   async update(id: string, updateTaskDto: UpdateTaskDto, userId: string) {
     // Find task and verify ownership
-    await this.findOne(id, userId);
+    const task = await this.findOne(id, userId);
+
+    this.assertNotArchived(task);
+
+    await this.assertGroupingOwned(userId, updateTaskDto.projectId, updateTaskDto.labelIds);
+
+    if (updateTaskDto.blockedByIds?.length) {
+      if (task.isRecurringTemplate) {
+        throw new BadRequestException('Recurring task templates cannot have dependencies');
+      }
+
+      await this.assertBlockersAllowed(userId, updateTaskDto.blockedByIds, task);
+    }
+
+    if (task.recurrenceParentId && updateTaskDto.scope === RecurrenceEditScope.FUTURE) {
+      return this.updateFutureOccurrences(task, updateTaskDto, userId);
+    }
+
+    if (updateTaskDto.recurrenceRule !== undefined && !task.isRecurringTemplate) {
+      throw new BadRequestException(
+        task.recurrenceParentId
+          ? 'Changing the recurrence rule of an occurrence requires scope "future"'
+          : 'Only recurring tasks have a recurrence rule',
+      );
+    }
 
     // Prepare update data
     const updateData: any = {};
@@ -360,43 +674,721 @@ export class TasksService {
       updateData.deadline = new Date(updateTaskDto.deadline);
     }
 
+    if (updateTaskDto.checklistWeight !== undefined) {
+      updateData.checklistWeight = updateTaskDto.checklistWeight;
+    }
+
+    if (updateTaskDto.priority !== undefined) {
+      updateData.priority = updateTaskDto.priority;
+    }
+
+    if (updateTaskDto.projectId !== undefined) {
+      updateData.projectId = updateTaskDto.projectId;
+    }
+
+    if (updateTaskDto.labelIds !== undefined) {
+      updateData.labels = { set: updateTaskDto.labelIds.map((labelId) => ({ id: labelId })) };
+    }
+
+    if (updateTaskDto.blockedByIds !== undefined) {
+      updateData.blockedBy = {
+        set: updateTaskDto.blockedByIds.map((blockerId) => ({ id: blockerId })),
+      };
+    }
+
+    if (updateTaskDto.recurrenceRule !== undefined) {
+      updateData.recurrenceRule = this.recurrenceService.normalizeRule(
+        updateTaskDto.recurrenceRule,
+      );
+    }
+
     if (updateTaskDto.status !== undefined) {
       updateData.status = updateTaskDto.status;
       // If status is not ACTIVE, deactivate
       if (updateTaskDto.status !== TaskStatus.ACTIVE) {
         updateData.isActive = false;
       }
+
+      if (updateTaskDto.status !== task.status) {
+        updateData.completedAt = updateTaskDto.status === TaskStatus.DONE ? new Date() : null;
+      }
     }
 
-    const updatedTask = await this.prisma.task.update({
-      where: { id },
-      data: updateData,
-      select: {
-        id: true,
-        name: true,
-        estimateHours: true,
-        deadline: true,
-        status: true,
-        isActive: true,
-        progress: true,
-        totalTimeSpent: true,
-        userId: true,
-        createdAt: true,
-        updatedAt: true,
-      },
-    });
+    // Moving the task out of ACTIVE stops its session, as activating another task does
+    const leavesActive =
+      task.status === TaskStatus.ACTIVE &&
+      updateData.status !== undefined &&
+      updateData.status !== TaskStatus.ACTIVE;
+
+    const { updatedTask, stoppedSession, completed, roomTaskCompleted } =
+      await this.prisma.$transaction(async (tx) => {
+        const openSession = leavesActive
+          ? await tx.trackingSession.findFirst({
+              where: { taskId: id, status: { in: [SessionStatus.active, SessionStatus.paused] } },
+            })
+          : null;
+
+        if (openSession) {
+          await this.trackingService.finalizeSession(openSession, task, tx);
+        }
+
+        if (
+          !task.isRecurringTemplate &&
+          updateData.status !== undefined &&
+          updateData.status !== task.status
+        ) {
+          updateData.position = await this.getColumnEndPosition(userId, updateData.status, tx);
+        }
+
+        const updatedTask = await tx.task.update({
+          where: { id },
+          data: updateData,
+          select: {
+            id: true,
+            name: true,
+            estimateHours: true,
+            deadline: true,
+            status: true,
+            isActive: true,
+            progress: true,
+            totalTimeSpent: true,
+            checklistWeight: true,
+            priority: true,
+            position: true,
+            recurrenceRule: true,
+            isRecurringTemplate: true,
+            recurrenceParentId: true,
+            occurrenceDate: true,
+            projectId: true,
+            project: { select: { id: true, name: true, color: true } },
+            labels: { select: { id: true, name: true, color: true } },
+            userId: true,
+            createdAt: true,
+            updatedAt: true,
+          },
+        });
+
+        const completed = updateData.status === TaskStatus.DONE && task.status !== TaskStatus.DONE;
+
+        let roomTaskCompleted = false;
+
+        if (completed && !task.isRecurringTemplate) {
+          await this.levelsService.awardTaskCompletion(userId, id, tx);
+          roomTaskCompleted = await this.completeRoomTask(task.roomTaskId, userId, tx);
+        }
+
+        return { updatedTask, stoppedSession: !!openSession, completed, roomTaskCompleted };
+      });
+
+    if (stoppedSession || completed) {
+      await this.levelsService.refreshLevel(userId);
+      await this.streaksService.recordActivity(userId);
+    }
+
+    if (roomTaskCompleted) {
+      await this.roomTasksService.notifyCompleted(task.roomTaskId);
+    }
+
+    // Progress depends on the estimate and the checklist weight
+    if (updateData.estimateHours !== undefined || updateData.checklistWeight !== undefined) {
+      updatedTask.progress = await this.trackingService.recalculateTaskProgress(id);
+    }
+
+    // Reminders follow the deadline and stop once the task is done
+    if (updateData.deadline !== undefined || updateData.status !== undefined) {
+      await this.deadlineReminderService.schedule(updatedTask);
+    }
+
+    // Editing a template changes the series from now on
+    if (task.isRecurringTemplate) {
+      await this.applyTemplateChanges(id, updateData);
+    }
 
     return updatedTask;
   }
 
-  async remove(id: string, userId: string) {
+  /**
+   * Move a task to an index of a status column (board view). Only the moved task gets
+   * a new position key. Moving into ACTIVE activates the task (starting tracking and
+   * moving the previous active task back to PLANNED); moving into DONE completes it.
+   */
+  async reorder(reorderTaskDto: ReorderTaskDto, userId: string) {
+    const { taskId, status } = reorderTaskDto;
+    const task = await this.findOne(taskId, userId);
+
+    this.assertNotArchived(task);
+
+    if (task.isRecurringTemplate) {
+      throw new BadRequestException('Recurring task templates are not on the board');
+    }
+
+    if (task.status !== status) {
+      if (status === TaskStatus.ACTIVE) {
+        await this.activate(taskId, userId);
+      } else if (status === TaskStatus.DONE) {
+        await this.complete(taskId, userId);
+      } else {
+        await this.update(taskId, { status }, userId);
+      }
+    }
+
+    const column: BoardColumn = {
+      userId,
+      status,
+      isRecurringTemplate: false,
+      archivedAt: null,
+      id: { not: taskId },
+    };
+
+    await this.assignMissingPositions(column);
+
+    const count = await this.prisma.task.count({ where: column });
+    const index = Math.min(reorderTaskDto.index, count);
+    const neighbours = await this.findNeighbourPositions(column, index);
+
+    await this.prisma.task.update({
+      where: { id: taskId },
+      data: { position: generateKeyBetween(neighbours.before, neighbours.after) },
+    });
+
+    return this.findOne(taskId, userId);
+  }
+
+  /**
+   * Archive a task instead of deleting it. Its sessions, EXP and analytics are kept;
+   * it is hidden from the task list and purged after the retention window.
+   */
+  async archive(id: string, userId: string) {
     // Find task and verify ownership
-    await this.findOne(id, userId);
+    const task = await this.findOne(id, userId);
+
+    if (task.archivedAt) {
+      throw new BadRequestException('Task is already archived');
+    }
+
+    const now = new Date();
 
-    await this.prisma.task.delete({
+    const stoppedSession = await this.prisma.$transaction(async (tx) => {
+      // Ending a series removes its upcoming occurrences; started or past ones are kept
+      if (task.isRecurringTemplate) {
+        await this.recurrenceService.deleteUntouchedOccurrences(id, now, tx);
+      }
+
+      // Time tracked so far is credited before the task goes away
+      const openSession = await tx.trackingSession.findFirst({
+        where: { taskId: id, status: { in: [SessionStatus.active, SessionStatus.paused] } },
+      });
+
+      if (openSession) {
+        await this.trackingService.finalizeSession(openSession, task, tx, now);
+      }
+
+      await tx.task.update({
+        where: { id },
+        data: {
+          archivedAt: now,
+          isActive: false,
+          ...(task.status === TaskStatus.ACTIVE && { status: TaskStatus.PLANNED }),
+        },
+      });
+
+      return !!openSession;
+    });
+
+    await this.deadlineReminderService.cancel(id);
+
+    if (stoppedSession) {
+      await this.levelsService.refreshLevel(userId);
+      await this.streaksService.recordActivity(userId);
+    }
+
+    return { message: 'Task archived successfully' };
+  }
+
+  async restore(id: string, userId: string) {
+    // Find task and verify ownership
+    const task = await this.findOne(id, userId);
+
+    if (!task.archivedAt) {
+      throw new BadRequestException('Task is not archived');
+    }
+
+    const restored = await this.prisma.task.update({
       where: { id },
+      data: {
+        archivedAt: null,
+        // Back at the end of its column
+        ...(!task.isRecurringTemplate && {
+          position: await this.getColumnEndPosition(userId, task.status),
+        }),
+        // Series resume from now on (picked up by the hourly generation) instead of
+        // back-filling the occurrences missed while archived
+        ...(task.isRecurringTemplate && { recurrenceGeneratedUntil: new Date() }),
+      },
+      select: { id: true, deadline: true, status: true, isRecurringTemplate: true },
+    });
+
+    await this.deadlineReminderService.schedule(restored);
+
+    return this.findOne(id, userId);
+  }
+
+  /**
+   * Push template changes to upcoming occurrences that have not been started.
+   * A new rule or start date regenerates them.
+   */
+  private async applyTemplateChanges(templateId: string, updateData: any) {
+    const now = new Date();
+
+    if (updateData.recurrenceRule !== undefined || updateData.deadline !== undefined) {
+      const template = await this.prisma.$transaction(async (tx) => {
+        await this.recurrenceService.deleteUntouchedOccurrences(templateId, now, tx);
+
+        return tx.task.update({
+          where: { id: templateId },
+          data: { recurrenceGeneratedUntil: null },
+          include: { subtasks: true, labels: { select: { id: true } } },
+        });
+      });
+
+      await this.recurrenceService.generateOccurrences(template, now);
+      return;
+    }
+
+    const seriesData = this.pickSeriesData(updateData);
+
+    if (Object.keys(seriesData).length > 0) {
+      await this.prisma.task.updateMany({
+        where: {
+          recurrenceParentId: templateId,
+          occurrenceDate: { gte: now },
+          status: TaskStatus.PLANNED,
+          totalTimeSpent: 0,
+        },
+        data: seriesData,
+      });
+    }
+  }
+
+  /**
+   * Edit an occurrence and all later occurrences of its series.
+   * Changing the rule or the deadline splits the series: the current one ends before
+   * this occurrence and a new template starts with it.
+   */
+  private async updateFutureOccurrences(
+    occurrence: {
+      id: string;
+      deadline: Date;
+      status: TaskStatus;
+      occurrenceDate: Date;
+      recurrenceParentId: string;
+    },
+    updateTaskDto: UpdateTaskDto,
+    userId: string,
+  ) {
+    const template = await this.prisma.task.findUnique({
+      where: { id: occurrence.recurrenceParentId },
+      include: { subtasks: true, labels: { select: { id: true } } },
+    });
+
+    if (!template) {
+      throw new BadRequestException('The recurring series of this task no longer exists');
+    }
+
+    const seriesData = this.pickSeriesData(updateTaskDto);
+    // Occurrences given the new series data
+    const updatedIds = new Set([occurrence.id]);
+
+    if (updateTaskDto.recurrenceRule !== undefined || updateTaskDto.deadline !== undefined) {
+      const start = updateTaskDto.deadline ? new Date(updateTaskDto.deadline) : occurrence.deadline;
+      const recurrenceRule = this.recurrenceService.normalizeRule(
+        updateTaskDto.recurrenceRule ?? template.recurrenceRule,
+      );
+
+      const newTemplate = await this.prisma.$transaction(async (tx) => {
+        await tx.task.update({
+          where: { id: template.id },
+          data: {
+            recurrenceRule: this.recurrenceService.endRuleBefore(
+              template.recurrenceRule,
+              occurrence.occurrenceDate,
+            ),
+          },
+        });
+
+        await this.recurrenceService.deleteUntouchedOccurrences(
+          template.id,
+          new Date(occurrence.occurrenceDate.getTime() + 1),
+          tx,
+        );
+
+        const created = await tx.task.create({
+          data: {
+            name: template.name,
+            estimateHours: template.estimateHours,
+            checklistWeight: template.checklistWeight,
+            priority: template.priority,
+            projectId: template.projectId,
+            ...seriesData,
+            deadline: start,
+            status: TaskStatus.PLANNED,
+            isActive: false,
+            userId: template.userId,
+            recurrenceRule,
+            isRecurringTemplate: true,
+            ...(template.labels.length && {
+              labels: { connect: template.labels.map((label) => ({ id: label.id })) },
+            }),
+            subtasks: {
+              create: template.subtasks.map((subtask) => ({
+                name: subtask.name,
+                estimateHours: subtask.estimateHours,
+                position: subtask.position,
+              })),
+            },
+          },
+          include: { subtasks: true, labels: { select: { id: true } } },
+        });
+
+        // This occurrence becomes the first one of the new series
+        await tx.task.update({
+          where: { id: occurrence.id },
+          data: {
+            ...seriesData,
+            deadline: start,
+            recurrenceParentId: created.id,
+            occurrenceDate: start,
+          },
+        });
+
+        return created;
+      });
+
+      await this.recurrenceService.generateOccurrences(newTemplate);
+      await this.deadlineReminderService.schedule({ ...occurrence, deadline: start });
+    } else if (Object.keys(seriesData).length > 0) {
+      const upcomingWhere = {
+        recurrenceParentId: template.id,
+        occurrenceDate: { gte: occurrence.occurrenceDate },
+        status: { not: TaskStatus.DONE },
+      };
+
+      const upcoming = await this.prisma.task.findMany({
+        where: upcomingWhere,
+        select: { id: true },
+      });
+      upcoming.forEach((task) => updatedIds.add(task.id));
+
+      await this.prisma.$transaction([
+        this.prisma.task.update({ where: { id: template.id }, data: seriesData }),
+        this.prisma.task.updateMany({ where: upcomingWhere, data: seriesData }),
+      ]);
+    }
+
+    // Progress depends on the estimate and the checklist weight
+    if (seriesData.estimateHours !== undefined || seriesData.checklistWeight !== undefined) {
+      for (const id of updatedIds) {
+        await this.trackingService.recalculateTaskProgress(id);
+      }
+    }
+
+    // Status, labels and dependencies are never shared across a series
+    if (
+      updateTaskDto.status !== undefined ||
+      updateTaskDto.labelIds !== undefined ||
+      updateTaskDto.blockedByIds !== undefined
+    ) {
+      return this.update(
+        occurrence.id,
+        {
+          status: updateTaskDto.status,
+          labelIds: updateTaskDto.labelIds,
+          blockedByIds: updateTaskDto.blockedByIds,
+        },
+        userId,
+      );
+    }
+
+    return this.findOne(occurrence.id, userId);
+  }
+
+  /**
+   * Fields shared by every occurrence of a recurring series
+   */
+  private pickSeriesData(data: {
+    name?: string;
+    estimateHours?: any;
+    checklistWeight?: number;
+    priority?: TaskPriority;
+    projectId?: string | null;
+  }) {
+    return {
+      ...(data.projectId !== undefined && { projectId: data.projectId }),
+      ...(data.priority !== undefined && { priority: data.priority }),
+      ...(data.name !== undefined && { name: data.name }),
+      ...(data.estimateHours !== undefined && { estimateHours: data.estimateHours }),
+      ...(data.checklistWeight !== undefined && { checklistWeight: data.checklistWeight }),
+    };
+  }
+
+  /**
+   * Order by remaining estimate (estimate minus time spent, never below zero).
+   * Only the fields needed for sorting are loaded for the whole result set.
+   */
+  private async findAllByRemainingEstimate(
+    where: any,
+    sortOrder: SortOrder = SortOrder.ASC,
+    page: number,
+    limit: number,
+  ): Promise<PaginatedResponse<any>> {
+    const candidates = await this.prisma.task.findMany({
+      where,
+      select: { id: true, estimateHours: true, totalTimeSpent: true, createdAt: true },
+    });
+
+    const direction = sortOrder === SortOrder.DESC ? -1 : 1;
+    const remaining = (task: (typeof candidates)[number]) =>
+      Math.max(Number(task.estimateHours) * 3600 - task.totalTimeSpent, 0);
+
+    const pageIds = candidates
+      .sort(
+        (a, b) =>
+          direction * (remaining(a) - remaining(b)) ||
+          b.createdAt.getTime() - a.createdAt.getTime(),
+      )
+      .slice((page - 1) * limit, page * limit)
+      .map((task) => task.id);
+
+    const tasks = await this.prisma.task.findMany({
+      where: { id: { in: pageIds } },
+      select: TASK_LIST_SELECT,
+    });
+    const tasksById = new Map(tasks.map((task) => [task.id, task]));
+
+    return paginate(
+      pageIds.map((id) => tasksById.get(id)).filter(Boolean),
+      candidates.length,
+      page,
+      limit,
+    );
+  }
+
+  private getOrderBy(sortBy?: TaskSortBy, sortOrder?: SortOrder): any[] {
+    switch (sortBy) {
+      case TaskSortBy.DEADLINE:
+        return [{ deadline: sortOrder || SortOrder.ASC }, { createdAt: 'desc' }];
+      case TaskSortBy.PROGRESS:
+        return [{ progress: sortOrder || SortOrder.DESC }, { createdAt: 'desc' }];
+      case TaskSortBy.CREATED_AT:
+        return [{ createdAt: sortOrder || SortOrder.DESC }];
+      case TaskSortBy.PRIORITY:
+        return [{ priority: sortOrder || SortOrder.DESC }, { createdAt: 'desc' }];
+      case TaskSortBy.POSITION:
+        // Tasks never placed on the board come last, oldest first
+        return [
+          { position: { sort: sortOrder || SortOrder.ASC, nulls: 'last' } },
+          { createdAt: 'asc' },
+        ];
+      default:
+        return [
+          { isActive: 'desc' }, // Active tasks first
+          { createdAt: 'desc' },
+        ];
+    }
+  }
+
+  /**
+   * The project and labels given for a task must belong to its owner
+   */
+  private async assertGroupingOwned(
+    userId: string,
+    projectId?: string | null,
+    labelIds?: string[],
+  ) {
+    if (projectId) {
+      const project = await this.prisma.project.findFirst({
+        where: { id: projectId, userId },
+        select: { id: true },
+      });
+
+      if (!project) {
+        throw new NotFoundException('Project not found');
+      }
+    }
+
+    if (labelIds?.length) {
+      const count = await this.prisma.label.count({
+        where: { id: { in: labelIds }, userId },
+      });
+
+      if (count !== labelIds.length) {
+        throw new NotFoundException('Label not found');
+      }
+    }
+  }
+
+  assertNotArchived(task: { archivedAt: Date | null }) {
+    if (task.archivedAt) {
+      throw new BadRequestException('Task is archived; restore it first');
+    }
+  }
+
+  /**
+   * Blocking tasks must belong to the user and must not be templates. For an existing
+   * task, none of them may (indirectly) depend on it, which would create a cycle.
+   */
+  private async assertBlockersAllowed(
+    userId: string,
+    blockedByIds: string[],
+    task?: { id: string; name: string },
+  ) {
+    if (task && blockedByIds.includes(task.id)) {
+      throw new BadRequestException('A task cannot be blocked by itself');
+    }
+
+    const blockers = await this.prisma.task.findMany({
+      where: { id: { in: blockedByIds }, userId, archivedAt: null },
+      select: { id: true, isRecurringTemplate: true },
+    });
+
+    if (blockers.length !== blockedByIds.length) {
+      throw new NotFoundException('Blocking task not found');
+    }
+
+    if (blockers.some((blocker) => blocker.isRecurringTemplate)) {
+      throw new BadRequestException('Recurring task templates cannot block other tasks');
+    }
+
+    const cycle = task && (await this.findDependencyCycle(task, blockedByIds));
+    if (cycle) {
+      throw new BadRequestException(
+        `These dependencies would create a cycle: ${cycle.map((name) => `"${name}"`).join(' → ')}`,
+      );
+    }
+  }
+
+  /**
+   * Walk upstream from the new blockers. Reaching the task itself means it would end up
+   * blocking itself; the cycle is returned as task names, each blocked by the next.
+   */
+  private async findDependencyCycle(task: { id: string; name: string }, blockedByIds: string[]) {
+    // Node -> the node it blocks, on the way back to the task
+    const blocked = new Map<string, string | null>(blockedByIds.map((id) => [id, null]));
+    const names = new Map<string, string>();
+    let frontier = blockedByIds;
+
+    while (frontier.length > 0) {
+      const nodes = await this.prisma.task.findMany({
+        where: { id: { in: frontier } },
+        select: { id: true, name: true, blockedBy: { select: { id: true } } },
+      });
+      const next: string[] = [];
+
+      for (const node of nodes) {
+        names.set(node.id, node.name);
+
+        for (const { id } of node.blockedBy) {
+          if (id === task.id) {
+            const path = [task.name];
+            for (let current = node.id; current; current = blocked.get(current)) {
+              path.splice(1, 0, names.get(current));
+            }
+            return [...path, task.name];
+          }
+
+          if (!blocked.has(id)) {
+            blocked.set(id, node.id);
+            next.push(id);
+          }
+        }
+      }
+
+      frontier = next;
+    }
+
+    return null;
+  }
+
+  /**
+   * A member's copy of a shared room task completes the room task with it
+   */
+  private async completeRoomTask(roomTaskId: string | null, userId: string, tx: any) {
+    if (!roomTaskId) {
+      return false;
+    }
+
+    const { count } = await tx.roomTask.updateMany({
+      where: { id: roomTaskId, status: { not: TaskStatus.DONE } },
+      data: { status: TaskStatus.DONE, completedById: userId, completedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Position key after the last task of a status column. Tasks moved to another
+   * column by activate, stop or complete are placed there.
+   */
+  async getColumnEndPosition(userId: string, status: TaskStatus, tx?: any) {
+    const prisma = tx || this.prisma;
+
+    const last = await prisma.task.findFirst({
+      where: {
+        userId,
+        status,
+        isRecurringTemplate: false,
+        archivedAt: null,
+        position: { not: null },
+      },
+      select: { position: true },
+      orderBy: { position: 'desc' },
+    });
+
+    return generateKeyBetween(last?.position ?? null, null);
+  }
+
+  /**
+   * Position keys of the tasks around an index of a column
+   */
+  private async findNeighbourPositions(column: BoardColumn, index: number) {
+    const neighbours = await this.prisma.task.findMany({
+      where: column,
+      select: { position: true },
+      orderBy: [{ position: 'asc' }],
+      skip: Math.max(index - 1, 0),
+      take: index === 0 ? 1 : 2,
+    });
+
+    return {
+      before: index === 0 ? null : neighbours[0].position,
+      after: (index === 0 ? neighbours[0] : neighbours[1])?.position ?? null,
+    };
+  }
+
+  /**
+   * Append the column's tasks without a position - created before board positions
+   * existed, or by imports and recurring series - oldest first, as they are listed now
+   */
+  private async assignMissingPositions(column: BoardColumn) {
+    const tasks = await this.prisma.task.findMany({
+      where: { ...column, position: null },
+      select: { id: true },
+      orderBy: [{ createdAt: 'asc' }],
+    });
+
+    if (tasks.length === 0) {
+      return;
+    }
+
+    let position = await this.getColumnEndPosition(column.userId, column.status);
+
+    const updates = tasks.map((task, index) => {
+      if (index > 0) {
+        position = generateKeyBetween(position, null);
+      }
+      return this.prisma.task.update({ where: { id: task.id }, data: { position } });
     });
 
-    return { message: 'Task deleted successfully' };
+    await this.prisma.$transaction(updates);
   }
 }
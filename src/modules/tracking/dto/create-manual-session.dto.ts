@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+
+export class CreateManualSessionDto {
+  @ApiProperty({ description: 'Task the time was spent on', example: 'task-uuid' })
+  @IsUUID()
+  taskId: string;
+
+  @ApiProperty({ description: 'Subtask of the task the time was spent on', required: false })
+  @IsUUID()
+  @IsOptional()
+  subtaskId?: string;
+
+  @ApiProperty({ example: '2025-12-25T09:00:00.000Z' })
+  @IsDateString()
+  startTime: string;
+
+  @ApiProperty({ example: '2025-12-25T10:30:00.000Z' })
+  @IsDateString()
+  endTime: string;
+
+  @ApiProperty({ example: 'Forgot to start the timer', required: false })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsEnum, IsOptional, Matches } from 'class-validator';
+
+export enum ExportFormat {
+  CSV = 'csv',
+  JSON = 'json',
+  ICS = 'ics',
+}
+
+export class ExportSessionsDto {
+  @ApiProperty({
+    required: false,
+    example: '2025-12-01',
+    description: "First day (inclusive) in the user's timezone. Defaults to 29 days before `to`",
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'from must be a YYYY-MM-DD date' })
+  @IsDateString({ strict: true }, { message: 'from must be a valid calendar date' })
+  from?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-12-31',
+    description: "Last day (inclusive) in the user's timezone. Defaults to today",
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'to must be a YYYY-MM-DD date' })
+  @IsDateString({ strict: true }, { message: 'to must be a valid calendar date' })
+  to?: string;
+
+  @ApiProperty({
+    enum: ExportFormat,
+    required: false,
+    default: ExportFormat.CSV,
+    description: 'csv (spreadsheet), json, or ics (one calendar event per session)',
+  })
+  @IsOptional()
+  @IsEnum(ExportFormat)
+  format?: ExportFormat = ExportFormat.CSV;
+}
@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsEnum, IsOptional, IsUUID, Matches } from 'class-validator';
+
+export enum AnalyticsGroupBy {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+}
+
+export class GetAnalyticsDto {
+  @ApiProperty({
+    required: false,
+    example: '2025-12-01',
+    description: "First day (inclusive) in the user's timezone. Defaults to 29 days before `to`",
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'from must be a YYYY-MM-DD date' })
+  @IsDateString({ strict: true }, { message: 'from must be a valid calendar date' })
+  from?: string;
+
+  @ApiProperty({
+    required: false,
+    example: '2025-12-31',
+    description: "Last day (inclusive) in the user's timezone. Defaults to today",
+  })
+  @IsOptional()
+  @Matches(/^\d{4}-\d{2}-\d{2}$/, { message: 'to must be a YYYY-MM-DD date' })
+  @IsDateString({ strict: true }, { message: 'to must be a valid calendar date' })
+  to?: string;
+
+  @ApiProperty({
+    enum: AnalyticsGroupBy,
+    required: false,
+    default: AnalyticsGroupBy.DAY,
+    description: 'Bucket size of the focused time timeline (weeks start on Monday)',
+  })
+  @IsOptional()
+  @IsEnum(AnalyticsGroupBy)
+  groupBy?: AnalyticsGroupBy = AnalyticsGroupBy.DAY;
+
+  @ApiProperty({ required: false, description: 'Only include time tracked on this task' })
+  @IsOptional()
+  @IsUUID()
+  taskId?: string;
+}
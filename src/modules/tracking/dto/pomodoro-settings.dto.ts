@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class PomodoroSettingsDto {
+  @ApiProperty({ example: 25, required: false, default: 25, description: 'Work phase (minutes)' })
+  @IsInt()
+  @Min(1)
+  @Max(180)
+  @IsOptional()
+  workMinutes?: number = 25;
+
+  @ApiProperty({ example: 5, required: false, default: 5, description: 'Short break (minutes)' })
+  @IsInt()
+  @Min(1)
+  @Max(60)
+  @IsOptional()
+  shortBreakMinutes?: number = 5;
+
+  @ApiProperty({ example: 15, required: false, default: 15, description: 'Long break (minutes)' })
+  @IsInt()
+  @Min(1)
+  @Max(120)
+  @IsOptional()
+  longBreakMinutes?: number = 15;
+
+  @ApiProperty({
+    example: 4,
+    required: false,
+    default: 4,
+    description: 'Work phases before a long break',
+  })
+  @IsInt()
+  @Min(1)
+  @Max(12)
+  @IsOptional()
+  cyclesBeforeLongBreak?: number = 4;
+}
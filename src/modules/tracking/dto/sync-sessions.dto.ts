@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  ArrayUnique,
+  IsArray,
+  IsDateString,
+  IsOptional,
+  IsUUID,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class SyncSessionDto {
+  @ApiProperty({
+    description: 'ID generated by the client when the session was recorded',
+    example: '3f1c2b9e-8a41-4c55-9d0e-6b7a2f1e4c10',
+  })
+  @IsUUID()
+  clientId: string;
+
+  @ApiProperty({ description: 'Task the time was spent on', example: 'task-uuid' })
+  @IsUUID()
+  taskId: string;
+
+  @ApiProperty({ description: 'Subtask of the task the time was spent on', required: false })
+  @IsUUID()
+  @IsOptional()
+  subtaskId?: string;
+
+  @ApiProperty({ example: '2025-12-25T09:00:00.000Z' })
+  @IsDateString()
+  startTime: string;
+
+  @ApiProperty({ example: '2025-12-25T10:30:00.000Z' })
+  @IsDateString()
+  endTime: string;
+}
+
+export class SyncSessionsDto {
+  @ApiProperty({ type: [SyncSessionDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(100)
+  @ArrayUnique((session: SyncSessionDto) => session.clientId, {
+    message: 'Each session must have a unique clientId',
+  })
+  @ValidateNested({ each: true })
+  @Type(() => SyncSessionDto)
+  sessions: SyncSessionDto[];
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class UpdateSessionDto {
+  @ApiProperty({ example: '2025-12-25T09:00:00.000Z', required: false })
+  @IsDateString()
+  @IsOptional()
+  startTime?: string;
+
+  @ApiProperty({ example: '2025-12-25T10:30:00.000Z', required: false })
+  @IsDateString()
+  @IsOptional()
+  endTime?: string;
+
+  @ApiProperty({ example: 'Left the timer running over lunch', required: false })
+  @IsString()
+  @IsOptional()
+  @MaxLength(500)
+  reason?: string;
+}
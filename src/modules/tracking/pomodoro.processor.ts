@@ -0,0 +1,25 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bull';
+import { Logger } from '@nestjs/common';
+import { PomodoroJobData, PomodoroService } from './pomodoro.service';
+
+@Processor('pomodoro')
+export class PomodoroProcessor {
+  private readonly logger = new Logger(PomodoroProcessor.name);
+
+  constructor(private pomodoroService: PomodoroService) {}
+
+  @Process('advance')
+  async handleAdvance(job: Job<PomodoroJobData>) {
+    this.logger.debug(`Processing Pomodoro job ${job.id} for session ${job.data.sessionId}`);
+
+    try {
+      return await this.pomodoroService.advance(job.data);
+    } catch (error) {
+      this.logger.error(
+        `Pomodoro phase change failed for session ${job.data.sessionId}: ${error.message}`,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,274 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { getQueueToken } from '@nestjs/bull';
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import {
+  PomodoroPhase,
+  PomodoroTimer,
+  SessionPauseReason,
+  SessionStatus,
+  TrackingSession,
+} from '@prisma/client';
+import { PomodoroService } from './pomodoro.service';
+import { TrackingService } from './tracking.service';
+import { PrismaService } from '@/database/prisma.service';
+import { AppWebSocketGateway } from '../websocket/websocket.gateway';
+
+describe('PomodoroService', () => {
+  let service: PomodoroService;
+  let mockPrismaService: any;
+  let mockTrackingService: any;
+  let mockGateway: any;
+  let mockQueue: any;
+
+  const minutes = (date: Date, value: number) => new Date(date.getTime() + value * 60 * 1000);
+
+  const start = new Date('2025-12-25T09:00:00.000Z');
+
+  const timer = (overrides: Partial<PomodoroTimer> = {}) => ({
+    id: 'timer-id',
+    sessionId: 'session-id',
+    workMinutes: 25,
+    shortBreakMinutes: 5,
+    longBreakMinutes: 15,
+    cyclesBeforeLongBreak: 4,
+    phase: PomodoroPhase.WORK,
+    completedCycles: 0,
+    phaseStartedAt: start,
+    phaseEndsAt: minutes(start, 25),
+    ...overrides,
+  });
+
+  const session = (overrides: Partial<TrackingSession> = {}) => ({
+    id: 'session-id',
+    taskId: 'task-id',
+    userId: 'user-id',
+    status: SessionStatus.active,
+    startTime: start,
+    updatedAt: start,
+    lastHeartbeatAt: minutes(start, 24),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      pomodoroTimer: {
+        create: jest.fn().mockImplementation(async ({ data }) => ({ id: 'timer-id', ...data })),
+        findUnique: jest.fn(),
+        update: jest.fn().mockImplementation(async ({ data }) => ({ ...timer(), ...data })),
+        delete: jest.fn(),
+      },
+      trackingSession: {
+        findUnique: jest.fn(),
+      },
+    };
+
+    mockTrackingService = {
+      pauseSessionAt: jest.fn(),
+      resumeSessionAt: jest.fn(),
+    };
+
+    mockGateway = {
+      sendToUser: jest.fn(),
+    };
+
+    mockQueue = {
+      add: jest.fn().mockResolvedValue({}),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PomodoroService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: TrackingService, useValue: mockTrackingService },
+        { provide: AppWebSocketGateway, useValue: mockGateway },
+        { provide: getQueueToken('pomodoro'), useValue: mockQueue },
+      ],
+    }).compile();
+
+    service = module.get<PomodoroService>(PomodoroService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('start', () => {
+    it('should start with a work phase and schedule its end', async () => {
+      const result = await service.start('session-id', { workMinutes: 50 }, start);
+
+      expect(mockPrismaService.pomodoroTimer.create).toHaveBeenCalledWith({
+        data: {
+          sessionId: 'session-id',
+          workMinutes: 50,
+          shortBreakMinutes: 5,
+          longBreakMinutes: 15,
+          cyclesBeforeLongBreak: 4,
+          phase: PomodoroPhase.WORK,
+          phaseStartedAt: start,
+          phaseEndsAt: minutes(start, 50),
+        },
+      });
+      expect(mockQueue.add).toHaveBeenCalledWith(
+        'advance',
+        { sessionId: 'session-id', phaseEndsAt: minutes(start, 50).toISOString() },
+        expect.objectContaining({ delay: 50 * 60 * 1000 }),
+      );
+      expect(result).toMatchObject({ phase: PomodoroPhase.WORK, remainingSeconds: 3000 });
+    });
+  });
+
+  describe('advance', () => {
+    const job = { sessionId: 'session-id', phaseEndsAt: minutes(start, 25).toISOString() };
+
+    it('should pause the session at the end of a work phase and start a break', async () => {
+      mockPrismaService.pomodoroTimer.findUnique.mockResolvedValue({
+        ...timer(),
+        session: session(),
+      });
+
+      const result = await service.advance(job, minutes(start, 25));
+
+      expect(mockTrackingService.pauseSessionAt).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'session-id' }),
+        minutes(start, 25),
+        SessionPauseReason.POMODORO,
+        { status: SessionStatus.active },
+      );
+      expect(result).toMatchObject({
+        phase: PomodoroPhase.SHORT_BREAK,
+        completedCycles: 1,
+        phaseEndsAt: minutes(start, 30),
+      });
+      expect(mockGateway.sendToUser).toHaveBeenCalledWith(
+        'user-id',
+        'pomodoro_phase_changed',
+        expect.objectContaining({
+          sessionId: 'session-id',
+          previousPhase: PomodoroPhase.WORK,
+          phase: PomodoroPhase.SHORT_BREAK,
+          remainingSeconds: 300,
+        }),
+      );
+    });
+
+    it('should take a long break after the configured number of cycles', async () => {
+      mockPrismaService.pomodoroTimer.findUnique.mockResolvedValue({
+        ...timer({ completedCycles: 3 }),
+        session: session(),
+      });
+
+      const result = await service.advance(job, minutes(start, 25));
+
+      expect(result).toMatchObject({ phase: PomodoroPhase.LONG_BREAK, completedCycles: 4 });
+    });
+
+    it('should resume the session when a break ends', async () => {
+      const breakTimer = timer({
+        phase: PomodoroPhase.SHORT_BREAK,
+        completedCycles: 1,
+        phaseStartedAt: minutes(start, 25),
+        phaseEndsAt: minutes(start, 30),
+      });
+      mockPrismaService.pomodoroTimer.findUnique.mockResolvedValue({
+        ...breakTimer,
+        session: session({
+          status: SessionStatus.paused,
+          pauseReason: SessionPauseReason.POMODORO,
+        }),
+      });
+
+      const result = await service.advance(
+        { sessionId: 'session-id', phaseEndsAt: minutes(start, 30).toISOString() },
+        minutes(start, 30),
+      );
+
+      expect(mockTrackingService.resumeSessionAt).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'session-id' }),
+        minutes(start, 30),
+        { status: SessionStatus.paused, pauseReason: SessionPauseReason.POMODORO },
+      );
+      expect(result).toMatchObject({ phase: PomodoroPhase.WORK, phaseEndsAt: minutes(start, 55) });
+    });
+
+    it('should leave sessions paused by hand or for inactivity paused when a break ends', async () => {
+      for (const pauseReason of [SessionPauseReason.MANUAL, SessionPauseReason.IDLE]) {
+        mockPrismaService.pomodoroTimer.findUnique.mockResolvedValueOnce({
+          ...timer({
+            phase: PomodoroPhase.SHORT_BREAK,
+            completedCycles: 1,
+            phaseStartedAt: minutes(start, 25),
+            phaseEndsAt: minutes(start, 30),
+          }),
+          session: session({ status: SessionStatus.paused, pauseReason }),
+        });
+
+        await service.advance(
+          { sessionId: 'session-id', phaseEndsAt: minutes(start, 30).toISOString() },
+          minutes(start, 30),
+        );
+      }
+
+      expect(mockTrackingService.resumeSessionAt).not.toHaveBeenCalled();
+    });
+
+    it('should ignore stale jobs and end with the session', async () => {
+      mockPrismaService.pomodoroTimer.findUnique.mockResolvedValueOnce({
+        ...timer({ phaseEndsAt: minutes(start, 40) }),
+        session: session(),
+      });
+      expect(await service.advance(job)).toBeNull();
+
+      mockPrismaService.pomodoroTimer.findUnique.mockResolvedValueOnce({
+        ...timer(),
+        session: session({ status: SessionStatus.stopped }),
+      });
+      expect(await service.advance(job)).toBeNull();
+
+      expect(mockPrismaService.pomodoroTimer.delete).toHaveBeenCalledTimes(1);
+      expect(mockTrackingService.pauseSessionAt).not.toHaveBeenCalled();
+      expect(mockQueue.add).not.toHaveBeenCalled();
+    });
+
+    it('should stop cycling when nobody worked through the phase', async () => {
+      mockPrismaService.pomodoroTimer.findUnique.mockResolvedValue({
+        ...timer(),
+        session: session({ status: SessionStatus.paused, lastHeartbeatAt: start }),
+      });
+
+      expect(await service.advance(job, minutes(start, 25))).toBeNull();
+      expect(mockPrismaService.pomodoroTimer.delete).toHaveBeenCalled();
+      expect(mockGateway.sendToUser).toHaveBeenCalledWith(
+        'user-id',
+        'pomodoro_phase_changed',
+        expect.objectContaining({ phase: null }),
+      );
+    });
+  });
+
+  describe('getState', () => {
+    it('should return the phase and time remaining', async () => {
+      mockPrismaService.trackingSession.findUnique.mockResolvedValue({
+        userId: 'user-id',
+        status: SessionStatus.active,
+        pomodoro: timer(),
+      });
+
+      const result = await service.getState('session-id', 'user-id', minutes(start, 10));
+
+      expect(result).toMatchObject({
+        sessionStatus: SessionStatus.active,
+        phase: PomodoroPhase.WORK,
+        remainingSeconds: 900,
+      });
+    });
+
+    it('should reject sessions of other users or without Pomodoro', async () => {
+      mockPrismaService.trackingSession.findUnique
+        .mockResolvedValueOnce({ userId: 'other-user', pomodoro: timer() })
+        .mockResolvedValueOnce({ userId: 'user-id', pomodoro: null });
+
+      await expect(service.getState('session-id', 'user-id')).rejects.toThrow(ForbiddenException);
+      await expect(service.getState('session-id', 'user-id')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,243 @@
+import {
+  ForbiddenException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
+import { PomodoroPhase, PomodoroTimer, SessionPauseReason, SessionStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { AppWebSocketGateway } from '../websocket/websocket.gateway';
+import { TrackingService } from './tracking.service';
+import { PomodoroSettingsDto } from './dto/pomodoro-settings.dto';
+
+const MINUTE_MS = 60 * 1000;
+
+export interface PomodoroJobData {
+  sessionId: string;
+  // End of the phase the job was scheduled for; a changed timer makes the job stale
+  phaseEndsAt: string;
+}
+
+@Injectable()
+export class PomodoroService {
+  private readonly logger = new Logger(PomodoroService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private trackingService: TrackingService,
+    @Inject(forwardRef(() => AppWebSocketGateway))
+    private websocketGateway: AppWebSocketGateway,
+    @InjectQueue('pomodoro') private pomodoroQueue: Queue,
+  ) {}
+
+  /**
+   * Start the Pomodoro clock of a freshly started session with a work phase
+   */
+  async start(sessionId: string, settings: PomodoroSettingsDto, now: Date = new Date()) {
+    const defaults = new PomodoroSettingsDto();
+    const workMinutes = settings.workMinutes ?? defaults.workMinutes;
+
+    const timer = await this.prisma.pomodoroTimer.create({
+      data: {
+        sessionId,
+        workMinutes,
+        shortBreakMinutes: settings.shortBreakMinutes ?? defaults.shortBreakMinutes,
+        longBreakMinutes: settings.longBreakMinutes ?? defaults.longBreakMinutes,
+        cyclesBeforeLongBreak: settings.cyclesBeforeLongBreak ?? defaults.cyclesBeforeLongBreak,
+        phase: PomodoroPhase.WORK,
+        phaseStartedAt: now,
+        phaseEndsAt: new Date(now.getTime() + workMinutes * MINUTE_MS),
+      },
+    });
+
+    await this.scheduleTransition(timer, now);
+
+    return this.toState(timer, SessionStatus.active, now);
+  }
+
+  /**
+   * Current phase and time remaining, for clients that reconnect
+   */
+  async getState(sessionId: string, userId: string, now: Date = new Date()) {
+    const session = await this.prisma.trackingSession.findUnique({
+      where: { id: sessionId },
+      select: { userId: true, status: true, pomodoro: true },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    if (session.userId !== userId) {
+      throw new ForbiddenException('You do not have permission to access this session');
+    }
+
+    if (!session.pomodoro) {
+      throw new NotFoundException('Pomodoro mode is not enabled for this session');
+    }
+
+    return this.toState(session.pomodoro, session.status, now);
+  }
+
+  /**
+   * Move a timer to its next phase when the current one ends. Work phases end in a
+   * break (the session is paused), breaks end in work (the session is resumed, unless
+   * it was paused by hand or for inactivity). Called by the scheduled job.
+   */
+  async advance(data: PomodoroJobData, now: Date = new Date()) {
+    const timer = await this.prisma.pomodoroTimer.findUnique({
+      where: { sessionId: data.sessionId },
+      include: { session: true },
+    });
+
+    if (!timer || timer.phaseEndsAt.toISOString() !== data.phaseEndsAt) {
+      return null;
+    }
+
+    const { session, ...current } = timer;
+
+    // Stopped sessions (task switched, completed or stopped) end the Pomodoro
+    if (session.status === SessionStatus.stopped) {
+      await this.prisma.pomodoroTimer.delete({ where: { id: timer.id } });
+      return null;
+    }
+
+    const at = current.phaseEndsAt;
+
+    if (current.phase === PomodoroPhase.WORK) {
+      // Nobody worked through this phase (no heartbeat since it started): stop cycling
+      const lastSeen = session.lastHeartbeatAt ?? session.updatedAt;
+      if (session.status === SessionStatus.paused && lastSeen <= current.phaseStartedAt) {
+        await this.prisma.pomodoroTimer.delete({ where: { id: timer.id } });
+        this.notify(session.userId, session.taskId, { ...current, phase: null }, current.phase);
+        return null;
+      }
+
+      // Guarded so a session stopped or paused meanwhile is left as it is
+      if (session.status === SessionStatus.active) {
+        await this.trackingService.pauseSessionAt(session, at, SessionPauseReason.POMODORO, {
+          status: SessionStatus.active,
+        });
+      }
+    } else if (
+      session.status === SessionStatus.paused &&
+      session.pauseReason === SessionPauseReason.POMODORO
+    ) {
+      await this.trackingService.resumeSessionAt(session, at, {
+        status: SessionStatus.paused,
+        pauseReason: SessionPauseReason.POMODORO,
+      });
+    }
+
+    const next = this.getNextPhase(current);
+    const updated = await this.prisma.pomodoroTimer.update({
+      where: { id: timer.id },
+      data: {
+        phase: next.phase,
+        completedCycles: next.completedCycles,
+        phaseStartedAt: at,
+        phaseEndsAt: new Date(at.getTime() + this.getPhaseMinutes(current, next.phase) * MINUTE_MS),
+      },
+    });
+
+    await this.scheduleTransition(updated, now);
+    this.notify(session.userId, session.taskId, updated, current.phase, now);
+
+    return updated;
+  }
+
+  private getNextPhase(timer: PomodoroTimer) {
+    if (timer.phase !== PomodoroPhase.WORK) {
+      return { phase: PomodoroPhase.WORK, completedCycles: timer.completedCycles };
+    }
+
+    const completedCycles = timer.completedCycles + 1;
+
+    return {
+      phase:
+        completedCycles % timer.cyclesBeforeLongBreak === 0
+          ? PomodoroPhase.LONG_BREAK
+          : PomodoroPhase.SHORT_BREAK,
+      completedCycles,
+    };
+  }
+
+  private getPhaseMinutes(timer: PomodoroTimer, phase: PomodoroPhase) {
+    switch (phase) {
+      case PomodoroPhase.SHORT_BREAK:
+        return timer.shortBreakMinutes;
+      case PomodoroPhase.LONG_BREAK:
+        return timer.longBreakMinutes;
+      default:
+        return timer.workMinutes;
+    }
+  }
+
+  private async scheduleTransition(timer: PomodoroTimer, now: Date) {
+    const data: PomodoroJobData = {
+      sessionId: timer.sessionId,
+      phaseEndsAt: timer.phaseEndsAt.toISOString(),
+    };
+
+    await this.pomodoroQueue
+      .add('advance', data, {
+        jobId: `pomodoro:${timer.sessionId}:${timer.phaseEndsAt.getTime()}`,
+        delay: Math.max(timer.phaseEndsAt.getTime() - now.getTime(), 0),
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 1000 },
+        removeOnComplete: true,
+        removeOnFail: true,
+      })
+      .catch((error) => {
+        this.logger.error(
+          `Failed to schedule Pomodoro phase change for session ${timer.sessionId}: ${error.message}`,
+        );
+      });
+  }
+
+  private notify(
+    userId: string,
+    taskId: string,
+    timer: Omit<PomodoroTimer, 'phase'> & { phase: PomodoroPhase | null },
+    previousPhase: PomodoroPhase,
+    now: Date = new Date(),
+  ) {
+    this.websocketGateway.sendToUser(userId, 'pomodoro_phase_changed', {
+      sessionId: timer.sessionId,
+      taskId,
+      previousPhase,
+      ...this.toState(timer, null, now),
+    });
+  }
+
+  private toState(
+    timer: Omit<PomodoroTimer, 'phase'> & { phase: PomodoroPhase | null },
+    sessionStatus: SessionStatus | null,
+    now: Date,
+  ) {
+    const running = timer.phase !== null && sessionStatus !== SessionStatus.stopped;
+
+    return {
+      sessionId: timer.sessionId,
+      ...(sessionStatus && { sessionStatus }),
+      // null once Pomodoro mode has ended
+      phase: running ? timer.phase : null,
+      completedCycles: timer.completedCycles,
+      phaseStartedAt: running ? timer.phaseStartedAt : null,
+      phaseEndsAt: running ? timer.phaseEndsAt : null,
+      remainingSeconds: running
+        ? Math.max(Math.ceil((timer.phaseEndsAt.getTime() - now.getTime()) / 1000), 0)
+        : 0,
+      settings: {
+        workMinutes: timer.workMinutes,
+        shortBreakMinutes: timer.shortBreakMinutes,
+        longBreakMinutes: timer.longBreakMinutes,
+        cyclesBeforeLongBreak: timer.cyclesBeforeLongBreak,
+      },
+    };
+  }
+}
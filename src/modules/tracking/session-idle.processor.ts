@@ -0,0 +1,23 @@
+import { Processor, Process } from '@nestjs/bull';
+import { Job } from 'bull';
+import { Logger } from '@nestjs/common';
+import { SessionIdleService } from './session-idle.service';
+
+@Processor('tracking')
+export class SessionIdleProcessor {
+  private readonly logger = new Logger(SessionIdleProcessor.name);
+
+  constructor(private sessionIdleService: SessionIdleService) {}
+
+  @Process('idle-sweep')
+  async handleIdleSweep(job: Job) {
+    this.logger.debug(`Processing idle session sweep job ${job.id}`);
+
+    try {
+      return await this.sessionIdleService.sweepIdleSessions();
+    } catch (error) {
+      this.logger.error(`Idle session sweep failed: ${error.message}`);
+      throw error;
+    }
+  }
+}
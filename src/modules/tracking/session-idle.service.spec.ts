@@ -0,0 +1,191 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SessionPauseReason, SessionStatus, TrackingSession } from '@prisma/client';
+import { SessionIdleService } from './session-idle.service';
+import { TrackingService } from './tracking.service';
+import { PrismaService } from '@/database/prisma.service';
+import { AppWebSocketGateway } from '../websocket/websocket.gateway';
+
+describe('SessionIdleService', () => {
+  let service: SessionIdleService;
+  let mockPrismaService: any;
+  let mockTrackingService: any;
+  let mockGateway: any;
+
+  const config: Record<string, any> = {
+    'tracking.heartbeatTimeoutSeconds': 120,
+    'tracking.idleAction': 'pause',
+  };
+
+  const now = new Date('2025-12-25T10:00:00.000Z');
+  const lastHeartbeatAt = new Date('2025-12-25T09:55:00.000Z');
+
+  const session = (overrides: Partial<TrackingSession> = {}) => ({
+    id: 'session-id',
+    taskId: 'task-id',
+    userId: 'user-id',
+    status: SessionStatus.active,
+    startTime: new Date('2025-12-25T09:00:00.000Z'),
+    updatedAt: new Date('2025-12-25T09:00:00.000Z'),
+    lastHeartbeatAt,
+    task: { status: 'ACTIVE', totalTimeSpent: 0, estimateHours: 2, progress: 0 },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      trackingSession: {
+        updateMany: jest.fn(),
+        findFirst: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+    };
+
+    mockTrackingService = {
+      pauseSessionAt: jest.fn().mockResolvedValue({ id: 'session-id' }),
+      stopSessionAt: jest.fn().mockResolvedValue({ id: 'session-id' }),
+    };
+
+    mockGateway = {
+      sendToUser: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionIdleService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: { get: (key: string) => config[key] } },
+        { provide: TrackingService, useValue: mockTrackingService },
+        { provide: AppWebSocketGateway, useValue: mockGateway },
+      ],
+    }).compile();
+
+    service = module.get<SessionIdleService>(SessionIdleService);
+  });
+
+  afterEach(() => {
+    config['tracking.idleAction'] = 'pause';
+    jest.clearAllMocks();
+  });
+
+  describe('recordHeartbeat', () => {
+    it('should refresh the heartbeat of an active session', async () => {
+      mockPrismaService.trackingSession.updateMany.mockResolvedValue({ count: 1 });
+
+      const result = await service.recordHeartbeat('session-id', 'user-id', now);
+
+      expect(mockPrismaService.trackingSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-id', userId: 'user-id', status: SessionStatus.active },
+        data: { lastHeartbeatAt: now },
+      });
+      expect(result).toEqual({
+        sessionId: 'session-id',
+        status: SessionStatus.active,
+        lastHeartbeatAt: now,
+        timeoutSeconds: 120,
+      });
+    });
+
+    it('should report the state of a session that is no longer active', async () => {
+      mockPrismaService.trackingSession.updateMany.mockResolvedValue({ count: 0 });
+      mockPrismaService.trackingSession.findFirst.mockResolvedValue({
+        status: SessionStatus.paused,
+        lastHeartbeatAt,
+      });
+
+      const result = await service.recordHeartbeat('session-id', 'user-id', now);
+
+      expect(result.status).toBe(SessionStatus.paused);
+      expect(result.lastHeartbeatAt).toBe(lastHeartbeatAt);
+    });
+  });
+
+  describe('sweepIdleSessions', () => {
+    it('should look for active sessions past the heartbeat window', async () => {
+      await service.sweepIdleSessions(now);
+
+      const cutoff = new Date('2025-12-25T09:58:00.000Z');
+      expect(mockPrismaService.trackingSession.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            status: SessionStatus.active,
+            OR: [
+              { lastHeartbeatAt: { lt: cutoff } },
+              { lastHeartbeatAt: null, updatedAt: { lt: cutoff } },
+            ],
+          },
+        }),
+      );
+    });
+
+    it('should pause idle sessions at their last heartbeat and notify the user', async () => {
+      mockPrismaService.trackingSession.findMany.mockResolvedValueOnce([session()]);
+
+      const result = await service.sweepIdleSessions(now);
+
+      expect(result).toEqual({ processed: 1, failed: 0 });
+      expect(mockTrackingService.pauseSessionAt).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'session-id' }),
+        lastHeartbeatAt,
+        SessionPauseReason.IDLE,
+        {
+          status: SessionStatus.active,
+          lastHeartbeatAt,
+          updatedAt: new Date('2025-12-25T09:00:00.000Z'),
+        },
+      );
+      expect(mockGateway.sendToUser).toHaveBeenCalledWith('user-id', 'tracking_session_idle', {
+        sessionId: 'session-id',
+        taskId: 'task-id',
+        action: 'paused',
+        reason: 'heartbeat_timeout',
+        lastHeartbeatAt,
+        timeoutSeconds: 120,
+      });
+    });
+
+    it('should stop idle sessions when configured to', async () => {
+      config['tracking.idleAction'] = 'stop';
+      const updatedAt = new Date('2025-12-25T09:30:00.000Z');
+      mockPrismaService.trackingSession.findMany.mockResolvedValueOnce([
+        session({ lastHeartbeatAt: null, updatedAt }),
+      ]);
+
+      await service.sweepIdleSessions(now);
+
+      expect(mockTrackingService.stopSessionAt).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'session-id' }),
+        updatedAt,
+        { status: SessionStatus.active, lastHeartbeatAt: null, updatedAt },
+      );
+      expect(mockGateway.sendToUser).toHaveBeenCalledWith(
+        'user-id',
+        'tracking_session_idle',
+        expect.objectContaining({ action: 'stopped' }),
+      );
+    });
+
+    it('should skip sessions that sent a heartbeat after they were read', async () => {
+      mockPrismaService.trackingSession.findMany.mockResolvedValueOnce([session()]);
+      mockTrackingService.pauseSessionAt.mockResolvedValueOnce(null);
+
+      const result = await service.sweepIdleSessions(now);
+
+      expect(result).toEqual({ processed: 0, failed: 0 });
+      expect(mockGateway.sendToUser).not.toHaveBeenCalled();
+    });
+
+    it('should keep going when one session fails', async () => {
+      mockPrismaService.trackingSession.findMany.mockResolvedValueOnce([
+        session({ id: 'broken' }),
+        session(),
+      ]);
+      mockTrackingService.pauseSessionAt.mockRejectedValueOnce(new Error('boom'));
+
+      const result = await service.sweepIdleSessions(now);
+
+      expect(result).toEqual({ processed: 1, failed: 1 });
+      expect(mockGateway.sendToUser).toHaveBeenCalledTimes(1);
+    });
+  });
+});
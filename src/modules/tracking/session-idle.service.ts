@@ -0,0 +1,149 @@
+import { Inject, Injectable, Logger, forwardRef } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SessionPauseReason, SessionStatus } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { AppWebSocketGateway } from '../websocket/websocket.gateway';
+import { TrackingService } from './tracking.service';
+
+const SWEEP_BATCH_SIZE = 200;
+
+export type IdleAction = 'pause' | 'stop';
+
+@Injectable()
+export class SessionIdleService {
+  private readonly logger = new Logger(SessionIdleService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private trackingService: TrackingService,
+    @Inject(forwardRef(() => AppWebSocketGateway))
+    private websocketGateway: AppWebSocketGateway,
+  ) {}
+
+  /**
+   * Mark the user's active session as alive. Sent periodically by the client over the socket.
+   */
+  async recordHeartbeat(sessionId: string, userId: string, now: Date = new Date()) {
+    const { count } = await this.prisma.trackingSession.updateMany({
+      where: { id: sessionId, userId, status: SessionStatus.active },
+      data: { lastHeartbeatAt: now },
+    });
+
+    if (count > 0) {
+      return {
+        sessionId,
+        status: SessionStatus.active,
+        lastHeartbeatAt: now,
+        timeoutSeconds: this.getTimeoutSeconds(),
+      };
+    }
+
+    // Paused, stopped or not the user's session - tell the client the current state
+    const session = await this.prisma.trackingSession.findFirst({
+      where: { id: sessionId, userId },
+      select: { status: true, lastHeartbeatAt: true },
+    });
+
+    return {
+      sessionId,
+      status: session?.status ?? null,
+      lastHeartbeatAt: session?.lastHeartbeatAt ?? null,
+      timeoutSeconds: this.getTimeoutSeconds(),
+    };
+  }
+
+  /**
+   * Pause or stop active sessions whose client stopped sending heartbeats.
+   * Their time is trimmed back to the last heartbeat. Run every minute by the scheduler.
+   */
+  async sweepIdleSessions(now: Date = new Date()) {
+    const action = this.configService.get<IdleAction>('tracking.idleAction');
+    const cutoff = new Date(now.getTime() - this.getTimeoutSeconds() * 1000);
+    let processed = 0;
+    let failed = 0;
+    let batchSize: number;
+
+    do {
+      const batch = await this.prisma.trackingSession.findMany({
+        where: {
+          status: SessionStatus.active,
+          // Sessions started before heartbeats existed fall back to their last change
+          OR: [
+            { lastHeartbeatAt: { lt: cutoff } },
+            { lastHeartbeatAt: null, updatedAt: { lt: cutoff } },
+          ],
+        },
+        include: { task: true },
+        orderBy: { id: 'asc' },
+        take: SWEEP_BATCH_SIZE,
+        // Handled sessions drop out of the query; only failed ones have to be skipped
+        skip: failed,
+      });
+
+      for (const session of batch) {
+        try {
+          if (await this.handleIdleSession(session, action)) {
+            processed++;
+          }
+        } catch (error) {
+          failed++;
+          this.logger.error(`Failed to handle idle session ${session.id}: ${error.message}`);
+        }
+      }
+
+      batchSize = batch.length;
+    } while (batchSize === SWEEP_BATCH_SIZE);
+
+    if (processed > 0) {
+      this.logger.log(`Idle sessions: ${processed} ${action === 'stop' ? 'stopped' : 'paused'}`);
+    }
+
+    return { processed, failed };
+  }
+
+  /**
+   * Pause or stop one idle session, unless a heartbeat (or any other change) reached it
+   * after the sweep read it
+   */
+  private async handleIdleSession(
+    session: Parameters<TrackingService['stopSessionAt']>[0],
+    action: IdleAction,
+  ) {
+    const lastHeartbeatAt = session.lastHeartbeatAt ?? session.updatedAt;
+    const guard = {
+      status: SessionStatus.active,
+      lastHeartbeatAt: session.lastHeartbeatAt,
+      updatedAt: session.updatedAt,
+    };
+
+    const result =
+      action === 'stop'
+        ? await this.trackingService.stopSessionAt(session, lastHeartbeatAt, guard)
+        : await this.trackingService.pauseSessionAt(
+            session,
+            lastHeartbeatAt,
+            SessionPauseReason.IDLE,
+            guard,
+          );
+
+    if (!result) {
+      return false;
+    }
+
+    this.websocketGateway.sendToUser(session.userId, 'tracking_session_idle', {
+      sessionId: session.id,
+      taskId: session.taskId,
+      action: action === 'stop' ? 'stopped' : 'paused',
+      reason: 'heartbeat_timeout',
+      lastHeartbeatAt,
+      timeoutSeconds: this.getTimeoutSeconds(),
+    });
+
+    return true;
+  }
+
+  private getTimeoutSeconds(): number {
+    return this.configService.get<number>('tracking.heartbeatTimeoutSeconds');
+  }
+}
@@ -0,0 +1,315 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { TaskStatus } from '@prisma/client';
+import { TrackingAnalyticsService } from './tracking-analytics.service';
+import { PrismaService } from '@/database/prisma.service';
+import { AnalyticsGroupBy } from './dto/get-analytics.dto';
+
+describe('TrackingAnalyticsService', () => {
+  let service: TrackingAnalyticsService;
+  let mockPrismaService: any;
+
+  const day = (dateKey: string) => new Date(`${dateKey}T00:00:00.000Z`);
+
+  const hours = (values: Record<number, number>) =>
+    Array.from({ length: 24 }, (_, hour) => values[hour] || 0);
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ timezone: 'Asia/Ho_Chi_Minh' }),
+      },
+      trackingDailyRollup: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(),
+        createMany: jest.fn(),
+        update: jest.fn(),
+        deleteMany: jest.fn(),
+      },
+      trackingSession: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+        updateMany: jest.fn(),
+      },
+      $transaction: jest.fn(async (callback) => callback(mockPrismaService)),
+      task: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrackingAnalyticsService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<TrackingAnalyticsService>(TrackingAnalyticsService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('recordSession', () => {
+    it('should split active time into local days and hours', async () => {
+      // 23:30 -> 00:30 in Asia/Ho_Chi_Minh (UTC+7), across local midnight
+      await service.recordSession(
+        {
+          id: 'session-id',
+          userId: 'user-id',
+          taskId: 'task-id',
+          endTime: new Date('2025-12-24T17:30:00.000Z'),
+        },
+        [
+          {
+            startTime: new Date('2025-12-24T16:30:00.000Z'),
+            endTime: new Date('2025-12-24T17:30:00.000Z'),
+          },
+        ],
+      );
+
+      expect(mockPrismaService.trackingDailyRollup.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          date: day('2025-12-24'),
+          focusedSeconds: 1800,
+          sessionCount: 0,
+          hourlySeconds: hours({ 23: 1800 }),
+        }),
+      });
+      expect(mockPrismaService.trackingDailyRollup.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          date: day('2025-12-25'),
+          focusedSeconds: 1800,
+          sessionCount: 1,
+          hourlySeconds: hours({ 0: 1800 }),
+        }),
+      });
+      expect(mockPrismaService.trackingSession.update).toHaveBeenCalledWith({
+        where: { id: 'session-id' },
+        data: { rollupTimezone: 'Asia/Ho_Chi_Minh' },
+      });
+    });
+
+    it('should add to an existing rollup', async () => {
+      mockPrismaService.trackingDailyRollup.findUnique.mockResolvedValue({
+        focusedSeconds: 600,
+        sessionCount: 1,
+        hourlySeconds: hours({ 9: 600 }),
+      });
+
+      await service.recordSession(
+        {
+          id: 'session-id',
+          userId: 'user-id',
+          taskId: 'task-id',
+          endTime: new Date('2025-12-25T02:20:00.000Z'),
+        },
+        [
+          {
+            startTime: new Date('2025-12-25T02:00:00.000Z'),
+            endTime: new Date('2025-12-25T02:20:00.000Z'),
+          },
+        ],
+      );
+
+      expect(mockPrismaService.trackingDailyRollup.update).toHaveBeenCalledWith({
+        where: {
+          userId_taskId_date: { userId: 'user-id', taskId: 'task-id', date: day('2025-12-25') },
+        },
+        data: {
+          focusedSeconds: 1800,
+          sessionCount: 2,
+          hourlySeconds: hours({ 9: 1800 }),
+        },
+      });
+    });
+
+    it('should subtract a removed session', async () => {
+      mockPrismaService.trackingDailyRollup.findUnique.mockResolvedValue({
+        focusedSeconds: 1800,
+        sessionCount: 2,
+        hourlySeconds: hours({ 9: 1800 }),
+      });
+
+      await service.removeSession(
+        { userId: 'user-id', taskId: 'task-id', endTime: new Date('2025-12-25T02:20:00.000Z') },
+        [
+          {
+            startTime: new Date('2025-12-25T02:00:00.000Z'),
+            endTime: new Date('2025-12-25T02:20:00.000Z'),
+          },
+        ],
+      );
+
+      expect(mockPrismaService.trackingDailyRollup.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            focusedSeconds: 600,
+            sessionCount: 1,
+            hourlySeconds: hours({ 9: 600 }),
+          },
+        }),
+      );
+      expect(mockPrismaService.trackingDailyRollup.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeSession', () => {
+    it('should use the timezone the session was recorded in', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({ timezone: 'America/New_York' });
+      mockPrismaService.trackingDailyRollup.findUnique.mockResolvedValue({
+        focusedSeconds: 1200,
+        sessionCount: 1,
+        hourlySeconds: hours({ 9: 1200 }),
+      });
+
+      await service.removeSession(
+        {
+          userId: 'user-id',
+          taskId: 'task-id',
+          endTime: new Date('2025-12-25T02:20:00.000Z'),
+          rollupTimezone: 'Asia/Ho_Chi_Minh',
+        },
+        [
+          {
+            startTime: new Date('2025-12-25T02:00:00.000Z'),
+            endTime: new Date('2025-12-25T02:20:00.000Z'),
+          },
+        ],
+      );
+
+      expect(mockPrismaService.user.findUnique).not.toHaveBeenCalled();
+      expect(mockPrismaService.trackingDailyRollup.update).toHaveBeenCalledWith({
+        where: {
+          userId_taskId_date: { userId: 'user-id', taskId: 'task-id', date: day('2025-12-25') },
+        },
+        data: { focusedSeconds: 0, sessionCount: 0, hourlySeconds: hours({}) },
+      });
+    });
+  });
+
+  describe('rebuildRollups', () => {
+    it('should replace the rollups with totals of all stopped sessions', async () => {
+      mockPrismaService.trackingSession.findMany.mockResolvedValue([
+        {
+          taskId: 'task-id',
+          startTime: new Date('2025-12-25T02:00:00.000Z'),
+          endTime: new Date('2025-12-25T02:20:00.000Z'),
+          intervals: [
+            {
+              startTime: new Date('2025-12-25T02:00:00.000Z'),
+              endTime: new Date('2025-12-25T02:20:00.000Z'),
+            },
+          ],
+        },
+        // Legacy session without intervals
+        {
+          taskId: 'task-id',
+          startTime: new Date('2025-12-25T02:30:00.000Z'),
+          endTime: new Date('2025-12-25T02:40:00.000Z'),
+          intervals: [],
+        },
+      ]);
+
+      const result = await service.rebuildRollups('user-id');
+
+      expect(result).toEqual({ sessions: 2, rollups: 1 });
+      expect(mockPrismaService.trackingDailyRollup.deleteMany).toHaveBeenCalledWith({
+        where: { userId: 'user-id' },
+      });
+      expect(mockPrismaService.trackingDailyRollup.createMany).toHaveBeenCalledWith({
+        data: [
+          {
+            userId: 'user-id',
+            taskId: 'task-id',
+            date: day('2025-12-25'),
+            focusedSeconds: 1800,
+            sessionCount: 2,
+            hourlySeconds: hours({ 9: 1800 }),
+          },
+        ],
+      });
+      expect(mockPrismaService.trackingSession.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-id', status: 'stopped' },
+        data: { rollupTimezone: 'Asia/Ho_Chi_Minh' },
+      });
+    });
+  });
+
+  describe('getAnalytics', () => {
+    it('should aggregate rollups into totals, timeline, tasks and heatmap', async () => {
+      mockPrismaService.trackingDailyRollup.findMany.mockResolvedValue([
+        {
+          taskId: 'task-1',
+          date: day('2025-12-22'),
+          focusedSeconds: 3600,
+          sessionCount: 2,
+          hourlySeconds: hours({ 9: 3600 }),
+        },
+        {
+          taskId: 'task-2',
+          date: day('2025-12-24'),
+          focusedSeconds: 1800,
+          sessionCount: 1,
+          hourlySeconds: hours({ 20: 1800 }),
+        },
+      ]);
+      mockPrismaService.task.findMany.mockResolvedValue([
+        { id: 'task-1', name: 'Task 1', status: TaskStatus.DONE },
+        { id: 'task-2', name: 'Task 2', status: TaskStatus.ACTIVE },
+      ]);
+
+      const result = await service.getAnalytics(
+        { from: '2025-12-22', to: '2025-12-28', groupBy: AnalyticsGroupBy.DAY },
+        'user-id',
+      );
+
+      expect(result.totals).toEqual({
+        focusedSeconds: 5400,
+        sessionCount: 3,
+        activeDays: 2,
+        averageSessionSeconds: 1800,
+        averageDailySeconds: 771,
+      });
+      expect(result.timeline).toHaveLength(7);
+      expect(result.timeline[0]).toEqual({
+        period: '2025-12-22',
+        focusedSeconds: 3600,
+        sessionCount: 2,
+      });
+      expect(result.byTask.map((task) => task.taskId)).toEqual(['task-1', 'task-2']);
+      // 2025-12-22 is a Monday, 2025-12-24 a Wednesday
+      expect(result.heatmap[1][9]).toBe(3600);
+      expect(result.heatmap[3][20]).toBe(1800);
+      expect(result.completion).toEqual({
+        trackedTasks: 2,
+        completedTasks: 1,
+        completionRate: 50,
+      });
+    });
+
+    it('should group the timeline by ISO week', async () => {
+      const result = await service.getAnalytics(
+        { from: '2025-12-24', to: '2026-01-06', groupBy: AnalyticsGroupBy.WEEK },
+        'user-id',
+      );
+
+      expect(result.timeline.map((entry) => entry.period)).toEqual([
+        '2025-12-22',
+        '2025-12-29',
+        '2026-01-05',
+      ]);
+    });
+
+    it('should reject invalid ranges', async () => {
+      await expect(
+        service.getAnalytics({ from: '2025-12-28', to: '2025-12-22' }, 'user-id'),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        service.getAnalytics({ from: '2024-01-01', to: '2025-12-22' }, 'user-id'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
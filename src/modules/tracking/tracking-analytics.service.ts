@@ -0,0 +1,372 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { SessionStatus, TaskStatus, TrackingSessionInterval } from '@prisma/client';
+import { PrismaService } from '@/database/prisma.service';
+import { AnalyticsGroupBy, GetAnalyticsDto } from './dto/get-analytics.dto';
+import {
+  addDaysToDateKey,
+  dateKeyToDate,
+  dateToDateKey,
+  diffDateKeys,
+  getPeriodKey,
+  getTimeZoneOffsetMs,
+  toLocalDateKey,
+} from '@/common/utils/timezone.util';
+
+const HOUR_MS = 60 * 60 * 1000;
+const MAX_RANGE_DAYS = 366;
+const DEFAULT_RANGE_DAYS = 30;
+const REBUILD_TRANSACTION_TIMEOUT_MS = 60 * 1000;
+
+type IntervalSpan = Pick<TrackingSessionInterval, 'startTime' | 'endTime'>;
+
+@Injectable()
+export class TrackingAnalyticsService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Add a stopped session's active time to the daily rollups (in the user's timezone).
+   * Called inside the transaction that stops the session.
+   */
+  async recordSession(
+    session: { id: string; userId: string; taskId: string; endTime: Date },
+    intervals: IntervalSpan[],
+    tx?: any,
+  ) {
+    const prisma = tx || this.prisma;
+    const timezone = await this.getTimezone(session.userId, prisma);
+
+    // Remembered so the session comes out of the same buckets if the user changes timezone
+    await prisma.trackingSession.update({
+      where: { id: session.id },
+      data: { rollupTimezone: timezone },
+    });
+
+    return this.applySession(session, intervals, timezone, 1, prisma);
+  }
+
+  /**
+   * Take a previously recorded session back out of the daily rollups
+   * (used when a stopped session is edited or deleted)
+   */
+  async removeSession(
+    session: { userId: string; taskId: string; endTime: Date; rollupTimezone?: string | null },
+    intervals: IntervalSpan[],
+    tx?: any,
+  ) {
+    const prisma = tx || this.prisma;
+    const timezone = session.rollupTimezone || (await this.getTimezone(session.userId, prisma));
+
+    return this.applySession(session, intervals, timezone, -1, prisma);
+  }
+
+  /**
+   * Rebuild a user's daily rollups from their stopped sessions. Used to backfill
+   * history recorded before the rollups existed; safe to run again.
+   */
+  async rebuildRollups(userId: string) {
+    return this.prisma.$transaction(
+      async (tx) => {
+        const timezone = await this.getTimezone(userId, tx);
+        const sessions = await tx.trackingSession.findMany({
+          where: { userId, status: SessionStatus.stopped, endTime: { not: null } },
+          select: {
+            taskId: true,
+            startTime: true,
+            endTime: true,
+            intervals: { select: { startTime: true, endTime: true } },
+          },
+        });
+
+        const rollups = new Map<
+          string,
+          { taskId: string; dateKey: string; sessionCount: number; hourlySeconds: number[] }
+        >();
+
+        for (const session of sessions) {
+          const intervals =
+            session.intervals.length > 0
+              ? session.intervals
+              : [{ startTime: session.startTime, endTime: session.endTime }];
+
+          for (const [dateKey, bucket] of this.getBuckets(intervals, session.endTime, timezone)) {
+            const key = `${session.taskId}:${dateKey}`;
+            const rollup = rollups.get(key) || {
+              taskId: session.taskId,
+              dateKey,
+              sessionCount: 0,
+              hourlySeconds: new Array(24).fill(0),
+            };
+
+            rollup.sessionCount += bucket.sessionCount;
+            bucket.hourlySeconds.forEach((seconds, hour) => {
+              rollup.hourlySeconds[hour] += seconds;
+            });
+            rollups.set(key, rollup);
+          }
+        }
+
+        await tx.trackingDailyRollup.deleteMany({ where: { userId } });
+        await tx.trackingDailyRollup.createMany({
+          data: [...rollups.values()].map((rollup) => ({
+            userId,
+            taskId: rollup.taskId,
+            date: dateKeyToDate(rollup.dateKey),
+            focusedSeconds: rollup.hourlySeconds.reduce((sum, seconds) => sum + seconds, 0),
+            sessionCount: rollup.sessionCount,
+            hourlySeconds: rollup.hourlySeconds,
+          })),
+        });
+        await tx.trackingSession.updateMany({
+          where: { userId, status: SessionStatus.stopped },
+          data: { rollupTimezone: timezone },
+        });
+
+        return { sessions: sessions.length, rollups: rollups.size };
+      },
+      { timeout: REBUILD_TRANSACTION_TIMEOUT_MS },
+    );
+  }
+
+  private async applySession(
+    session: { userId: string; taskId: string; endTime: Date },
+    intervals: IntervalSpan[],
+    timezone: string,
+    sign: 1 | -1,
+    prisma: any,
+  ) {
+    for (const [dateKey, bucket] of this.getBuckets(intervals, session.endTime, timezone)) {
+      const { hourlySeconds, sessionCount } = bucket;
+      const focusedSeconds = hourlySeconds.reduce((sum, seconds) => sum + seconds, 0);
+      const where = {
+        userId_taskId_date: {
+          userId: session.userId,
+          taskId: session.taskId,
+          date: dateKeyToDate(dateKey),
+        },
+      };
+
+      const existing = await prisma.trackingDailyRollup.findUnique({ where });
+
+      if (existing) {
+        await prisma.trackingDailyRollup.update({
+          where,
+          data: {
+            focusedSeconds: Math.max(existing.focusedSeconds + sign * focusedSeconds, 0),
+            sessionCount: Math.max(existing.sessionCount + sign * sessionCount, 0),
+            hourlySeconds: hourlySeconds.map((seconds, hour) =>
+              Math.max((existing.hourlySeconds[hour] || 0) + sign * seconds, 0),
+            ),
+          },
+        });
+      } else if (sign > 0) {
+        await prisma.trackingDailyRollup.create({
+          data: {
+            userId: session.userId,
+            taskId: session.taskId,
+            date: dateKeyToDate(dateKey),
+            focusedSeconds,
+            sessionCount,
+            hourlySeconds,
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * Seconds per local hour of each day a session touched. The session itself is
+   * counted on the day it ended, even if it has no active time.
+   */
+  private getBuckets(intervals: IntervalSpan[], endTime: Date, timezone: string) {
+    const buckets = new Map<string, { hourlySeconds: number[]; sessionCount: number }>();
+    const endDateKey = toLocalDateKey(endTime, timezone);
+
+    for (const [dateKey, hourlySeconds] of this.splitIntoLocalHours(intervals, endTime, timezone)) {
+      buckets.set(dateKey, { hourlySeconds, sessionCount: 0 });
+    }
+
+    const endBucket = buckets.get(endDateKey) || {
+      hourlySeconds: new Array(24).fill(0),
+      sessionCount: 0,
+    };
+    endBucket.sessionCount = 1;
+    buckets.set(endDateKey, endBucket);
+
+    return buckets;
+  }
+
+  private async getTimezone(userId: string, prisma: any): Promise<string> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+
+    return user?.timezone || 'UTC';
+  }
+
+  /**
+   * Aggregated focus statistics for a date range, built from the daily rollups
+   */
+  async getAnalytics(query: GetAnalyticsDto, userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const to = query.to || toLocalDateKey(new Date(), user.timezone);
+    const from = query.from || addDaysToDateKey(to, -(DEFAULT_RANGE_DAYS - 1));
+    const rangeDays = diffDateKeys(to, from) + 1;
+
+    if (rangeDays < 1) {
+      throw new BadRequestException('`from` must not be after `to`');
+    }
+
+    if (rangeDays > MAX_RANGE_DAYS) {
+      throw new BadRequestException(`Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+    }
+
+    const groupBy = query.groupBy || AnalyticsGroupBy.DAY;
+
+    const rollups = await this.prisma.trackingDailyRollup.findMany({
+      where: {
+        userId,
+        date: { gte: dateKeyToDate(from), lte: dateKeyToDate(to) },
+        ...(query.taskId && { taskId: query.taskId }),
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    const timeline = new Map<string, { focusedSeconds: number; sessionCount: number }>();
+    const byTask = new Map<string, { focusedSeconds: number; sessionCount: number }>();
+    const heatmap: number[][] = Array.from({ length: 7 }, () => new Array(24).fill(0));
+    const activeDays = new Set<string>();
+    let focusedSeconds = 0;
+    let sessionCount = 0;
+
+    for (const rollup of rollups) {
+      const dateKey = dateToDateKey(rollup.date);
+      const period = getPeriodKey(dateKey, groupBy);
+      const weekday = rollup.date.getUTCDay();
+
+      this.addTo(timeline, period, rollup);
+      this.addTo(byTask, rollup.taskId, rollup);
+
+      rollup.hourlySeconds.forEach((seconds, hour) => {
+        heatmap[weekday][hour] += seconds;
+      });
+
+      if (rollup.focusedSeconds > 0) {
+        activeDays.add(dateKey);
+      }
+
+      focusedSeconds += rollup.focusedSeconds;
+      sessionCount += rollup.sessionCount;
+    }
+
+    const tasks = await this.prisma.task.findMany({
+      where: { id: { in: [...byTask.keys()] } },
+      select: { id: true, name: true, status: true },
+    });
+    const tasksById = new Map(tasks.map((task) => [task.id, task]));
+    const completedTasks = tasks.filter((task) => task.status === TaskStatus.DONE).length;
+
+    return {
+      range: { from, to, timezone: user.timezone, groupBy },
+      totals: {
+        focusedSeconds,
+        sessionCount,
+        activeDays: activeDays.size,
+        averageSessionSeconds: sessionCount > 0 ? Math.round(focusedSeconds / sessionCount) : 0,
+        averageDailySeconds: Math.round(focusedSeconds / rangeDays),
+      },
+      timeline: this.fillTimeline(timeline, from, to, groupBy),
+      byTask: [...byTask.entries()]
+        .map(([taskId, stats]) => ({
+          taskId,
+          name: tasksById.get(taskId)?.name ?? null,
+          status: tasksById.get(taskId)?.status ?? null,
+          ...stats,
+        }))
+        .sort((a, b) => b.focusedSeconds - a.focusedSeconds),
+      // heatmap[weekday][hour] in seconds, weekday 0 = Sunday, hours in the user's timezone
+      heatmap,
+      completion: {
+        trackedTasks: byTask.size,
+        completedTasks,
+        completionRate:
+          byTask.size > 0 ? Math.round((completedTasks / byTask.size) * 10000) / 100 : 0,
+      },
+    };
+  }
+
+  /**
+   * Split active intervals into seconds per local day and hour
+   */
+  private splitIntoLocalHours(intervals: IntervalSpan[], now: Date, timezone: string) {
+    const buckets = new Map<string, number[]>();
+
+    for (const interval of intervals) {
+      let cursor = interval.startTime.getTime();
+      const end = (interval.endTime ?? now).getTime();
+
+      while (cursor < end) {
+        const offset = getTimeZoneOffsetMs(new Date(cursor), timezone);
+        const nextLocalHour = (Math.floor((cursor + offset) / HOUR_MS) + 1) * HOUR_MS - offset;
+        const chunkEnd = Math.min(nextLocalHour, end);
+
+        const local = new Date(cursor + offset);
+        const dateKey = dateToDateKey(local);
+        const hour = local.getUTCHours();
+
+        if (!buckets.has(dateKey)) {
+          buckets.set(dateKey, new Array(24).fill(0));
+        }
+        buckets.get(dateKey)[hour] += Math.round((chunkEnd - cursor) / 1000);
+
+        cursor = chunkEnd;
+      }
+    }
+
+    return buckets;
+  }
+
+  /**
+   * Timeline with an entry for every period in the range, including empty ones
+   */
+  private fillTimeline(
+    timeline: Map<string, { focusedSeconds: number; sessionCount: number }>,
+    from: string,
+    to: string,
+    groupBy: AnalyticsGroupBy,
+  ) {
+    const periods: string[] = [];
+
+    for (let dateKey = from; dateKey <= to; dateKey = addDaysToDateKey(dateKey, 1)) {
+      const period = getPeriodKey(dateKey, groupBy);
+      if (periods[periods.length - 1] !== period) {
+        periods.push(period);
+      }
+    }
+
+    return periods.map((period) => ({
+      period,
+      ...(timeline.get(period) || { focusedSeconds: 0, sessionCount: 0 }),
+    }));
+  }
+
+  private addTo(
+    target: Map<string, { focusedSeconds: number; sessionCount: number }>,
+    key: string,
+    rollup: { focusedSeconds: number; sessionCount: number },
+  ) {
+    const current = target.get(key) || { focusedSeconds: 0, sessionCount: 0 };
+    target.set(key, {
+      focusedSeconds: current.focusedSeconds + rollup.focusedSeconds,
+      sessionCount: current.sessionCount + rollup.sessionCount,
+    });
+  }
+}
@@ -0,0 +1,142 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException, StreamableFile } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TrackingExportService } from './tracking-export.service';
+import { PrismaService } from '@/database/prisma.service';
+import { ExportFormat } from './dto/export-sessions.dto';
+
+describe('TrackingExportService', () => {
+  let service: TrackingExportService;
+  let mockPrismaService: any;
+
+  const session = (id: string, overrides: any = {}) => ({
+    id,
+    taskId: 'task-id',
+    startTime: new Date('2025-12-25T02:00:00.000Z'),
+    endTime: new Date('2025-12-25T03:30:00.000Z'),
+    duration: 5400,
+    expEarned: 90,
+    isManual: false,
+    task: { name: 'Study, then "rest"' },
+    subtask: null,
+    ...overrides,
+  });
+
+  const read = async (file: StreamableFile) => {
+    let content = '';
+    for await (const chunk of file.getStream()) {
+      content += chunk;
+    }
+    return content;
+  };
+
+  beforeEach(async () => {
+    mockPrismaService = {
+      user: {
+        findUnique: jest.fn().mockResolvedValue({ timezone: 'Asia/Ho_Chi_Minh' }),
+      },
+      trackingSession: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrackingExportService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: { get: jest.fn().mockReturnValue('study-app') } },
+      ],
+    }).compile();
+
+    service = module.get<TrackingExportService>(TrackingExportService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should stream a CSV timesheet for the local-day range', async () => {
+    mockPrismaService.trackingSession.findMany.mockResolvedValueOnce([session('session-1')]);
+
+    const file = await service.exportSessions(
+      { from: '2025-12-25', to: '2025-12-25', format: ExportFormat.CSV },
+      'user-id',
+    );
+    const content = await read(file);
+
+    expect(mockPrismaService.trackingSession.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          userId: 'user-id',
+          status: 'stopped',
+          // Local days in Asia/Ho_Chi_Minh (UTC+7)
+          endTime: {
+            gte: new Date('2025-12-24T17:00:00.000Z'),
+            lt: new Date('2025-12-25T17:00:00.000Z'),
+          },
+        },
+      }),
+    );
+    expect(file.getHeaders()).toEqual(
+      expect.objectContaining({
+        type: 'text/csv; charset=utf-8',
+        disposition: 'attachment; filename="timesheet-2025-12-25-to-2025-12-25.csv"',
+      }),
+    );
+    expect(content.split('\r\n')).toEqual([
+      'session_id,task_id,task_name,subtask_name,start_time,end_time,duration_seconds,exp_earned,is_manual',
+      'session-1,task-id,"Study, then ""rest""",,2025-12-25T02:00:00.000Z,2025-12-25T03:30:00.000Z,5400,90,false',
+      '',
+    ]);
+  });
+
+  it('should read sessions in batches', async () => {
+    const firstBatch = Array.from({ length: 500 }, (_, i) => session(`session-${i}`));
+    mockPrismaService.trackingSession.findMany
+      .mockResolvedValueOnce(firstBatch)
+      .mockResolvedValueOnce([session('session-500')]);
+
+    const content = await read(
+      await service.exportSessions({ format: ExportFormat.JSON }, 'user-id'),
+    );
+
+    expect(mockPrismaService.trackingSession.findMany).toHaveBeenCalledTimes(2);
+    expect(mockPrismaService.trackingSession.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ skip: 1, cursor: { id: 'session-499' } }),
+    );
+    expect(JSON.parse(content)).toHaveLength(501);
+  });
+
+  it('should write one calendar event per session', async () => {
+    mockPrismaService.trackingSession.findMany.mockResolvedValueOnce([
+      session('session-1'),
+      session('session-2', { subtask: { name: 'Chapter 1' }, isManual: true }),
+    ]);
+
+    const content = await read(
+      await service.exportSessions(
+        { from: '2025-12-01', to: '2025-12-31', format: ExportFormat.ICS },
+        'user-id',
+      ),
+    );
+
+    expect(content.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true);
+    expect(content.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(content.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+    expect(content).toContain('UID:session-session-1@study-app\r\n');
+    expect(content).toContain('DTSTART:20251225T020000Z\r\n');
+    expect(content).toContain('DTEND:20251225T033000Z\r\n');
+    expect(content).toContain('SUMMARY:Study\\, then "rest" - Chapter 1\r\n');
+    expect(content).toContain('DESCRIPTION:Focused: 1h 30m\\nEXP: 90\\nLogged manually\r\n');
+  });
+
+  it('should reject invalid ranges and unknown users', async () => {
+    await expect(
+      service.exportSessions({ from: '2025-12-28', to: '2025-12-22' }, 'user-id'),
+    ).rejects.toThrow(BadRequestException);
+
+    mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+    await expect(service.exportSessions({}, 'missing-id')).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,207 @@
+import { BadRequestException, Injectable, NotFoundException, StreamableFile } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SessionStatus } from '@prisma/client';
+import { Readable } from 'stream';
+import { PrismaService } from '@/database/prisma.service';
+import { ExportFormat, ExportSessionsDto } from './dto/export-sessions.dto';
+import {
+  addDaysToDateKey,
+  diffDateKeys,
+  getLocalDayRange,
+  getLocalDayStart,
+  toLocalDateKey,
+} from '@/common/utils/timezone.util';
+import { toCsvRow } from '@/common/utils/csv.util';
+import {
+  buildIcsCalendarFooter,
+  buildIcsCalendarHeader,
+  buildIcsEvent,
+} from '@/common/utils/ical.util';
+
+const EXPORT_BATCH_SIZE = 500;
+const DEFAULT_RANGE_DAYS = 30;
+
+const CSV_HEADER = [
+  'session_id',
+  'task_id',
+  'task_name',
+  'subtask_name',
+  'start_time',
+  'end_time',
+  'duration_seconds',
+  'exp_earned',
+  'is_manual',
+];
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  [ExportFormat.CSV]: 'text/csv; charset=utf-8',
+  [ExportFormat.JSON]: 'application/json; charset=utf-8',
+  [ExportFormat.ICS]: 'text/calendar; charset=utf-8',
+};
+
+const EXPORT_SESSION_SELECT = {
+  id: true,
+  taskId: true,
+  startTime: true,
+  endTime: true,
+  duration: true,
+  expEarned: true,
+  isManual: true,
+  task: { select: { name: true } },
+  subtask: { select: { name: true } },
+} as const;
+
+interface ExportedSession {
+  id: string;
+  taskId: string;
+  startTime: Date;
+  endTime: Date;
+  duration: number;
+  expEarned: number;
+  isManual: boolean;
+  task: { name: string };
+  subtask: { name: string } | null;
+}
+
+@Injectable()
+export class TrackingExportService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Timesheet of the user's stopped sessions that ended in the given local-day range.
+   * Sessions are read in batches and written to the response as they arrive,
+   * so the range is not limited.
+   */
+  async exportSessions(query: ExportSessionsDto, userId: string): Promise<StreamableFile> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const to = query.to || toLocalDateKey(new Date(), user.timezone);
+    const from = query.from || addDaysToDateKey(to, -(DEFAULT_RANGE_DAYS - 1));
+
+    if (diffDateKeys(to, from) < 0) {
+      throw new BadRequestException('`from` must not be after `to`');
+    }
+
+    const format = query.format || ExportFormat.CSV;
+    const range = {
+      gte: getLocalDayStart(from, user.timezone),
+      lt: getLocalDayRange(to, user.timezone).end,
+    };
+    const sessions = this.readSessions(userId, range);
+
+    return new StreamableFile(Readable.from(this.render(format, sessions, { from, to })), {
+      type: CONTENT_TYPES[format],
+      disposition: `attachment; filename="timesheet-${from}-to-${to}.${format}"`,
+    });
+  }
+
+  private async *readSessions(
+    userId: string,
+    endTime: { gte: Date; lt: Date },
+  ): AsyncGenerator<ExportedSession> {
+    let cursor: string | undefined;
+
+    do {
+      const sessions: ExportedSession[] = await this.prisma.trackingSession.findMany({
+        where: { userId, status: SessionStatus.stopped, endTime },
+        select: EXPORT_SESSION_SELECT,
+        orderBy: [{ startTime: 'asc' }, { id: 'asc' }],
+        take: EXPORT_BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+      });
+
+      yield* sessions;
+
+      cursor = sessions.length === EXPORT_BATCH_SIZE ? sessions[sessions.length - 1].id : undefined;
+    } while (cursor);
+  }
+
+  private async *render(
+    format: ExportFormat,
+    sessions: AsyncGenerator<ExportedSession>,
+    range: { from: string; to: string },
+  ): AsyncGenerator<string> {
+    switch (format) {
+      case ExportFormat.JSON: {
+        let first = true;
+        yield '[';
+        for await (const session of sessions) {
+          yield `${first ? '' : ','}${JSON.stringify(this.toRecord(session))}`;
+          first = false;
+        }
+        yield ']';
+        return;
+      }
+
+      case ExportFormat.ICS: {
+        const appName = this.configService.get<string>('app.name');
+        const stamp = new Date();
+        yield buildIcsCalendarHeader(appName, `Study time ${range.from} - ${range.to}`);
+        for await (const session of sessions) {
+          yield buildIcsEvent({
+            uid: `session-${session.id}@${appName}`,
+            stamp,
+            start: session.startTime,
+            end: session.endTime,
+            summary: this.getTitle(session),
+            description: `Focused: ${this.formatDuration(session.duration)}\nEXP: ${session.expEarned}${session.isManual ? '\nLogged manually' : ''}`,
+          });
+        }
+        yield buildIcsCalendarFooter();
+        return;
+      }
+
+      default:
+        yield toCsvRow(CSV_HEADER);
+        for await (const session of sessions) {
+          const record = this.toRecord(session);
+          yield toCsvRow([
+            record.sessionId,
+            record.taskId,
+            record.taskName,
+            record.subtaskName,
+            record.startTime,
+            record.endTime,
+            record.durationSeconds,
+            record.expEarned,
+            record.isManual,
+          ]);
+        }
+    }
+  }
+
+  private toRecord(session: ExportedSession) {
+    return {
+      sessionId: session.id,
+      taskId: session.taskId,
+      taskName: session.task.name,
+      subtaskName: session.subtask?.name ?? null,
+      startTime: session.startTime,
+      endTime: session.endTime,
+      durationSeconds: session.duration,
+      expEarned: session.expEarned,
+      isManual: session.isManual,
+    };
+  }
+
+  private getTitle(session: ExportedSession) {
+    return session.subtask ? `${session.task.name} - ${session.subtask.name}` : session.task.name;
+  }
+
+  private formatDuration(seconds: number) {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  }
+}
@@ -2,16 +2,29 @@ import {
   Controller,
   Get,
   Post,
+  Patch,
+  Delete,
+  Body,
   Param,
   Query,
   UseGuards,
   HttpCode,
   HttpStatus,
 } from '@nestjs/common';
-import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth, ApiProduces } from '@nestjs/swagger';
 import { TrackingService } from './tracking.service';
+import { TrackingAnalyticsService } from './tracking-analytics.service';
+import { PomodoroService } from './pomodoro.service';
+import { TrackingExportService } from './tracking-export.service';
 import { GetProgressDto } from './dto/get-progress.dto';
+import { GetAnalyticsDto } from './dto/get-analytics.dto';
+import { CreateManualSessionDto } from './dto/create-manual-session.dto';
+import { UpdateSessionDto } from './dto/update-session.dto';
+import { SyncSessionsDto } from './dto/sync-sessions.dto';
+import { ExportSessionsDto } from './dto/export-sessions.dto';
 import { JwtAuthGuard } from '@/common/guards/jwt-auth.guard';
+import { RolesGuard } from '@/common/guards/roles.guard';
+import { Roles } from '@/common/decorators/roles.decorator';
 import { CurrentUser } from '@/common/decorators/current-user.decorator';
 
 @ApiTags('tracking-sessions')
@@ -19,7 +32,214 @@ import { CurrentUser } from '@/common/decorators/current-user.decorator';
 @Controller('tracking-sessions')
 @UseGuards(JwtAuthGuard)
 export class TrackingController {
-  constructor(private readonly trackingService: TrackingService) {}
+  constructor(
+    private readonly trackingService: TrackingService,
+    private readonly analyticsService: TrackingAnalyticsService,
+    private readonly pomodoroService: PomodoroService,
+    private readonly exportService: TrackingExportService,
+  ) {}
+
+  @Post('manual')
+  @ApiOperation({
+    summary: 'Log time manually',
+    description:
+      'Create a stopped session with an explicit start and end time. Task time, progress and EXP are recalculated; the EXP is recorded as MANUAL_ENTRY.',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Session created successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          id: 'session-id',
+          taskId: 'task-id',
+          startTime: '2025-12-25T09:00:00.000Z',
+          endTime: '2025-12-25T10:30:00.000Z',
+          duration: 5400,
+          status: 'stopped',
+          expEarned: 5400,
+          isManual: true,
+          progress: 25,
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid time range' })
+  @ApiResponse({ status: 404, description: 'Task not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 409, description: 'Session overlaps with an existing session' })
+  createManual(@Body() dto: CreateManualSessionDto, @CurrentUser() user: any) {
+    return this.trackingService.createManual(dto, user.id);
+  }
+
+  @Post('sync')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Sync sessions recorded offline',
+    description:
+      'Upload up to 100 stopped sessions identified by client-generated IDs. Resending a batch is safe: sessions already synced are reported again, not added twice. Time overlapping sessions on the server is left out (merged); sessions with no time left or on unknown tasks are rejected. Task progress is then recalculated and tasks reaching 100% are completed.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Per-session results, in request order',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          results: [
+            {
+              clientId: 'client-session-1',
+              status: 'accepted',
+              reason: null,
+              sessionId: 'session-id-1',
+              duration: 1800,
+            },
+            {
+              clientId: 'client-session-2',
+              status: 'merged',
+              reason: '600s overlapping existing sessions were left out',
+              sessionId: 'session-id-2',
+              duration: 1200,
+            },
+            {
+              clientId: 'client-session-3',
+              status: 'rejected',
+              reason: 'Session overlaps existing sessions entirely',
+            },
+          ],
+          tasks: [{ id: 'task-id', status: 'PLANNED', progress: 50, totalTimeSpent: 10800 }],
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid batch' })
+  syncSessions(@Body() dto: SyncSessionsDto, @CurrentUser() user: any) {
+    return this.trackingService.syncSessions(dto, user.id);
+  }
+
+  @Patch(':id')
+  @ApiOperation({
+    summary: 'Correct a stopped session',
+    description:
+      'Change the start and/or end time of a stopped session. Task time, progress and EXP are recalculated and the change is written to the audit log.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Session updated successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          id: 'session-id',
+          startTime: '2025-12-25T09:00:00.000Z',
+          endTime: '2025-12-25T10:00:00.000Z',
+          duration: 3600,
+          status: 'stopped',
+          expEarned: 3600,
+          progress: 20,
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid time range or session is not stopped' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 409, description: 'Session overlaps with an existing session' })
+  updateSession(@Param('id') id: string, @Body() dto: UpdateSessionDto, @CurrentUser() user: any) {
+    return this.trackingService.updateSession(id, dto, user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Delete a stopped session',
+    description: 'Remove the session and take its time and EXP back from the task and user.',
+  })
+  @ApiResponse({ status: 200, description: 'Session deleted successfully' })
+  @ApiResponse({ status: 400, description: 'Session is not stopped' })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  removeSession(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.trackingService.removeSession(id, user.id);
+  }
+
+  @Get(':id/audit-log')
+  @ApiOperation({
+    summary: 'Get the manual change history of a session',
+    description: 'Available even after the session has been deleted.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Audit log retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: [
+          {
+            id: 'log-id',
+            sessionId: 'session-id',
+            action: 'UPDATE',
+            before: { startTime: '2025-12-25T09:00:00.000Z', endTime: '2025-12-25T12:00:00.000Z' },
+            after: { startTime: '2025-12-25T09:00:00.000Z', endTime: '2025-12-25T10:00:00.000Z' },
+            reason: 'Left the timer running over lunch',
+            createdAt: '2025-12-25T13:00:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Session not found' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  getAuditLog(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.trackingService.getAuditLog(id, user.id);
+  }
+
+  @Get(':id/pomodoro')
+  @ApiOperation({
+    summary: 'Get the Pomodoro phase of a session',
+    description:
+      'Current phase and time remaining, e.g. after reconnecting. Phase changes are also pushed as `pomodoro_phase_changed` socket events.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Pomodoro state retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          sessionId: 'session-id',
+          sessionStatus: 'paused',
+          phase: 'SHORT_BREAK',
+          completedCycles: 1,
+          phaseStartedAt: '2025-12-25T09:25:00.000Z',
+          phaseEndsAt: '2025-12-25T09:30:00.000Z',
+          remainingSeconds: 184,
+          settings: {
+            workMinutes: 25,
+            shortBreakMinutes: 5,
+            longBreakMinutes: 15,
+            cyclesBeforeLongBreak: 4,
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 404, description: 'Session not found or not in Pomodoro mode' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  getPomodoro(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.pomodoroService.getState(id, user.id);
+  }
 
   @Post(':id/pause')
   @HttpCode(HttpStatus.OK)
@@ -112,7 +332,8 @@ export class TrackingController {
   @Get('progress')
   @ApiOperation({
     summary: 'Get task progress with all sessions',
-    description: 'Get detailed progress information including all tracking sessions.',
+    description:
+      'Get detailed progress information including all tracking sessions. Only active (non-paused) time counts towards progress and EXP.',
   })
   @ApiResponse({
     status: 200,
@@ -127,19 +348,31 @@ export class TrackingController {
           totalTimeSpent: 1278,
           estimateSeconds: 3600,
           expEarned: 35.5,
+          timeBreakdown: {
+            activeTime: 1278,
+            pausedTime: 120,
+          },
           sessions: [
             {
               id: 'session-1',
               startTime: '2025-12-25T10:00:00.000Z',
-              endTime: '2025-12-25T10:10:00.000Z',
+              endTime: '2025-12-25T10:12:00.000Z',
               duration: 600,
               status: 'stopped',
+              activeTime: 600,
+              pausedTime: 120,
+              intervals: [
+                { startTime: '2025-12-25T10:00:00.000Z', endTime: '2025-12-25T10:05:00.000Z' },
+                { startTime: '2025-12-25T10:07:00.000Z', endTime: '2025-12-25T10:12:00.000Z' },
+              ],
             },
           ],
           currentSession: {
             id: 'session-2',
             startTime: '2025-12-25T10:15:00.000Z',
             status: 'active',
+            activeTime: 678,
+            pausedTime: 0,
             currentDuration: 678,
           },
         },
@@ -151,4 +384,86 @@ export class TrackingController {
   getProgress(@Query() query: GetProgressDto, @CurrentUser() user: any) {
     return this.trackingService.getProgress(query, user.id);
   }
+
+  @Get('analytics')
+  @ApiOperation({
+    summary: 'Get productivity analytics for a date range',
+    description:
+      "Focused time timeline (grouped by day, week or month), time per task, an hour-of-day by weekday heatmap, average session length and task completion rate. Dates are in the user's timezone; the range is limited to 366 days.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Analytics retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          range: {
+            from: '2025-12-22',
+            to: '2025-12-28',
+            timezone: 'Asia/Ho_Chi_Minh',
+            groupBy: 'day',
+          },
+          totals: {
+            focusedSeconds: 18000,
+            sessionCount: 8,
+            activeDays: 4,
+            averageSessionSeconds: 2250,
+            averageDailySeconds: 2571,
+          },
+          timeline: [{ period: '2025-12-22', focusedSeconds: 5400, sessionCount: 2 }],
+          byTask: [
+            {
+              taskId: 'task-id',
+              name: 'Build authentication module',
+              status: 'ACTIVE',
+              focusedSeconds: 10800,
+              sessionCount: 5,
+            },
+          ],
+          heatmap: [[0, 0, 0, 0, 0, 0, 0, 0, 0, 1800, 3600, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0]],
+          completion: {
+            trackedTasks: 3,
+            completedTasks: 1,
+            completionRate: 33.33,
+          },
+        },
+      },
+    },
+  })
+  @ApiResponse({ status: 400, description: 'Invalid date range' })
+  getAnalytics(@Query() query: GetAnalyticsDto, @CurrentUser() user: any) {
+    return this.analyticsService.getAnalytics(query, user.id);
+  }
+
+  @Get('export')
+  @ApiOperation({
+    summary: 'Export stopped sessions as a timesheet',
+    description:
+      "Download the sessions that ended in a date range with task name, start, end, duration and EXP. Dates are in the user's timezone. `format=ics` returns an iCalendar file with one event per session. The file is streamed, so any range can be exported.",
+  })
+  @ApiProduces('text/csv', 'application/json', 'text/calendar')
+  @ApiResponse({ status: 200, description: 'Timesheet file' })
+  @ApiResponse({ status: 400, description: 'Invalid date range' })
+  exportSessions(@Query() query: ExportSessionsDto, @CurrentUser() user: any) {
+    return this.exportService.exportSessions(query, user.id);
+  }
+
+  @Get('users/:userId/export')
+  @UseGuards(RolesGuard)
+  @Roles('ADMIN')
+  @ApiOperation({
+    summary: "Export a user's stopped sessions as a timesheet (Admin only)",
+    description: "Same as `GET /tracking-sessions/export`, using the given user's timezone.",
+  })
+  @ApiProduces('text/csv', 'application/json', 'text/calendar')
+  @ApiResponse({ status: 200, description: 'Timesheet file' })
+  @ApiResponse({ status: 400, description: 'Invalid date range' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @ApiResponse({ status: 404, description: 'User not found' })
+  exportUserSessions(@Param('userId') userId: string, @Query() query: ExportSessionsDto) {
+    return this.exportService.exportSessions(query, userId);
+  }
 }
@@ -1,13 +1,51 @@
-import { Module, forwardRef } from '@nestjs/common';
+import { Logger, Module, OnModuleInit, forwardRef } from '@nestjs/common';
+import { BullModule, InjectQueue } from '@nestjs/bull';
+import { Queue } from 'bull';
 import { TrackingService } from './tracking.service';
 import { TrackingController } from './tracking.controller';
+import { TrackingAnalyticsService } from './tracking-analytics.service';
+import { TrackingExportService } from './tracking-export.service';
+import { SessionIdleService } from './session-idle.service';
+import { SessionIdleProcessor } from './session-idle.processor';
+import { PomodoroService } from './pomodoro.service';
+import { PomodoroProcessor } from './pomodoro.processor';
 import { PrismaService } from '@/database/prisma.service';
 import { TasksModule } from '../tasks/tasks.module';
+import { LevelsModule } from '../levels/levels.module';
+import { StreaksModule } from '../streaks/streaks.module';
+import { WebSocketModule } from '../websocket/websocket.module';
 
 @Module({
-  imports: [forwardRef(() => TasksModule)],
+  imports: [
+    BullModule.registerQueue({ name: 'tracking' }, { name: 'pomodoro' }),
+    forwardRef(() => TasksModule),
+    LevelsModule,
+    StreaksModule,
+    forwardRef(() => WebSocketModule),
+  ],
   controllers: [TrackingController],
-  providers: [TrackingService, PrismaService],
-  exports: [TrackingService],
+  providers: [
+    TrackingService,
+    TrackingAnalyticsService,
+    TrackingExportService,
+    SessionIdleService,
+    SessionIdleProcessor,
+    PomodoroService,
+    PomodoroProcessor,
+    PrismaService,
+  ],
+  exports: [TrackingService, SessionIdleService, PomodoroService],
 })
-export class TrackingModule {}
+export class TrackingModule implements OnModuleInit {
+  private readonly logger = new Logger(TrackingModule.name);
+
+  constructor(@InjectQueue('tracking') private trackingQueue: Queue) {}
+
+  onModuleInit() {
+    this.trackingQueue
+      .add('idle-sweep', {}, { repeat: { cron: '* * * * *' }, jobId: 'idle-session-sweep' })
+      .catch((error) => {
+        this.logger.error(`Failed to schedule idle session sweep: ${error.message}`);
+      });
+  }
+}
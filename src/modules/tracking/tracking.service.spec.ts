@@ -0,0 +1,718 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  ExpSource,
+  SessionAuditAction,
+  SessionPauseReason,
+  SessionStatus,
+  TaskStatus,
+} from '@prisma/client';
+import { TrackingService } from './tracking.service';
+import { PrismaService } from '@/database/prisma.service';
+import { TasksService } from '../tasks/tasks.service';
+import { LevelsService } from '../levels/levels.service';
+import { StreaksService } from '../streaks/streaks.service';
+import { TrackingAnalyticsService } from './tracking-analytics.service';
+
+describe('TrackingService', () => {
+  let service: TrackingService;
+  let mockPrismaService: any;
+  let mockTasksService: any;
+  let mockLevelsService: any;
+  let mockStreaksService: any;
+  let mockAnalyticsService: any;
+  let tx: any;
+
+  const at = (minutes: number) => new Date(Date.UTC(2025, 11, 25, 10, minutes, 0));
+
+  beforeEach(async () => {
+    tx = {
+      trackingSession: {
+        create: jest.fn(),
+        update: jest.fn(),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        delete: jest.fn(),
+        findFirst: jest.fn().mockResolvedValue(null),
+        aggregate: jest.fn().mockResolvedValue({ _sum: { duration: 0 } }),
+      },
+      trackingSessionInterval: {
+        create: jest.fn(),
+        createMany: jest.fn(),
+        updateMany: jest.fn(),
+        deleteMany: jest.fn(),
+        findMany: jest.fn(),
+      },
+      trackingSessionAuditLog: {
+        create: jest.fn(),
+      },
+      task: {
+        findUnique: jest.fn().mockResolvedValue({
+          estimateHours: 1,
+          isActive: false,
+          status: TaskStatus.PLANNED,
+        }),
+        update: jest.fn(),
+      },
+    };
+
+    mockPrismaService = {
+      trackingSession: {
+        create: jest.fn(),
+        findUnique: jest.fn(),
+        findMany: jest.fn(),
+        update: jest.fn(),
+      },
+      task: {
+        findUnique: jest.fn(),
+      },
+      subtask: {
+        count: jest.fn().mockResolvedValue(0),
+      },
+      $transaction: jest.fn().mockImplementation(async (callback) => callback(tx)),
+    };
+
+    mockTasksService = {
+      checkAndCompleteIfNeeded: jest.fn(),
+      getColumnEndPosition: jest.fn().mockResolvedValue('z'),
+      assertNotArchived: jest.fn(),
+    };
+
+    mockLevelsService = {
+      awardExp: jest.fn(),
+      refreshLevel: jest.fn(),
+    };
+
+    mockStreaksService = {
+      recordActivity: jest.fn(),
+    };
+
+    mockAnalyticsService = {
+      recordSession: jest.fn(),
+      removeSession: jest.fn(),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        TrackingService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: TasksService, useValue: mockTasksService },
+        { provide: LevelsService, useValue: mockLevelsService },
+        { provide: StreaksService, useValue: mockStreaksService },
+        { provide: TrackingAnalyticsService, useValue: mockAnalyticsService },
+      ],
+    }).compile();
+
+    service = module.get<TrackingService>(TrackingService);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('calculateActiveDuration', () => {
+    it('should sum closed intervals and count an open interval until now', () => {
+      const duration = service.calculateActiveDuration(
+        [
+          { startTime: at(0), endTime: at(10) },
+          { startTime: at(20), endTime: null },
+        ],
+        at(25),
+      );
+
+      expect(duration).toBe(15 * 60);
+    });
+  });
+
+  describe('calculateTaskProgress', () => {
+    beforeEach(() => {
+      mockPrismaService.subtask.count.mockResolvedValueOnce(4).mockResolvedValueOnce(3);
+    });
+
+    it('should blend time and checklist progress by the checklist weight', async () => {
+      // 1h of 4h = 25% time progress, 3 of 4 items = 75% checklist progress
+      const progress = await service.calculateTaskProgress('task-id', 3600, {
+        estimateHours: 4,
+        checklistWeight: 0.5,
+      });
+
+      expect(progress).toBe(50);
+    });
+
+    it('should only use time progress without a checklist weight', async () => {
+      const progress = await service.calculateTaskProgress('task-id', 3600, {
+        estimateHours: 4,
+        checklistWeight: 0,
+      });
+
+      expect(progress).toBe(25);
+      expect(mockPrismaService.subtask.count).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createSession', () => {
+    it('should open the first interval together with the session', async () => {
+      mockPrismaService.trackingSession.create.mockResolvedValue({ id: 'session-id' });
+
+      await service.createSession('task-id', 'user-id');
+
+      const { data } = mockPrismaService.trackingSession.create.mock.calls[0][0];
+      expect(data.intervals.create.startTime).toEqual(data.startTime);
+    });
+  });
+
+  describe('pause', () => {
+    it('should close the open interval', async () => {
+      jest.useFakeTimers().setSystemTime(at(10));
+
+      mockPrismaService.trackingSession.findUnique.mockResolvedValue({
+        id: 'session-id',
+        userId: 'user-id',
+        startTime: at(0),
+        status: SessionStatus.active,
+      });
+      tx.trackingSession.update.mockResolvedValue({
+        id: 'session-id',
+        status: SessionStatus.paused,
+        intervals: [{ startTime: at(0), endTime: at(10) }],
+      });
+
+      const result = await service.pause('session-id', 'user-id');
+
+      expect(tx.trackingSessionInterval.updateMany).toHaveBeenCalledWith({
+        where: { sessionId: 'session-id', endTime: null },
+        data: { endTime: at(10) },
+      });
+      expect(result.currentDuration).toBe(600);
+      expect(result).not.toHaveProperty('intervals');
+    });
+
+    it('should throw BadRequestException if session is not active', async () => {
+      mockPrismaService.trackingSession.findUnique.mockResolvedValue({
+        id: 'session-id',
+        userId: 'user-id',
+        status: SessionStatus.paused,
+      });
+
+      await expect(service.pause('session-id', 'user-id')).rejects.toThrow(BadRequestException);
+    });
+
+    it('should leave the session alone when it no longer matches the guard', async () => {
+      const guard = { status: SessionStatus.active, lastHeartbeatAt: at(5) };
+      tx.trackingSession.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await service.pauseSessionAt(
+        { id: 'session-id', startTime: at(0) },
+        at(5),
+        SessionPauseReason.IDLE,
+        guard,
+      );
+
+      expect(result).toBeNull();
+      expect(tx.trackingSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-id', ...guard },
+        data: { status: SessionStatus.paused },
+      });
+      expect(tx.trackingSessionInterval.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should throw ForbiddenException if user does not own session', async () => {
+      mockPrismaService.trackingSession.findUnique.mockResolvedValue({
+        id: 'session-id',
+        userId: 'other-user-id',
+        status: SessionStatus.active,
+      });
+
+      await expect(service.pause('session-id', 'user-id')).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('resume', () => {
+    it('should open a new interval', async () => {
+      mockPrismaService.trackingSession.findUnique.mockResolvedValue({
+        id: 'session-id',
+        userId: 'user-id',
+        status: SessionStatus.paused,
+      });
+      tx.trackingSession.update.mockResolvedValue({
+        id: 'session-id',
+        status: SessionStatus.active,
+      });
+
+      const result = await service.resume('session-id', 'user-id');
+
+      expect(tx.trackingSessionInterval.create).toHaveBeenCalledWith({
+        data: { sessionId: 'session-id', startTime: expect.any(Date) },
+      });
+      expect(result.status).toBe(SessionStatus.active);
+    });
+
+    it('should leave a session that no longer matches the guard untouched', async () => {
+      tx.trackingSession.updateMany.mockResolvedValue({ count: 0 });
+      const guard = { status: SessionStatus.paused, pauseReason: SessionPauseReason.POMODORO };
+
+      const result = await service.resumeSessionAt({ id: 'session-id' }, at(30), guard);
+
+      expect(result).toBeNull();
+      expect(tx.trackingSession.updateMany).toHaveBeenCalledWith({
+        where: { id: 'session-id', ...guard },
+        data: { status: SessionStatus.active },
+      });
+      expect(tx.trackingSessionInterval.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('stop', () => {
+    it('should only count active intervals towards duration, progress and EXP', async () => {
+      jest.useFakeTimers().setSystemTime(at(40));
+
+      mockPrismaService.trackingSession.findUnique.mockResolvedValue({
+        id: 'session-id',
+        taskId: 'task-id',
+        userId: 'user-id',
+        startTime: at(0),
+        status: SessionStatus.active,
+        task: {
+          id: 'task-id',
+          status: TaskStatus.ACTIVE,
+          estimateHours: 1,
+          totalTimeSpent: 0,
+          progress: 0,
+        },
+      });
+      // 10 minutes active, 20 minutes paused, 10 minutes active
+      tx.trackingSessionInterval.findMany.mockResolvedValue([
+        { startTime: at(0), endTime: at(10) },
+        { startTime: at(30), endTime: at(40) },
+      ]);
+      tx.trackingSession.update.mockImplementation(async ({ data }) => ({
+        id: 'session-id',
+        ...data,
+      }));
+
+      const result = await service.stop('session-id', 'user-id');
+
+      expect(result.duration).toBe(1200);
+      expect(result.expEarned).toBe(1200);
+      expect(result.progress).toBeCloseTo(33.33, 2);
+      expect(tx.task.update).toHaveBeenCalledWith({
+        where: { id: 'task-id' },
+        data: {
+          totalTimeSpent: 1200,
+          progress: expect.any(Number),
+          isActive: false,
+          status: TaskStatus.PLANNED,
+          position: 'z',
+        },
+      });
+      expect(mockTasksService.checkAndCompleteIfNeeded).not.toHaveBeenCalled();
+      expect(mockLevelsService.awardExp).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'user-id',
+          amount: 1200,
+          source: ExpSource.SESSION_STOP,
+          sessionId: 'session-id',
+        }),
+        tx,
+      );
+      expect(mockLevelsService.refreshLevel).toHaveBeenCalledWith('user-id');
+      expect(mockAnalyticsService.recordSession).toHaveBeenCalledWith(
+        { id: 'session-id', userId: 'user-id', taskId: 'task-id', endTime: at(40) },
+        [
+          { startTime: at(0), endTime: at(10) },
+          { startTime: at(30), endTime: at(40) },
+        ],
+        tx,
+      );
+    });
+
+    it('should throw NotFoundException if session not found', async () => {
+      mockPrismaService.trackingSession.findUnique.mockResolvedValue(null);
+
+      await expect(service.stop('session-id', 'user-id')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('createManual', () => {
+    const dto = {
+      taskId: 'task-id',
+      startTime: at(0).toISOString(),
+      endTime: at(30).toISOString(),
+      reason: 'Forgot to start the timer',
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(at(120));
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: 'task-id',
+        userId: 'user-id',
+        progress: 0,
+      });
+      tx.trackingSession.create.mockImplementation(async ({ data }) => ({
+        id: 'session-id',
+        ...data,
+      }));
+    });
+
+    it('should create a stopped session and flag its EXP as manual', async () => {
+      tx.trackingSession.aggregate.mockResolvedValue({ _sum: { duration: 1800 } });
+
+      const result = await service.createManual(dto, 'user-id');
+
+      expect(result).toMatchObject({
+        duration: 1800,
+        status: SessionStatus.stopped,
+        isManual: true,
+        progress: 50,
+      });
+      expect(mockLevelsService.awardExp).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 1800, source: ExpSource.MANUAL_ENTRY }),
+        tx,
+      );
+      expect(tx.task.update).toHaveBeenCalledWith({
+        where: { id: 'task-id' },
+        data: { totalTimeSpent: 1800, progress: 50 },
+      });
+      expect(tx.trackingSessionAuditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          sessionId: 'session-id',
+          action: SessionAuditAction.CREATE,
+          reason: 'Forgot to start the timer',
+        }),
+      });
+      expect(mockLevelsService.refreshLevel).toHaveBeenCalledWith('user-id');
+      expect(mockStreaksService.recordActivity).toHaveBeenCalledWith('user-id', at(30));
+    });
+
+    it('should reject time logged on recurring task templates', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: 'task-id',
+        userId: 'user-id',
+        progress: 0,
+        isRecurringTemplate: true,
+      });
+
+      await expect(service.createManual(dto, 'user-id')).rejects.toThrow(BadRequestException);
+      expect(tx.trackingSession.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject sessions overlapping another session', async () => {
+      tx.trackingSession.findFirst.mockResolvedValue({ id: 'other-session' });
+
+      await expect(service.createManual(dto, 'user-id')).rejects.toThrow(ConflictException);
+      expect(tx.trackingSession.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject sessions ending in the future', async () => {
+      await expect(
+        service.createManual({ ...dto, endTime: at(180).toISOString() }, 'user-id'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject time logged on archived tasks', async () => {
+      mockTasksService.assertNotArchived.mockImplementation(() => {
+        throw new BadRequestException('Task is archived; restore it first');
+      });
+
+      await expect(service.createManual(dto, 'user-id')).rejects.toThrow(BadRequestException);
+      expect(tx.trackingSession.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateSession', () => {
+    const stoppedSession = {
+      id: 'session-id',
+      taskId: 'task-id',
+      userId: 'user-id',
+      startTime: at(0),
+      endTime: at(40),
+      duration: 1200,
+      expEarned: 1200,
+      status: SessionStatus.stopped,
+      intervals: [
+        { startTime: at(0), endTime: at(10) },
+        { startTime: at(30), endTime: at(40) },
+      ],
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(at(120));
+      tx.trackingSession.update.mockImplementation(async ({ data }) => ({
+        ...stoppedSession,
+        ...data,
+      }));
+    });
+
+    it('should keep pauses, stretch the last interval and award the EXP difference', async () => {
+      mockPrismaService.trackingSession.findUnique.mockResolvedValue(stoppedSession);
+
+      const result = await service.updateSession(
+        'session-id',
+        { endTime: at(50).toISOString() },
+        'user-id',
+      );
+
+      expect(tx.trackingSessionInterval.createMany).toHaveBeenCalledWith({
+        data: [
+          { sessionId: 'session-id', startTime: at(0), endTime: at(10) },
+          { sessionId: 'session-id', startTime: at(30), endTime: at(50) },
+        ],
+      });
+      expect(result.duration).toBe(1800);
+      expect(mockAnalyticsService.removeSession).toHaveBeenCalledWith(
+        stoppedSession,
+        stoppedSession.intervals,
+        tx,
+      );
+      expect(mockLevelsService.awardExp).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 600, source: ExpSource.MANUAL_ENTRY }),
+        tx,
+      );
+      expect(tx.trackingSessionAuditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: SessionAuditAction.UPDATE }),
+      });
+    });
+
+    it('should only allow editing stopped sessions', async () => {
+      mockPrismaService.trackingSession.findUnique.mockResolvedValue({
+        ...stoppedSession,
+        status: SessionStatus.paused,
+      });
+
+      await expect(
+        service.updateSession('session-id', { endTime: at(50).toISOString() }, 'user-id'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('removeSession', () => {
+    it('should delete the session and take its EXP back', async () => {
+      mockPrismaService.trackingSession.findUnique.mockResolvedValue({
+        id: 'session-id',
+        taskId: 'task-id',
+        userId: 'user-id',
+        startTime: at(0),
+        endTime: at(20),
+        duration: 1200,
+        expEarned: 1200,
+        status: SessionStatus.stopped,
+        intervals: [],
+      });
+
+      await service.removeSession('session-id', 'user-id');
+
+      expect(tx.trackingSession.delete).toHaveBeenCalledWith({ where: { id: 'session-id' } });
+      expect(mockLevelsService.awardExp).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: -1200, source: ExpSource.MANUAL_ENTRY }),
+        tx,
+      );
+      expect(tx.trackingSessionAuditLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: SessionAuditAction.DELETE, after: undefined }),
+      });
+      expect(tx.task.update).toHaveBeenCalledWith({
+        where: { id: 'task-id' },
+        data: { totalTimeSpent: 0, progress: 0 },
+      });
+    });
+
+    it('should reject sessions of other users', async () => {
+      mockPrismaService.trackingSession.findUnique.mockResolvedValue({
+        id: 'session-id',
+        userId: 'other-user',
+        status: SessionStatus.stopped,
+        intervals: [],
+      });
+
+      await expect(service.removeSession('session-id', 'user-id')).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('getProgress', () => {
+    it('should expose active and paused time', async () => {
+      jest.useFakeTimers().setSystemTime(at(50));
+
+      mockPrismaService.task.findUnique.mockResolvedValue({
+        id: 'task-id',
+        userId: 'user-id',
+        estimateHours: 1,
+        progress: 10,
+        totalTimeSpent: 360,
+      });
+      mockPrismaService.trackingSession.findMany.mockResolvedValue([
+        {
+          id: 'session-2',
+          startTime: at(30),
+          endTime: null,
+          duration: 0,
+          status: SessionStatus.paused,
+          intervals: [{ startTime: at(30), endTime: at(35) }],
+        },
+        {
+          id: 'session-1',
+          startTime: at(0),
+          endTime: at(10),
+          duration: 360,
+          status: SessionStatus.stopped,
+          intervals: [],
+        },
+      ]);
+
+      const result = await service.getProgress({ taskId: 'task-id' }, 'user-id');
+
+      expect(result.timeBreakdown).toEqual({ activeTime: 660, pausedTime: 1140 });
+      expect(result.totalTimeSpent).toBe(660);
+      expect(result.currentSession.id).toBe('session-2');
+      expect(result.currentSession.currentDuration).toBe(300);
+    });
+  });
+
+  describe('syncSessions', () => {
+    const item = (clientId: string, start: number, end: number) => ({
+      clientId,
+      taskId: 'task-id',
+      startTime: at(start).toISOString(),
+      endTime: at(end).toISOString(),
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(at(120));
+      mockPrismaService.trackingSession.findUnique.mockResolvedValue(null);
+      mockPrismaService.trackingSession.aggregate = jest
+        .fn()
+        .mockResolvedValue({ _sum: { duration: 3600 } });
+      mockPrismaService.task.findUnique.mockImplementation(async ({ select }) =>
+        select.userId
+          ? { id: 'task-id', userId: 'user-id', progress: 0, archivedAt: null }
+          : { estimateHours: 1, isActive: false, status: TaskStatus.PLANNED },
+      );
+      mockPrismaService.task.update = jest.fn();
+      mockPrismaService.task.findMany = jest
+        .fn()
+        .mockResolvedValue([{ id: 'task-id', status: TaskStatus.DONE, progress: 100 }]);
+      tx.trackingSession.findMany = jest.fn().mockResolvedValue([]);
+      tx.trackingSession.create.mockImplementation(async ({ data }) => ({
+        id: `session-${data.clientId}`,
+      }));
+    });
+
+    it('should accept sessions and complete tasks reaching 100%', async () => {
+      const result = await service.syncSessions({ sessions: [item('a', 0, 30)] }, 'user-id');
+
+      expect(result.results).toEqual([
+        { clientId: 'a', status: 'accepted', reason: null, sessionId: 'session-a', duration: 1800 },
+      ]);
+      expect(tx.trackingSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          clientId: 'a',
+          status: SessionStatus.stopped,
+          intervals: { create: [{ startTime: at(0), endTime: at(30) }] },
+        }),
+        select: { id: true },
+      });
+      expect(mockLevelsService.awardExp).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 1800, source: ExpSource.SESSION_STOP }),
+        tx,
+      );
+      expect(mockTasksService.checkAndCompleteIfNeeded).toHaveBeenCalledWith(
+        'task-id',
+        100,
+        mockPrismaService,
+      );
+      expect(result.tasks).toEqual([{ id: 'task-id', status: TaskStatus.DONE, progress: 100 }]);
+    });
+
+    it('should leave out time overlapping existing sessions', async () => {
+      tx.trackingSession.findMany.mockResolvedValue([{ startTime: at(10), endTime: at(20) }]);
+
+      const result = await service.syncSessions({ sessions: [item('a', 0, 30)] }, 'user-id');
+
+      expect(result.results[0]).toMatchObject({ status: 'merged', duration: 1200 });
+      expect(tx.trackingSession.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          startTime: at(0),
+          endTime: at(30),
+          duration: 1200,
+          intervals: {
+            create: [
+              { startTime: at(0), endTime: at(10) },
+              { startTime: at(20), endTime: at(30) },
+            ],
+          },
+        }),
+        select: { id: true },
+      });
+    });
+
+    it('should reject sessions covered by existing ones or a running session', async () => {
+      tx.trackingSession.findMany.mockResolvedValue([{ startTime: at(-10), endTime: null }]);
+
+      const result = await service.syncSessions({ sessions: [item('a', 0, 30)] }, 'user-id');
+
+      expect(result.results).toEqual([
+        {
+          clientId: 'a',
+          status: 'rejected',
+          reason: 'Session overlaps existing sessions entirely',
+        },
+      ]);
+      expect(tx.trackingSession.create).not.toHaveBeenCalled();
+      expect(mockLevelsService.refreshLevel).not.toHaveBeenCalled();
+    });
+
+    it('should reject sessions on tasks of other users', async () => {
+      mockPrismaService.task.findUnique.mockResolvedValue({ id: 'task-id', userId: 'other-user' });
+
+      const result = await service.syncSessions({ sessions: [item('a', 0, 30)] }, 'user-id');
+
+      expect(result.results[0]).toEqual({
+        clientId: 'a',
+        status: 'rejected',
+        reason: 'Task not found',
+      });
+    });
+
+    it('should report sessions synced before without adding them again', async () => {
+      mockPrismaService.trackingSession.findUnique.mockResolvedValue({
+        id: 'session-a',
+        startTime: at(0),
+        endTime: at(30),
+        duration: 1800,
+      });
+
+      const result = await service.syncSessions({ sessions: [item('a', 0, 30)] }, 'user-id');
+
+      expect(result.results).toEqual([
+        {
+          clientId: 'a',
+          status: 'accepted',
+          reason: 'Already synced',
+          sessionId: 'session-a',
+          duration: 1800,
+        },
+      ]);
+      expect(tx.trackingSession.create).not.toHaveBeenCalled();
+      expect(mockLevelsService.awardExp).not.toHaveBeenCalled();
+    });
+
+    it('should return results in request order', async () => {
+      const result = await service.syncSessions(
+        { sessions: [item('late', 60, 90), item('early', 0, 30)] },
+        'user-id',
+      );
+
+      expect(result.results.map((entry) => entry.clientId)).toEqual(['late', 'early']);
+      expect(tx.trackingSession.create.mock.calls[0][0].data.clientId).toBe('early');
+    });
+  });
+});
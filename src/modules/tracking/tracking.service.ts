@@ -3,13 +3,59 @@ import {
   NotFoundException,
   BadRequestException,
   ForbiddenException,
+  ConflictException,
+  HttpException,
   Inject,
   forwardRef,
 } from '@nestjs/common';
 import { PrismaService } from '@/database/prisma.service';
 import { GetProgressDto } from './dto/get-progress.dto';
-import { SessionStatus, TaskStatus } from '@prisma/client';
+import { CreateManualSessionDto } from './dto/create-manual-session.dto';
+import { UpdateSessionDto } from './dto/update-session.dto';
+import { SyncSessionDto, SyncSessionsDto } from './dto/sync-sessions.dto';
+import {
+  ExpSource,
+  Prisma,
+  SessionAuditAction,
+  SessionPauseReason,
+  SessionStatus,
+  TaskStatus,
+  TrackingSession,
+  TrackingSessionInterval,
+} from '@prisma/client';
 import { TasksService } from '../tasks/tasks.service';
+import { LevelsService } from '../levels/levels.service';
+import { StreaksService } from '../streaks/streaks.service';
+import { TrackingAnalyticsService } from './tracking-analytics.service';
+
+type IntervalSpan = Pick<TrackingSessionInterval, 'startTime' | 'endTime'>;
+
+const MAX_MANUAL_SESSION_HOURS = 24;
+
+export interface SyncSessionResult {
+  clientId: string;
+  // merged = synced without the parts overlapping sessions already on the server
+  status: 'accepted' | 'merged' | 'rejected';
+  reason: string | null;
+  sessionId?: string;
+  duration?: number;
+}
+
+const STOPPED_SESSION_SELECT = {
+  id: true,
+  taskId: true,
+  subtaskId: true,
+  userId: true,
+  startTime: true,
+  endTime: true,
+  duration: true,
+  status: true,
+  expEarned: true,
+  previousProgress: true,
+  isManual: true,
+  createdAt: true,
+  updatedAt: true,
+};
 
 @Injectable()
 export class TrackingService {
@@ -17,27 +63,39 @@ export class TrackingService {
     private prisma: PrismaService,
     @Inject(forwardRef(() => TasksService))
     private tasksService: TasksService,
+    private levelsService: LevelsService,
+    private streaksService: StreaksService,
+    private analyticsService: TrackingAnalyticsService,
   ) {}
 
   /**
-   * Create new tracking session when task is activated
+   * Create new tracking session when task is activated, optionally against one of its subtasks
    */
-  async createSession(taskId: string, userId: string, tx?: any) {
+  async createSession(taskId: string, userId: string, tx?: any, subtaskId?: string) {
     const prisma = tx || this.prisma;
 
+    const now = new Date();
+
     return await prisma.trackingSession.create({
       data: {
         taskId,
+        subtaskId,
         userId,
-        startTime: new Date(),
+        startTime: now,
         endTime: null,
         duration: 0,
         status: SessionStatus.active,
         expEarned: 0,
+        lastHeartbeatAt: now,
+        // Open the first active interval
+        intervals: {
+          create: { startTime: now },
+        },
       },
       select: {
         id: true,
         taskId: true,
+        subtaskId: true,
         userId: true,
         startTime: true,
         endTime: true,
@@ -71,39 +129,213 @@ export class TrackingService {
 
     // Stop each session and update task progress
     for (const session of activeSessions) {
-      const task = session.task;
-      const previousProgress = task.progress;
+      await this.finalizeSession(session, session.task, prisma, now, {
+        isActive: false,
+        status: TaskStatus.PLANNED,
+        ...(session.task.status !== TaskStatus.PLANNED && {
+          position: await this.tasksService.getColumnEndPosition(
+            userId,
+            TaskStatus.PLANNED,
+            prisma,
+          ),
+        }),
+      });
+    }
+  }
 
-      // Calculate duration
-      const duration = Math.floor((now.getTime() - session.startTime.getTime()) / 1000);
+  /**
+   * Close the session's open interval, store the active duration, add it to the task,
+   * update the daily analytics rollups and record the earned EXP in the ledger.
+   * `taskData` is merged into the task update (e.g. to deactivate the task).
+   */
+  async finalizeSession(
+    session: { id: string; taskId: string; userId: string; startTime: Date },
+    task: {
+      totalTimeSpent: number;
+      estimateHours: any;
+      progress: number;
+      checklistWeight?: number;
+    },
+    tx?: any,
+    now: Date = new Date(),
+    taskData: Record<string, any> = {},
+  ) {
+    const prisma = tx || this.prisma;
 
-      // Update session
-      await prisma.trackingSession.update({
-        where: { id: session.id },
-        data: {
-          endTime: now,
-          duration,
-          status: SessionStatus.stopped,
-          expEarned: duration,
-          previousProgress: previousProgress,
-        },
-      });
+    await prisma.trackingSessionInterval.updateMany({
+      where: { sessionId: session.id, endTime: null },
+      data: { endTime: now },
+    });
 
-      // Update task totalTimeSpent and progress
-      const newTotalTimeSpent = task.totalTimeSpent + duration;
-      const estimatedSeconds = Number(task.estimateHours) * 3600;
-      const newProgress = Math.min((newTotalTimeSpent / estimatedSeconds) * 100, 100);
+    const intervals = await prisma.trackingSessionInterval.findMany({
+      where: { sessionId: session.id },
+      select: { startTime: true, endTime: true },
+    });
 
-      await prisma.task.update({
-        where: { id: session.taskId },
-        data: {
-          totalTimeSpent: newTotalTimeSpent,
-          progress: newProgress,
-          isActive: false,
-          status: TaskStatus.PLANNED,
-        },
-      });
+    const duration = this.getSessionDuration(session, intervals, now);
+    const previousProgress = task.progress;
+    const totalTimeSpent = task.totalTimeSpent + duration;
+    const progress = await this.calculateTaskProgress(session.taskId, totalTimeSpent, task, prisma);
+
+    // Calculate EXP (in seconds)
+    const expEarned = duration;
+
+    const updatedSession = await prisma.trackingSession.update({
+      where: { id: session.id },
+      data: {
+        endTime: now,
+        duration,
+        status: SessionStatus.stopped,
+        expEarned,
+        previousProgress,
+      },
+      select: {
+        id: true,
+        taskId: true,
+        userId: true,
+        startTime: true,
+        endTime: true,
+        duration: true,
+        status: true,
+        expEarned: true,
+        previousProgress: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+    });
+
+    await prisma.task.update({
+      where: { id: session.taskId },
+      data: {
+        totalTimeSpent,
+        progress,
+        ...taskData,
+      },
+    });
+
+    // Legacy sessions without intervals are treated as one continuous span
+    await this.analyticsService.recordSession(
+      { id: session.id, userId: session.userId, taskId: session.taskId, endTime: now },
+      intervals.length > 0 ? intervals : [{ startTime: session.startTime, endTime: now }],
+      prisma,
+    );
+
+    await this.levelsService.awardExp(
+      {
+        userId: session.userId,
+        amount: expEarned,
+        source: ExpSource.SESSION_STOP,
+        description: 'Tracking session stopped',
+        sessionId: session.id,
+        taskId: session.taskId,
+      },
+      prisma,
+    );
+
+    return { session: updatedSession, duration, totalTimeSpent, progress };
+  }
+
+  /**
+   * Sum of active interval time in seconds. An open interval counts until `now`.
+   */
+  calculateActiveDuration(intervals: IntervalSpan[], now: Date = new Date()): number {
+    const totalMs = intervals.reduce((sum, interval) => {
+      const end = interval.endTime ?? now;
+      return sum + Math.max(end.getTime() - interval.startTime.getTime(), 0);
+    }, 0);
+
+    return Math.floor(totalMs / 1000);
+  }
+
+  /**
+   * Task progress (%) for the given time spent, capped at 100
+   */
+  calculateProgress(totalTimeSpent: number, estimateHours: any): number {
+    const estimatedSeconds = Number(estimateHours) * 3600;
+    return Math.min((totalTimeSpent / estimatedSeconds) * 100, 100);
+  }
+
+  /**
+   * Task progress (%) blending time-based progress with the share of checklist items done,
+   * weighted by the task's `checklistWeight` (0 = time only, 1 = checklist only)
+   */
+  async calculateTaskProgress(
+    taskId: string,
+    totalTimeSpent: number,
+    task: { estimateHours: any; checklistWeight?: number },
+    tx?: any,
+  ): Promise<number> {
+    const timeProgress = this.calculateProgress(totalTimeSpent, task.estimateHours);
+    const weight = task.checklistWeight || 0;
+
+    if (weight === 0) {
+      return timeProgress;
+    }
+
+    const checklist = await this.getChecklistStats(taskId, tx);
+
+    // Without checklist items the time-based progress is used as is
+    if (checklist.total === 0) {
+      return timeProgress;
     }
+
+    return timeProgress * (1 - weight) + checklist.progress * weight;
+  }
+
+  /**
+   * Number of subtasks and how many of them are done
+   */
+  async getChecklistStats(taskId: string, tx?: any) {
+    const prisma = tx || this.prisma;
+
+    const [total, done] = await Promise.all([
+      prisma.subtask.count({ where: { taskId } }),
+      prisma.subtask.count({ where: { taskId, isDone: true } }),
+    ]);
+
+    return {
+      total,
+      done,
+      progress: total > 0 ? (done / total) * 100 : 0,
+    };
+  }
+
+  /**
+   * Active duration of a session in seconds.
+   * Sessions created before interval tracking have no intervals and fall back to wall-clock time.
+   */
+  private getSessionDuration(session: { startTime: Date }, intervals: IntervalSpan[], now: Date) {
+    if (intervals.length === 0) {
+      return Math.floor((now.getTime() - session.startTime.getTime()) / 1000);
+    }
+
+    return this.calculateActiveDuration(intervals, now);
+  }
+
+  /**
+   * Split a session's elapsed time into active and paused seconds
+   */
+  private getTimeBreakdown(
+    session: {
+      startTime: Date;
+      endTime: Date | null;
+      duration: number;
+      status: SessionStatus;
+      intervals: IntervalSpan[];
+    },
+    now: Date,
+  ) {
+    const end = session.endTime ?? now;
+    const elapsed = Math.floor((end.getTime() - session.startTime.getTime()) / 1000);
+    const activeTime =
+      session.status === SessionStatus.stopped
+        ? session.duration
+        : this.getSessionDuration(session, session.intervals, now);
+
+    return {
+      activeTime,
+      pausedTime: Math.max(elapsed - activeTime, 0),
+    };
   }
 
   /**
@@ -126,30 +358,65 @@ export class TrackingService {
       throw new BadRequestException('Session is not active');
     }
 
-    // Update status to paused (keep endTime null)
-    const updatedSession = await this.prisma.trackingSession.update({
-      where: { id: sessionId },
-      data: { status: SessionStatus.paused },
-      select: {
-        id: true,
-        taskId: true,
-        userId: true,
-        startTime: true,
-        endTime: true,
-        duration: true,
-        status: true,
-        expEarned: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    return this.pauseSessionAt(session, new Date());
+  }
+
+  /**
+   * Pause an active session as of `now`. Active time after it is dropped, which
+   * lets idle sessions be paused at their last heartbeat. The reason tells the
+   * Pomodoro clock whether it may resume the session after a break. With a `guard`
+   * nothing happens (null is returned) unless the session still matches it.
+   */
+  async pauseSessionAt(
+    session: { id: string; startTime: Date },
+    now: Date,
+    reason: SessionPauseReason = SessionPauseReason.MANUAL,
+    guard?: Prisma.TrackingSessionWhereInput,
+  ) {
+    const sessionId = session.id;
+
+    // Update status to paused (keep endTime null) and close the open interval
+    const updatedSession = await this.prisma.$transaction(async (tx) => {
+      if (guard && !(await this.claimSession(tx, sessionId, guard, SessionStatus.paused))) {
+        return null;
+      }
+
+      await tx.trackingSessionInterval.updateMany({
+        where: { sessionId, endTime: null },
+        data: { endTime: now },
+      });
+
+      return tx.trackingSession.update({
+        where: { id: sessionId },
+        data: { status: SessionStatus.paused, pauseReason: reason },
+        select: {
+          id: true,
+          taskId: true,
+          userId: true,
+          startTime: true,
+          endTime: true,
+          duration: true,
+          status: true,
+          expEarned: true,
+          createdAt: true,
+          updatedAt: true,
+          intervals: {
+            select: { startTime: true, endTime: true },
+          },
+        },
+      });
     });
 
+    if (!updatedSession) {
+      return null;
+    }
+
     // Calculate current duration (not saved yet)
-    const now = new Date();
-    const currentDuration = Math.floor((now.getTime() - session.startTime.getTime()) / 1000);
+    const { intervals, ...sessionData } = updatedSession;
+    const currentDuration = this.getSessionDuration(session, intervals, now);
 
     return {
-      ...updatedSession,
+      ...sessionData,
       currentDuration, // For display only
     };
   }
@@ -174,22 +441,46 @@ export class TrackingService {
       throw new BadRequestException('Session is not paused');
     }
 
-    // Update status to active
-    const updatedSession = await this.prisma.trackingSession.update({
-      where: { id: sessionId },
-      data: { status: SessionStatus.active },
-      select: {
-        id: true,
-        taskId: true,
-        userId: true,
-        startTime: true,
-        endTime: true,
-        duration: true,
-        status: true,
-        expEarned: true,
-        createdAt: true,
-        updatedAt: true,
-      },
+    return this.resumeSessionAt(session, new Date());
+  }
+
+  /**
+   * Resume a paused session as of `now` (Pomodoro breaks end on schedule even if
+   * the job runs a little late)
+   */
+  async resumeSessionAt(
+    session: { id: string },
+    now: Date,
+    guard?: Prisma.TrackingSessionWhereInput,
+  ) {
+    const sessionId = session.id;
+
+    // Update status to active and open a new interval
+    const updatedSession = await this.prisma.$transaction(async (tx) => {
+      if (guard && !(await this.claimSession(tx, sessionId, guard, SessionStatus.active))) {
+        return null;
+      }
+
+      await tx.trackingSessionInterval.create({
+        data: { sessionId, startTime: now },
+      });
+
+      return tx.trackingSession.update({
+        where: { id: sessionId },
+        data: { status: SessionStatus.active, lastHeartbeatAt: now, pauseReason: null },
+        select: {
+          id: true,
+          taskId: true,
+          userId: true,
+          startTime: true,
+          endTime: true,
+          duration: true,
+          status: true,
+          expEarned: true,
+          createdAt: true,
+          updatedAt: true,
+        },
+      });
     });
 
     return updatedSession;
@@ -216,71 +507,749 @@ export class TrackingService {
       throw new BadRequestException('Session is already stopped');
     }
 
-    const now = new Date();
-    const duration = Math.floor((now.getTime() - session.startTime.getTime()) / 1000);
+    return this.stopSessionAt(session, new Date());
+  }
 
-    // Calculate new task progress
+  /**
+   * Stop a session as of `now`. Active time after it is dropped, which lets idle
+   * sessions be stopped at their last heartbeat. With a `guard` nothing happens
+   * (null is returned) unless the session still matches it.
+   */
+  async stopSessionAt(
+    session: TrackingSession & {
+      task: { status: TaskStatus; totalTimeSpent: number; estimateHours: any; progress: number };
+    },
+    now: Date,
+    guard?: Prisma.TrackingSessionWhereInput,
+  ) {
+    const userId = session.userId;
     const task = session.task;
-    const previousProgress = task.progress;
-    const newTotalTimeSpent = task.totalTimeSpent + duration;
-    const estimatedSeconds = Number(task.estimateHours) * 3600;
-    const newProgress = Math.min((newTotalTimeSpent / estimatedSeconds) * 100, 100);
-
-    // Calculate EXP (in seconds)
-    const expEarned = duration;
 
     // Use transaction to update both session and task
     const result = await this.prisma.$transaction(async (tx) => {
-      // Update session
-      const updatedSession = await tx.trackingSession.update({
-        where: { id: sessionId },
+      if (guard && !(await this.claimSession(tx, session.id, guard, SessionStatus.stopped))) {
+        return null;
+      }
+
+      const { session: updatedSession, progress } = await this.finalizeSession(
+        session,
+        task,
+        tx,
+        now,
+        {
+          isActive: false,
+          status: TaskStatus.PLANNED,
+          ...(task.status !== TaskStatus.PLANNED && {
+            position: await this.tasksService.getColumnEndPosition(userId, TaskStatus.PLANNED, tx),
+          }),
+        },
+      );
+
+      // Check auto-complete
+      if (progress >= 100 && task.status !== TaskStatus.DONE) {
+        await this.tasksService.checkAndCompleteIfNeeded(session.taskId, progress, tx);
+      }
+
+      return {
+        ...updatedSession,
+        progress,
+      };
+    });
+
+    if (!result) {
+      return null;
+    }
+
+    await this.levelsService.refreshLevel(userId);
+    await this.streaksService.recordActivity(userId, now);
+
+    return result;
+  }
+
+  /**
+   * Move a session to `status` if it still matches `guard`. The row stays locked until
+   * the transaction ends, so a concurrent heartbeat waits and then sees the new status.
+   */
+  private async claimSession(
+    tx: any,
+    sessionId: string,
+    guard: Prisma.TrackingSessionWhereInput,
+    status: SessionStatus,
+  ) {
+    const { count } = await tx.trackingSession.updateMany({
+      where: { id: sessionId, ...guard },
+      data: { status },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Log time spent on a task without the timer (e.g. the user forgot to start it)
+   */
+  async createManual(dto: CreateManualSessionDto, userId: string) {
+    const task = await this.prisma.task.findUnique({
+      where: { id: dto.taskId },
+      select: {
+        id: true,
+        userId: true,
+        progress: true,
+        archivedAt: true,
+        isRecurringTemplate: true,
+      },
+    });
+
+    if (!task) {
+      throw new NotFoundException('Task not found');
+    }
+
+    if (task.userId !== userId) {
+      throw new ForbiddenException('You do not have permission to log time on this task');
+    }
+
+    this.tasksService.assertNotArchived(task);
+
+    if (task.isRecurringTemplate) {
+      throw new BadRequestException('Cannot track time on a recurring task template');
+    }
+
+    if (dto.subtaskId) {
+      await this.assertSubtaskOfTask(dto.subtaskId, task.id);
+    }
+
+    const startTime = new Date(dto.startTime);
+    const endTime = new Date(dto.endTime);
+    this.validateManualRange(startTime, endTime);
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      await this.assertNoOverlap(userId, startTime, endTime, tx);
+
+      const duration = this.calculateActiveDuration([{ startTime, endTime }]);
+
+      const session = await tx.trackingSession.create({
         data: {
-          endTime: now,
+          taskId: task.id,
+          subtaskId: dto.subtaskId,
+          userId,
+          startTime,
+          endTime,
           duration,
           status: SessionStatus.stopped,
-          expEarned: expEarned,
-          previousProgress: previousProgress,
+          expEarned: duration,
+          previousProgress: task.progress,
+          isManual: true,
+          intervals: {
+            create: { startTime, endTime },
+          },
         },
-        select: {
-          id: true,
-          taskId: true,
-          userId: true,
-          startTime: true,
-          endTime: true,
-          duration: true,
-          status: true,
-          expEarned: true,
-          previousProgress: true,
-          createdAt: true,
-          updatedAt: true,
+        select: STOPPED_SESSION_SELECT,
+      });
+
+      await this.analyticsService.recordSession(
+        { id: session.id, userId, taskId: task.id, endTime },
+        [{ startTime, endTime }],
+        tx,
+      );
+
+      await this.levelsService.awardExp(
+        {
+          userId,
+          amount: duration,
+          source: ExpSource.MANUAL_ENTRY,
+          description: 'Manual time entry',
+          sessionId: session.id,
+          taskId: task.id,
+        },
+        tx,
+      );
+
+      await this.writeAuditLog(tx, session, SessionAuditAction.CREATE, null, session, dto.reason);
+
+      const progress = await this.recalculateTaskProgress(task.id, tx);
+
+      return { ...session, progress };
+    });
+
+    await this.levelsService.refreshLevel(userId);
+    // Count the entry towards the streak of the day it was logged for
+    await this.streaksService.recordActivity(userId, endTime);
+
+    return result;
+  }
+
+  /**
+   * Upload sessions recorded offline. Each session carries a client-generated ID, so a
+   * resent batch returns the earlier outcome instead of logging the time twice. Time
+   * overlapping sessions already on the server (or earlier in the batch) is dropped;
+   * a session with nothing left is rejected.
+   */
+  async syncSessions(dto: SyncSessionsDto, userId: string) {
+    const results = new Map<string, SyncSessionResult>();
+    const syncedTaskIds = new Set<string>();
+
+    // Oldest first, so a later session is the one trimmed when two of them overlap
+    const sessions = [...dto.sessions].sort(
+      (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime(),
+    );
+
+    for (const item of sessions) {
+      const { result, created } = await this.syncSession(item, userId);
+      results.set(item.clientId, result);
+
+      if (created) {
+        syncedTaskIds.add(item.taskId);
+      }
+    }
+
+    // Inactive tasks reaching 100% are completed through TasksService.checkAndCompleteIfNeeded
+    for (const taskId of syncedTaskIds) {
+      await this.recalculateTaskProgress(taskId);
+    }
+
+    const tasks =
+      syncedTaskIds.size > 0
+        ? await this.prisma.task.findMany({
+            where: { id: { in: [...syncedTaskIds] } },
+            select: { id: true, status: true, progress: true, totalTimeSpent: true },
+          })
+        : [];
+
+    if (syncedTaskIds.size > 0) {
+      await this.levelsService.refreshLevel(userId);
+      await this.streaksService.recordActivity(userId);
+    }
+
+    return {
+      results: dto.sessions.map((item) => results.get(item.clientId)),
+      tasks,
+    };
+  }
+
+  private async syncSession(
+    item: SyncSessionDto,
+    userId: string,
+  ): Promise<{ result: SyncSessionResult; created: boolean }> {
+    const existing = await this.findSyncedSession(item, userId);
+    if (existing) {
+      return { result: existing, created: false };
+    }
+
+    try {
+      return { result: await this.createSyncedSession(item, userId), created: true };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        return {
+          result: { clientId: item.clientId, status: 'rejected', reason: error.message },
+          created: false,
+        };
+      }
+
+      // The same session was synced by a concurrent request
+      if (error.code === 'P2002') {
+        return { result: await this.findSyncedSession(item, userId), created: false };
+      }
+
+      throw error;
+    }
+  }
+
+  private async findSyncedSession(
+    item: SyncSessionDto,
+    userId: string,
+  ): Promise<SyncSessionResult | null> {
+    const session = await this.prisma.trackingSession.findUnique({
+      where: { userId_clientId: { userId, clientId: item.clientId } },
+      select: { id: true, startTime: true, endTime: true, duration: true },
+    });
+
+    if (!session) {
+      return null;
+    }
+
+    const requestedSeconds = this.calculateActiveDuration([
+      { startTime: new Date(item.startTime), endTime: new Date(item.endTime) },
+    ]);
+
+    return {
+      clientId: item.clientId,
+      status: session.duration < requestedSeconds ? 'merged' : 'accepted',
+      reason: 'Already synced',
+      sessionId: session.id,
+      duration: session.duration,
+    };
+  }
+
+  private async createSyncedSession(
+    item: SyncSessionDto,
+    userId: string,
+  ): Promise<SyncSessionResult> {
+    const task = await this.prisma.task.findUnique({
+      where: { id: item.taskId },
+      select: {
+        id: true,
+        userId: true,
+        progress: true,
+        isRecurringTemplate: true,
+        archivedAt: true,
+      },
+    });
+
+    if (!task || task.userId !== userId) {
+      throw new NotFoundException('Task not found');
+    }
+
+    if (task.archivedAt) {
+      throw new BadRequestException('Task is archived');
+    }
+
+    if (task.isRecurringTemplate) {
+      throw new BadRequestException('Cannot track time on a recurring task template');
+    }
+
+    if (item.subtaskId) {
+      await this.assertSubtaskOfTask(item.subtaskId, task.id);
+    }
+
+    const startTime = new Date(item.startTime);
+    const endTime = new Date(item.endTime);
+    this.validateManualRange(startTime, endTime);
+
+    return this.prisma.$transaction(async (tx): Promise<SyncSessionResult> => {
+      const overlapping = await tx.trackingSession.findMany({
+        where: {
+          userId,
+          startTime: { lt: endTime },
+          OR: [{ endTime: null }, { endTime: { gt: startTime } }],
         },
+        select: { startTime: true, endTime: true },
       });
 
-      // Update task
-      await tx.task.update({
-        where: { id: session.taskId },
+      const intervals = this.subtractSpans(startTime, endTime, overlapping);
+
+      if (intervals.length === 0) {
+        throw new ConflictException('Session overlaps existing sessions entirely');
+      }
+
+      const duration = this.calculateActiveDuration(intervals);
+      const droppedSeconds = this.calculateActiveDuration([{ startTime, endTime }]) - duration;
+      const sessionEnd = intervals[intervals.length - 1].endTime;
+
+      // Time left between the kept parts is stored as pauses
+      const session = await tx.trackingSession.create({
         data: {
-          totalTimeSpent: newTotalTimeSpent,
-          progress: newProgress,
-          isActive: false,
-          status: TaskStatus.PLANNED,
+          taskId: task.id,
+          subtaskId: item.subtaskId,
+          userId,
+          clientId: item.clientId,
+          startTime: intervals[0].startTime,
+          endTime: sessionEnd,
+          duration,
+          status: SessionStatus.stopped,
+          expEarned: duration,
+          previousProgress: task.progress,
+          intervals: { create: intervals },
         },
+        select: { id: true },
       });
 
-      // Check auto-complete
-      if (newProgress >= 100 && task.status !== TaskStatus.DONE) {
-        await this.tasksService.checkAndCompleteIfNeeded(session.taskId, newProgress, tx);
-      }
+      await this.analyticsService.recordSession(
+        { id: session.id, userId, taskId: task.id, endTime: sessionEnd },
+        intervals,
+        tx,
+      );
+
+      await this.levelsService.awardExp(
+        {
+          userId,
+          amount: duration,
+          source: ExpSource.SESSION_STOP,
+          description: 'Offline session synced',
+          sessionId: session.id,
+          taskId: task.id,
+        },
+        tx,
+      );
 
       return {
-        ...updatedSession,
-        progress: newProgress,
+        clientId: item.clientId,
+        status: droppedSeconds > 0 ? 'merged' : 'accepted',
+        reason:
+          droppedSeconds > 0
+            ? `${droppedSeconds}s overlapping existing sessions were left out`
+            : null,
+        sessionId: session.id,
+        duration,
       };
     });
+  }
+
+  /**
+   * Parts of [startTime, endTime] not covered by any of the given sessions.
+   * A running session (no end) covers everything after its start.
+   */
+  private subtractSpans(
+    startTime: Date,
+    endTime: Date,
+    spans: { startTime: Date; endTime: Date | null }[],
+  ): { startTime: Date; endTime: Date }[] {
+    const parts: { startTime: Date; endTime: Date }[] = [];
+    const end = endTime.getTime();
+    let cursor = startTime.getTime();
+
+    const sorted = [...spans].sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+    for (const span of sorted) {
+      if (cursor >= end) {
+        break;
+      }
+
+      const spanStart = span.startTime.getTime();
+      if (spanStart > cursor) {
+        parts.push({ startTime: new Date(cursor), endTime: new Date(Math.min(spanStart, end)) });
+      }
+
+      cursor = Math.max(cursor, span.endTime?.getTime() ?? Infinity);
+    }
+
+    if (cursor < end) {
+      parts.push({ startTime: new Date(cursor), endTime });
+    }
+
+    // Slivers under a second carry no time
+    return parts.filter((part) => part.endTime.getTime() - part.startTime.getTime() >= 1000);
+  }
+
+  /**
+   * Correct the start/end time of a stopped session.
+   * Pauses inside the new range are kept; the first/last active interval is stretched
+   * when the range is extended.
+   */
+  async updateSession(sessionId: string, dto: UpdateSessionDto, userId: string) {
+    const session = await this.findStoppedSession(sessionId, userId, 'edit');
+
+    const startTime = dto.startTime ? new Date(dto.startTime) : session.startTime;
+    const endTime = dto.endTime ? new Date(dto.endTime) : session.endTime;
+    this.validateManualRange(startTime, endTime);
+
+    const oldIntervals = this.getStoppedIntervals(session);
+    const newIntervals = this.reshapeIntervals(oldIntervals, startTime, endTime);
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      await this.assertNoOverlap(userId, startTime, endTime, tx, sessionId);
+
+      await this.analyticsService.removeSession(session, oldIntervals, tx);
+
+      await tx.trackingSessionInterval.deleteMany({ where: { sessionId } });
+      await tx.trackingSessionInterval.createMany({
+        data: newIntervals.map((interval) => ({ sessionId, ...interval })),
+      });
+
+      const duration = this.calculateActiveDuration(newIntervals);
+
+      const updatedSession = await tx.trackingSession.update({
+        where: { id: sessionId },
+        data: { startTime, endTime, duration, expEarned: duration },
+        select: STOPPED_SESSION_SELECT,
+      });
+
+      await this.analyticsService.recordSession(
+        { id: sessionId, userId, taskId: session.taskId, endTime },
+        newIntervals,
+        tx,
+      );
+
+      await this.levelsService.awardExp(
+        {
+          userId,
+          amount: duration - session.expEarned,
+          source: ExpSource.MANUAL_ENTRY,
+          description: 'Session corrected',
+          sessionId,
+          taskId: session.taskId,
+        },
+        tx,
+      );
+
+      await this.writeAuditLog(
+        tx,
+        session,
+        SessionAuditAction.UPDATE,
+        session,
+        updatedSession,
+        dto.reason,
+      );
+
+      const progress = await this.recalculateTaskProgress(session.taskId, tx);
+
+      return { ...updatedSession, progress };
+    });
+
+    await this.levelsService.refreshLevel(userId);
+    await this.streaksService.recordActivity(userId);
 
     return result;
   }
 
+  /**
+   * Delete a stopped session and take its time and EXP back
+   */
+  async removeSession(sessionId: string, userId: string) {
+    const session = await this.findStoppedSession(sessionId, userId, 'delete');
+
+    await this.prisma.$transaction(async (tx) => {
+      await this.analyticsService.removeSession(session, this.getStoppedIntervals(session), tx);
+
+      await tx.trackingSession.delete({
+        where: { id: sessionId },
+      });
+
+      await this.levelsService.awardExp(
+        {
+          userId,
+          amount: -session.expEarned,
+          source: ExpSource.MANUAL_ENTRY,
+          description: 'Session deleted',
+          sessionId,
+          taskId: session.taskId,
+        },
+        tx,
+      );
+
+      await this.writeAuditLog(tx, session, SessionAuditAction.DELETE, session, null);
+
+      await this.recalculateTaskProgress(session.taskId, tx);
+    });
+
+    await this.levelsService.refreshLevel(userId);
+
+    return { message: 'Session deleted successfully' };
+  }
+
+  /**
+   * Manual changes made to a session, oldest first. Still available after the session is deleted.
+   */
+  async getAuditLog(sessionId: string, userId: string) {
+    const logs = await this.prisma.trackingSessionAuditLog.findMany({
+      where: { sessionId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (logs.length === 0) {
+      const session = await this.prisma.trackingSession.findUnique({
+        where: { id: sessionId },
+        select: { userId: true },
+      });
+
+      if (!session) {
+        throw new NotFoundException('Session not found');
+      }
+
+      if (session.userId !== userId) {
+        throw new ForbiddenException('You do not have permission to view this session');
+      }
+
+      return [];
+    }
+
+    if (logs[0].userId !== userId) {
+      throw new ForbiddenException('You do not have permission to view this session');
+    }
+
+    return logs;
+  }
+
+  private async findStoppedSession(sessionId: string, userId: string, action: string) {
+    const session = await this.prisma.trackingSession.findUnique({
+      where: { id: sessionId },
+      include: {
+        intervals: {
+          select: { startTime: true, endTime: true },
+          orderBy: { startTime: 'asc' },
+        },
+        task: { select: { archivedAt: true } },
+      },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    if (session.userId !== userId) {
+      throw new ForbiddenException(`You do not have permission to ${action} this session`);
+    }
+
+    // Time on archived tasks is frozen until they are restored
+    this.tasksService.assertNotArchived(session.task);
+
+    if (session.status !== SessionStatus.stopped) {
+      throw new BadRequestException(`Only stopped sessions can be ${action}d`);
+    }
+
+    return session;
+  }
+
+  /**
+   * Intervals of a stopped session (legacy sessions without intervals are one continuous span)
+   */
+  private getStoppedIntervals(session: {
+    startTime: Date;
+    endTime: Date | null;
+    intervals: IntervalSpan[];
+  }): IntervalSpan[] {
+    return session.intervals.length > 0
+      ? session.intervals
+      : [{ startTime: session.startTime, endTime: session.endTime }];
+  }
+
+  /**
+   * Fit a session's active intervals to a new [startTime, endTime] range
+   */
+  private reshapeIntervals(
+    intervals: IntervalSpan[],
+    startTime: Date,
+    endTime: Date,
+  ): { startTime: Date; endTime: Date }[] {
+    const reshaped = intervals
+      .map((interval) => ({
+        startTime: new Date(Math.max(interval.startTime.getTime(), startTime.getTime())),
+        endTime: new Date(Math.min(interval.endTime.getTime(), endTime.getTime())),
+      }))
+      .filter((interval) => interval.endTime > interval.startTime);
+
+    // The new range only covers paused time - treat it as one continuous span
+    if (reshaped.length === 0) {
+      return [{ startTime, endTime }];
+    }
+
+    if (startTime < intervals[0].startTime) {
+      reshaped[0].startTime = startTime;
+    }
+
+    if (endTime > intervals[intervals.length - 1].endTime) {
+      reshaped[reshaped.length - 1].endTime = endTime;
+    }
+
+    return reshaped;
+  }
+
+  private validateManualRange(startTime: Date, endTime: Date) {
+    if (endTime <= startTime) {
+      throw new BadRequestException('endTime must be after startTime');
+    }
+
+    if (endTime > new Date()) {
+      throw new BadRequestException('Sessions cannot end in the future');
+    }
+
+    if (endTime.getTime() - startTime.getTime() > MAX_MANUAL_SESSION_HOURS * 3600 * 1000) {
+      throw new BadRequestException(
+        `A session cannot be longer than ${MAX_MANUAL_SESSION_HOURS} hours`,
+      );
+    }
+  }
+
+  /**
+   * Reject ranges overlapping any other session of the user, including the running one
+   */
+  private async assertNoOverlap(
+    userId: string,
+    startTime: Date,
+    endTime: Date,
+    tx: any,
+    excludeSessionId?: string,
+  ) {
+    const overlapping = await tx.trackingSession.findFirst({
+      where: {
+        userId,
+        ...(excludeSessionId && { id: { not: excludeSessionId } }),
+        startTime: { lt: endTime },
+        OR: [{ endTime: null }, { endTime: { gt: startTime } }],
+      },
+      select: { id: true },
+    });
+
+    if (overlapping) {
+      throw new ConflictException('Session overlaps with an existing session');
+    }
+  }
+
+  /**
+   * Subtask must exist and belong to the given task
+   */
+  async assertSubtaskOfTask(subtaskId: string, taskId: string, tx?: any) {
+    const prisma = tx || this.prisma;
+
+    const subtask = await prisma.subtask.findUnique({
+      where: { id: subtaskId },
+      select: { taskId: true },
+    });
+
+    if (!subtask || subtask.taskId !== taskId) {
+      throw new NotFoundException('Subtask not found');
+    }
+  }
+
+  /**
+   * Recalculate the task's time spent and progress from its stopped sessions and checklist.
+   * Inactive tasks reaching 100% are completed like on stop.
+   */
+  async recalculateTaskProgress(taskId: string, tx?: any) {
+    const prisma = tx || this.prisma;
+
+    const task = await prisma.task.findUnique({
+      where: { id: taskId },
+      select: { estimateHours: true, checklistWeight: true, isActive: true, status: true },
+    });
+
+    const result = await prisma.trackingSession.aggregate({
+      where: { taskId, status: SessionStatus.stopped },
+      _sum: { duration: true },
+    });
+
+    const totalTimeSpent = result._sum.duration || 0;
+    const progress = await this.calculateTaskProgress(taskId, totalTimeSpent, task, prisma);
+
+    await prisma.task.update({
+      where: { id: taskId },
+      data: { totalTimeSpent, progress },
+    });
+
+    if (progress >= 100 && !task.isActive && task.status !== TaskStatus.DONE) {
+      await this.tasksService.checkAndCompleteIfNeeded(taskId, progress, prisma);
+    }
+
+    return progress;
+  }
+
+  private async writeAuditLog(
+    tx: any,
+    session: Pick<TrackingSession, 'id' | 'userId' | 'taskId'>,
+    action: SessionAuditAction,
+    before: Pick<TrackingSession, 'startTime' | 'endTime' | 'duration' | 'expEarned'> | null,
+    after: Pick<TrackingSession, 'startTime' | 'endTime' | 'duration' | 'expEarned'> | null,
+    reason?: string,
+  ) {
+    const snapshot = (s: typeof before) =>
+      s && {
+        startTime: s.startTime.toISOString(),
+        endTime: s.endTime?.toISOString() ?? null,
+        duration: s.duration,
+        expEarned: s.expEarned,
+      };
+
+    await tx.trackingSessionAuditLog.create({
+      data: {
+        sessionId: session.id,
+        userId: session.userId,
+        taskId: session.taskId,
+        action,
+        before: snapshot(before) ?? undefined,
+        after: snapshot(after) ?? undefined,
+        reason,
+      },
+    });
+  }
+
   /**
    * Get task progress with all sessions
    */
@@ -294,6 +1263,7 @@ export class TrackingService {
         id: true,
         userId: true,
         estimateHours: true,
+        checklistWeight: true,
         progress: true,
         totalTimeSpent: true,
       },
@@ -313,6 +1283,7 @@ export class TrackingService {
       orderBy: { createdAt: 'desc' },
       select: {
         id: true,
+        subtaskId: true,
         startTime: true,
         endTime: true,
         duration: true,
@@ -320,39 +1291,64 @@ export class TrackingService {
         expEarned: true,
         previousProgress: true,
         createdAt: true,
+        intervals: {
+          select: { startTime: true, endTime: true },
+          orderBy: { startTime: 'asc' },
+        },
       },
     });
 
-    // Find active session if any
-    const activeSession = sessions.find((s) => s.status === SessionStatus.active);
+    const now = new Date();
+
+    // Active and paused time per session
+    const sessionsWithBreakdown = sessions.map((s) => ({
+      ...s,
+      ...this.getTimeBreakdown(s, now),
+    }));
+
+    const timeBreakdown = sessionsWithBreakdown.reduce(
+      (acc, s) => ({
+        activeTime: acc.activeTime + s.activeTime,
+        pausedTime: acc.pausedTime + s.pausedTime,
+      }),
+      { activeTime: 0, pausedTime: 0 },
+    );
 
-    // Calculate current progress including active session
+    // Find the running (active or paused) session if any
+    const currentSession = sessionsWithBreakdown.find((s) => s.status !== SessionStatus.stopped);
+
+    // Calculate current progress including the running session's active time
     let currentProgress = task.progress;
     let currentTotalTime = task.totalTimeSpent;
 
-    if (activeSession) {
-      const now = new Date();
-      const activeDuration = Math.floor((now.getTime() - activeSession.startTime.getTime()) / 1000);
-      currentTotalTime += activeDuration;
-      const estimatedSeconds = Number(task.estimateHours) * 3600;
-      currentProgress = Math.min((currentTotalTime / estimatedSeconds) * 100, 100);
+    if (currentSession) {
+      currentTotalTime += currentSession.activeTime;
+      currentProgress = await this.calculateTaskProgress(taskId, currentTotalTime, task);
     }
 
+    const checklist = await this.getChecklistStats(taskId);
+
     const estimatedSeconds = Number(task.estimateHours) * 3600;
     const expEarned = currentTotalTime;
 
     return {
       progress: Math.round(currentProgress * 100) / 100,
+      timeProgress:
+        Math.round(this.calculateProgress(currentTotalTime, task.estimateHours) * 100) / 100,
+      checklist: {
+        ...checklist,
+        progress: Math.round(checklist.progress * 100) / 100,
+        weight: task.checklistWeight,
+      },
       totalTimeSpent: currentTotalTime,
       estimateSeconds: estimatedSeconds,
       expEarned: expEarned,
-      sessions,
-      currentSession: activeSession
+      timeBreakdown,
+      sessions: sessionsWithBreakdown,
+      currentSession: currentSession
         ? {
-            ...activeSession,
-            currentDuration: Math.floor(
-              (new Date().getTime() - activeSession.startTime.getTime()) / 1000,
-            ),
+            ...currentSession,
+            currentDuration: currentSession.activeTime,
           }
         : null,
     };
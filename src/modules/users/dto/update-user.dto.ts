@@ -1,5 +1,19 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsEmail, IsOptional, IsString, MinLength } from 'class-validator';
+import {
+  ArrayUnique,
+  IsArray,
+  IsEmail,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  Max,
+  Min,
+  MinLength,
+} from 'class-validator';
+
+export const NOTIFICATION_CHANNELS = ['email', 'sms', 'push', 'websocket'];
 
 export class UpdateUserDto {
   @ApiProperty({ example: 'user@example.com', required: false })
@@ -22,4 +36,36 @@ export class UpdateUserDto {
   @IsString()
   @IsOptional()
   lastName?: string;
+
+  @ApiProperty({
+    example: 'Asia/Ho_Chi_Minh',
+    required: false,
+    description: 'IANA timezone used for daily streaks',
+  })
+  @IsTimeZone()
+  @IsOptional()
+  timezone?: string;
+
+  @ApiProperty({
+    example: 30,
+    required: false,
+    description: 'Minutes of tracked time needed for a day to count towards the streak',
+  })
+  @IsInt()
+  @Min(1)
+  @Max(1440)
+  @IsOptional()
+  dailyGoalMinutes?: number;
+
+  @ApiProperty({
+    example: ['push', 'email'],
+    required: false,
+    type: [String],
+    description: 'Channels used for reminders: email, sms, push, websocket',
+  })
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(NOTIFICATION_CHANNELS, { each: true })
+  @IsOptional()
+  notificationChannels?: string[];
 }
@@ -11,6 +11,9 @@ import {
 } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiBearerAuth } from '@nestjs/swagger';
 import { UsersService } from './users.service';
+import { LevelsService } from '../levels/levels.service';
+import { StreaksService } from '../streaks/streaks.service';
+import { PresenceService } from '../presence/presence.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { QueryUsersDto } from './dto/query-users.dto';
@@ -24,7 +27,12 @@ import { CurrentUser } from '@/common/decorators/current-user.decorator';
 @Controller('users')
 @UseGuards(JwtAuthGuard, RolesGuard)
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly levelsService: LevelsService,
+    private readonly streaksService: StreaksService,
+    private readonly presenceService: PresenceService,
+  ) {}
 
   @Post()
   @Roles('ADMIN')
@@ -70,6 +78,102 @@ export class UsersController {
     return this.usersService.getProfile(user.id);
   }
 
+  @Get('profile/level')
+  @ApiOperation({ summary: 'Get current user level, EXP progress and recent EXP transactions' })
+  @ApiResponse({
+    status: 200,
+    description: 'Level retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          level: 3,
+          totalExp: 14400,
+          currentLevelExp: 10800,
+          nextLevelExp: 25200,
+          expToNextLevel: 10800,
+          progress: 25,
+          isMaxLevel: false,
+          recentTransactions: [
+            {
+              id: 'transaction-id',
+              amount: 1800,
+              source: 'SESSION_STOP',
+              description: 'Tracking session stopped',
+              sessionId: 'session-id',
+              taskId: 'task-id',
+              createdAt: '2025-12-25T10:30:00.000Z',
+            },
+          ],
+        },
+      },
+    },
+  })
+  getProfileLevel(@CurrentUser() user: any) {
+    return this.levelsService.getLevelInfo(user.id);
+  }
+
+  @Get('profile/streak')
+  @ApiOperation({ summary: "Get current user's daily study streak" })
+  @ApiResponse({
+    status: 200,
+    description: 'Streak retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: {
+          currentStreak: 5,
+          longestStreak: 12,
+          freezeTokens: 1,
+          lastActiveDate: '2025-12-24',
+          timezone: 'Asia/Ho_Chi_Minh',
+          dailyGoalMinutes: 30,
+          today: {
+            date: '2025-12-25',
+            focusedSeconds: 900,
+            goalSeconds: 1800,
+            completed: false,
+          },
+        },
+      },
+    },
+  })
+  getProfileStreak(@CurrentUser() user: any) {
+    return this.streaksService.getStreak(user.id);
+  }
+
+  @Get('profile/study-buddies')
+  @ApiOperation({
+    summary: 'Get the users you studied with the most',
+    description: 'Ranked by the time both of you were in the same room.',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Study buddies retrieved successfully',
+    schema: {
+      example: {
+        error: false,
+        code: 0,
+        message: 'Success',
+        data: [
+          {
+            user: { id: 'user-2', firstName: 'Binh', lastName: 'Tran', avatar: null },
+            totalSeconds: 12600,
+            sharedRooms: 3,
+            lastStudiedAt: '2025-12-24T21:30:00.000Z',
+          },
+        ],
+      },
+    },
+  })
+  getProfileStudyBuddies(@CurrentUser() user: any) {
+    return this.presenceService.getStudyBuddies(user.id);
+  }
+
   @Patch('profile')
   @ApiOperation({ summary: 'Update current user profile' })
   @ApiResponse({ status: 200, description: 'Profile updated successfully' })
@@ -2,8 +2,12 @@ import { Module } from '@nestjs/common';
 import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
 import { PrismaService } from '@/database/prisma.service';
+import { LevelsModule } from '../levels/levels.module';
+import { StreaksModule } from '../streaks/streaks.module';
+import { PresenceModule } from '../presence/presence.module';
 
 @Module({
+  imports: [LevelsModule, StreaksModule, PresenceModule],
   controllers: [UsersController],
   providers: [UsersService, PrismaService],
   exports: [UsersService],
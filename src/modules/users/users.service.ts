@@ -95,6 +95,11 @@ export class UsersService {
         avatar: true,
         role: true,
         isActive: true,
+        level: true,
+        totalExp: true,
+        timezone: true,
+        dailyGoalMinutes: true,
+        notificationChannels: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -124,6 +129,9 @@ export class UsersService {
       email: updateUserDto.email,
       firstName: updateUserDto.firstName,
       lastName: updateUserDto.lastName,
+      timezone: updateUserDto.timezone,
+      dailyGoalMinutes: updateUserDto.dailyGoalMinutes,
+      notificationChannels: updateUserDto.notificationChannels,
     };
 
     if (updateUserDto.password) {
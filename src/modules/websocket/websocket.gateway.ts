@@ -8,9 +8,10 @@ import {
   MessageBody,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
-import { Logger } from '@nestjs/common';
+import { Inject, Logger, forwardRef } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
+import { SessionIdleService } from '../tracking/session-idle.service';
 
 @WebSocketGateway({
   namespace: '/',
@@ -24,6 +25,8 @@ export class AppWebSocketGateway implements OnGatewayConnection, OnGatewayDiscon
   constructor(
     private jwtService: JwtService,
     private configService: ConfigService,
+    @Inject(forwardRef(() => SessionIdleService))
+    private sessionIdleService: SessionIdleService,
   ) {}
 
   async handleConnection(client: Socket) {
@@ -72,16 +75,25 @@ export class AppWebSocketGateway implements OnGatewayConnection, OnGatewayDiscon
     return { event: 'left-room', room };
   }
 
-  @SubscribeMessage('message')
-  handleMessage(@ConnectedSocket() client: Socket, @MessageBody() data: any) {
-    this.logger.log(`Message from ${client.id}: ${JSON.stringify(data)}`);
-    // Broadcast to all clients in the same room
-    client.to(data.room || 'default').emit('message', {
-      ...data,
-      from: client.data.userId,
-      timestamp: new Date(),
-    });
-    return { event: 'message-sent', data };
+  /**
+   * Keep-alive for the active tracking session. Sessions without heartbeats are
+   * paused or stopped by the idle sweep (see SessionIdleService).
+   */
+  @SubscribeMessage('session-heartbeat')
+  async handleSessionHeartbeat(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { sessionId: string },
+  ) {
+    if (!client.data.userId || !data?.sessionId) {
+      return { event: 'session-heartbeat-error', data: { message: 'sessionId is required' } };
+    }
+
+    const result = await this.sessionIdleService.recordHeartbeat(
+      data.sessionId,
+      client.data.userId,
+    );
+
+    return { event: 'session-heartbeat-ack', data: result };
   }
 
   // Helper method to send to specific user